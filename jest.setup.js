@@ -43,6 +43,10 @@ global.createMockResponse = (status, data, headers = {}) => {
         }
         return headers[name];
       }),
+      forEach: jest.fn(callback => {
+        Object.entries({ 'content-type': 'application/json', ...headers })
+          .forEach(([name, value]) => callback(value, name));
+      }),
       ...headers
     },
     json: jest.fn().mockResolvedValue(data),
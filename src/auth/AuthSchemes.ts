@@ -0,0 +1,121 @@
+import { ResolvedRequestConfig } from '../core/NetworkRequestable';
+import { TokenProvider } from '../decorators/AuthenticatedDecorator';
+import { base64Encode } from '../crypto/base64';
+
+/**
+ * How AuthenticatedDecorator adds a credential to a request. Implement it
+ * for schemes not covered by the built-in ones.
+ */
+export interface AuthScheme {
+  /** The header the scheme sets, if any; caches built by NetworkClientBuilder vary by it */
+  readonly headerName?: string;
+  /** The query parameter the scheme sets, if any; caches built by NetworkClientBuilder hash its value */
+  readonly queryName?: string;
+  /**
+   * Provides the credential instead of the decorator's token provider, e.g. a
+   * fixed API key. Requests using it are not refreshed on 401.
+   */
+  readonly credential?: TokenProvider;
+  /**
+   * Add the credential to a request
+   * @param config The request configuration
+   * @param credential The token or key
+   * @returns The configuration to send
+   */
+  apply(config: ResolvedRequestConfig, credential: string): ResolvedRequestConfig;
+}
+
+/**
+ * Chooses the authentication scheme for an endpoint. Selectors listing the
+ * schemes they choose from let caches built by NetworkClientBuilder vary by all of them.
+ */
+export type AuthSchemeSelector = ((endpoint: string) => AuthScheme) & { readonly schemes?: AuthScheme[] };
+
+/**
+ * Where an API key is sent
+ */
+export type ApiKeyPlacement = 'header' | 'query';
+
+/**
+ * Send the token with a prefix, e.g. `Token abc` or `Bearer abc`. A token that
+ * already has the prefix is sent as is.
+ * @param prefix The prefix (default: 'Bearer')
+ * @param headerName The header (default: 'Authorization')
+ */
+export function tokenAuth(prefix: string = 'Bearer', headerName: string = 'Authorization'): AuthScheme {
+  return {
+    headerName,
+    apply: (config, credential) =>
+      withHeader(config, headerName, credential.startsWith(`${prefix} `) ? credential : `${prefix} ${credential}`)
+  };
+}
+
+/**
+ * Send the token as `Bearer <token>`
+ * @param headerName The header (default: 'Authorization')
+ */
+export function bearerAuth(headerName: string = 'Authorization'): AuthScheme {
+  return tokenAuth('Bearer', headerName);
+}
+
+/**
+ * HTTP Basic authentication. Without a username, the token provider supplies
+ * the credentials as `username:password`.
+ * @param username The username, for fixed credentials
+ * @param password The password, for fixed credentials
+ */
+export function basicAuth(username?: string, password: string = ''): AuthScheme {
+  return {
+    headerName: 'Authorization',
+    credential: username !== undefined ? () => `${username}:${password}` : undefined,
+    apply: (config, credential) => withHeader(config, 'Authorization', `Basic ${base64Encode(credential)}`)
+  };
+}
+
+/**
+ * Send an API key as is, in a header or a query parameter. Keys in the query
+ * string show up in server and proxy logs; prefer a header where the API allows it.
+ * @param name The header or query parameter name, e.g. 'X-API-Key' or 'api_key'
+ * @param placement Where the key is sent (default: 'header')
+ * @param key The key, for a fixed key; otherwise the token provider supplies it
+ */
+export function apiKeyAuth(name: string, placement: ApiKeyPlacement = 'header', key?: string): AuthScheme {
+  const credential = key !== undefined ? () => key : undefined;
+  if (placement === 'query') {
+    return {
+      queryName: name,
+      credential,
+      apply: (config, value) => ({ ...config, query: { ...config.query, [name]: value } })
+    };
+  }
+  return {
+    headerName: name,
+    credential,
+    apply: (config, value) => withHeader(config, name, value)
+  };
+}
+
+/**
+ * Choose the scheme by endpoint prefix; the longest matching prefix wins
+ * @param schemes Schemes by endpoint prefix, e.g. { '/legacy/': basicAuth(), '/partners/': apiKeyAuth('X-API-Key') }
+ * @param fallback The scheme for other endpoints (default: bearerAuth())
+ * @returns A selector for AuthenticatedDecorator
+ */
+export function authSchemesByPrefix(
+  schemes: Record<string, AuthScheme>,
+  fallback: AuthScheme = bearerAuth()
+): AuthSchemeSelector {
+  const prefixes = Object.keys(schemes).sort((a, b) => b.length - a.length);
+  const select = (endpoint: string) => {
+    const prefix = prefixes.find(candidate => endpoint.startsWith(candidate));
+    return prefix !== undefined ? schemes[prefix] : fallback;
+  };
+  return Object.assign(select, { schemes: [...Object.values(schemes), fallback] });
+}
+
+/**
+ * Set a header on a copy of the config
+ */
+function withHeader(config: ResolvedRequestConfig, name: string, value: string): ResolvedRequestConfig {
+  return { ...config, headers: { ...config.headers, [name]: value } };
+}
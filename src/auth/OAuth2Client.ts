@@ -0,0 +1,298 @@
+import { HTTPMethod, NetworkError } from '../types';
+import { NetworkRequestable } from '../core/NetworkRequestable';
+import { appendQuery, encodeQueryComponent, parseQuery } from '../core/QueryString';
+import { AuthOptions, TokenProvider } from '../decorators/AuthenticatedDecorator';
+import { ResponseFormat } from '../core/Parsers';
+import { base64Encode, base64UrlEncode } from '../crypto/base64';
+import { sha256 } from '../crypto/sha256';
+import { TokenManager, TokenManagerOptions, TokenSet } from './TokenManager';
+
+/**
+ * The authorization server and client registration
+ */
+export interface OAuth2Config {
+  clientId: string;
+  /** Only for confidential clients; apps shipped to users cannot keep a secret */
+  clientSecret?: string;
+  /** Where the user signs in (authorization-code flow) */
+  authorizationEndpoint?: string;
+  tokenEndpoint: string;
+  /** RFC 7009 revocation endpoint */
+  revocationEndpoint?: string;
+  /** Where the authorization server sends the user back, e.g. 'myapp://oauth/callback' */
+  redirectUri?: string;
+  /** Scopes requested by default */
+  scopes?: string[];
+  /** How the client authenticates to the token endpoint (default: 'basic' with a clientSecret, otherwise the client_id is sent in the body) */
+  clientAuthentication?: 'basic' | 'body';
+}
+
+/**
+ * OAuth2Client settings, passed on to its TokenManager
+ */
+export interface OAuth2ClientOptions extends Omit<TokenManagerOptions, 'refresh'> {
+  /** Secure random source (default: crypto.getRandomValues) */
+  randomBytes?: (length: number) => Uint8Array;
+}
+
+/**
+ * A pending authorization-code request. Keep it until the user returns to
+ * the redirect URI, then pass it to exchangeCode().
+ */
+export interface AuthorizationRequest {
+  /** Open this URL in the browser */
+  url: string;
+  state: string;
+  codeVerifier: string;
+  codeChallenge: string;
+  redirectUri: string;
+}
+
+/**
+ * A token endpoint response (RFC 6749 section 5.1)
+ */
+export interface OAuth2TokenResponse {
+  access_token: string;
+  token_type?: string;
+  expires_in?: number;
+  refresh_token?: string;
+  scope?: string;
+  id_token?: string;
+  [key: string]: any;
+}
+
+type Grant = 'authorization_code' | 'client_credentials';
+
+/**
+ * OAuth 2.0 client for the authorization-code grant with PKCE (RFC 7636),
+ * refresh-token rotation, the client-credentials grant and token revocation.
+ * Token endpoint requests go through the given NetworkRequestable without
+ * authentication. Tokens are kept by a TokenManager, which refreshes them
+ * before they expire; pass tokenProvider and authOptions to
+ * AuthenticatedDecorator.
+ */
+export class OAuth2Client {
+  /** Holds and refreshes the tokens */
+  readonly tokens: TokenManager;
+  /** Token provider for AuthenticatedDecorator */
+  readonly tokenProvider: TokenProvider;
+  /** Options for AuthenticatedDecorator, refreshing on 401 */
+  readonly authOptions: AuthOptions;
+  private client: NetworkRequestable;
+  private config: OAuth2Config;
+  private randomBytes: (length: number) => Uint8Array;
+  private grant?: Grant;
+
+  /**
+   * Create a new OAuth2Client
+   * @param client Sends the token endpoint requests
+   * @param config The authorization server and client registration
+   * @param options Token storage, refresh window, auth failure callback and random source
+   */
+  constructor(client: NetworkRequestable, config: OAuth2Config, options: OAuth2ClientOptions = {}) {
+    const { randomBytes, ...tokenOptions } = options;
+    this.client = client;
+    this.config = config;
+    this.randomBytes = randomBytes ?? secureRandomBytes;
+    this.tokens = new TokenManager({ ...tokenOptions, refresh: current => this.renew(current) });
+    this.tokenProvider = this.tokens.tokenProvider;
+    this.authOptions = this.tokens.authOptions;
+  }
+
+  /**
+   * Start the authorization-code flow with a new PKCE verifier and state
+   * @param params Additional authorization parameters, e.g. { prompt: 'login' }
+   * @returns The URL to open and the values needed to complete the flow
+   */
+  createAuthorizationRequest(params: Record<string, string> = {}): AuthorizationRequest {
+    const { authorizationEndpoint, redirectUri } = this.config;
+    if (!authorizationEndpoint || !redirectUri) {
+      throw NetworkError.custom('OAuth authorization needs an authorizationEndpoint and a redirectUri');
+    }
+    const codeVerifier = createCodeVerifier(this.randomBytes);
+    const codeChallenge = createCodeChallenge(codeVerifier);
+    const state = base64UrlEncode(this.randomBytes(16));
+    const url = appendQuery(authorizationEndpoint, {
+      response_type: 'code',
+      client_id: this.config.clientId,
+      redirect_uri: redirectUri,
+      scope: this.config.scopes?.join(' '),
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: 'S256',
+      ...params
+    });
+    return { url, state, codeVerifier, codeChallenge, redirectUri };
+  }
+
+  /**
+   * Complete the authorization-code flow: check the state and exchange the code for tokens
+   * @param callbackUrl The redirect URI the user returned to, with its query string
+   * @param request The request created by createAuthorizationRequest()
+   * @returns The tokens, which are also stored
+   */
+  async exchangeCode(callbackUrl: string, request: AuthorizationRequest): Promise<TokenSet> {
+    let params: Record<string, string>;
+    try {
+      params = parseQuery(callbackUrl);
+    } catch (error) {
+      // A malformed percent-encoding, e.g. a stray %
+      if (error instanceof URIError) {
+        throw NetworkError.custom('Invalid redirect URL').withDetails({ cause: error });
+      }
+      throw error;
+    }
+    // A mismatched state means the response was not for this request
+    if (params.state !== request.state) {
+      throw NetworkError.custom('OAuth state does not match the authorization request');
+    }
+    if (params.error) {
+      const description = params.error_description ? `: ${params.error_description}` : '';
+      throw NetworkError.custom(`OAuth authorization failed: ${params.error}${description}`);
+    }
+    if (!params.code) {
+      throw NetworkError.custom('OAuth callback has no authorization code');
+    }
+
+    const tokens = await this.requestTokens({
+      grant_type: 'authorization_code',
+      code: params.code,
+      redirect_uri: request.redirectUri,
+      code_verifier: request.codeVerifier
+    });
+    return this.store(tokens, 'authorization_code');
+  }
+
+  /**
+   * Get tokens for the client itself (client-credentials grant), e.g. for service calls
+   * @param scopes The scopes to request (default: the configured scopes)
+   * @returns The tokens, which are also stored and renewed the same way when they expire
+   */
+  async clientCredentials(scopes: string[] | undefined = this.config.scopes): Promise<TokenSet> {
+    const tokens = await this.requestTokens({ grant_type: 'client_credentials', scope: scopes?.join(' ') });
+    return this.store(tokens, 'client_credentials');
+  }
+
+  /**
+   * Refresh the tokens now. Concurrent calls share one refresh.
+   * @returns The new access token
+   */
+  refresh(): Promise<string> {
+    return this.tokens.refresh();
+  }
+
+  /**
+   * Revoke the tokens at the authorization server, if it has a revocation
+   * endpoint, and remove them. They are removed even if revocation fails.
+   */
+  async revoke(): Promise<void> {
+    const tokens = await this.tokens.getTokens();
+    try {
+      const { revocationEndpoint } = this.config;
+      if (revocationEndpoint && tokens) {
+        // Revoking the refresh token also ends the access tokens issued with it on most servers
+        if (tokens.refreshToken) {
+          await this.post(revocationEndpoint, { token: tokens.refreshToken, token_type_hint: 'refresh_token' }, 'text');
+        }
+        await this.post(revocationEndpoint, { token: tokens.accessToken, token_type_hint: 'access_token' }, 'text');
+      }
+    } finally {
+      this.grant = undefined;
+      await this.tokens.clear();
+    }
+  }
+
+  /**
+   * Renew the tokens for the TokenManager, keeping the refresh token if the server does not rotate it
+   */
+  private async renew(current: TokenSet | undefined): Promise<TokenSet> {
+    if (current?.refreshToken) {
+      const tokens = await this.requestTokens({ grant_type: 'refresh_token', refresh_token: current.refreshToken });
+      return { ...tokens, refreshToken: tokens.refreshToken ?? current.refreshToken };
+    }
+    if (this.grant === 'client_credentials') {
+      return this.requestTokens({ grant_type: 'client_credentials', scope: this.config.scopes?.join(' ') });
+    }
+    throw NetworkError.unauthorized();
+  }
+
+  private async store(tokens: TokenSet, grant: Grant): Promise<TokenSet> {
+    this.grant = grant;
+    await this.tokens.setTokens(tokens);
+    return (await this.tokens.getTokens())!;
+  }
+
+  private async requestTokens(params: Record<string, string | undefined>): Promise<TokenSet> {
+    const response = await this.post<OAuth2TokenResponse>(this.config.tokenEndpoint, params);
+    if (!response || typeof response.access_token !== 'string') {
+      throw NetworkError.decodingError('OAuth token response has no access_token');
+    }
+    return {
+      accessToken: response.access_token,
+      refreshToken: response.refresh_token,
+      expiresIn: response.expires_in,
+      scope: response.scope,
+      idToken: response.id_token
+    };
+  }
+
+  /**
+   * Send a form to an authorization server endpoint with client authentication
+   */
+  private post<T>(
+    endpoint: string,
+    params: Record<string, string | undefined>,
+    responseFormat: ResponseFormat = 'json'
+  ): Promise<T> {
+    const { clientId, clientSecret } = this.config;
+    const method = this.config.clientAuthentication ?? (clientSecret ? 'basic' : 'body');
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Accept': 'application/json'
+    };
+    const body: Record<string, string | undefined> = { ...params };
+    if (method === 'basic') {
+      const credentials = `${encodeQueryComponent(clientId)}:${encodeQueryComponent(clientSecret ?? '')}`;
+      headers['Authorization'] = `Basic ${base64Encode(credentials)}`;
+    } else {
+      body.client_id = clientId;
+      body.client_secret = clientSecret;
+    }
+    // Codes and rotated refresh tokens are single-use, so a blind retry would fail
+    return this.client.request<T>(endpoint, {
+      method: HTTPMethod.POST,
+      headers,
+      body,
+      responseFormat,
+      context: { skipAuth: true, skipCache: true, retry: false }
+    });
+  }
+}
+
+/**
+ * Create a PKCE code verifier: 32 random bytes as base64url (43 characters)
+ * @param randomBytes Secure random source (default: crypto.getRandomValues)
+ */
+export function createCodeVerifier(randomBytes: (length: number) => Uint8Array = secureRandomBytes): string {
+  return base64UrlEncode(randomBytes(32));
+}
+
+/**
+ * Create the S256 PKCE code challenge for a verifier
+ * @param codeVerifier The code verifier
+ */
+export function createCodeChallenge(codeVerifier: string): string {
+  return base64UrlEncode(sha256(codeVerifier));
+}
+
+/**
+ * Get random bytes from crypto.getRandomValues, which React Native provides
+ * through a polyfill such as react-native-get-random-values
+ */
+function secureRandomBytes(length: number): Uint8Array {
+  const cryptoApi = (globalThis as { crypto?: { getRandomValues?: (array: Uint8Array) => Uint8Array } }).crypto;
+  if (!cryptoApi?.getRandomValues) {
+    throw new Error('No secure random source: install a crypto.getRandomValues polyfill or pass randomBytes');
+  }
+  return cryptoApi.getRandomValues(new Uint8Array(length));
+}
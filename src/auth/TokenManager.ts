@@ -0,0 +1,276 @@
+import { NetworkError } from '../types';
+import { ResponseInterceptor } from '../core/Interceptors';
+import { AuthOptions, TokenProvider } from '../decorators/AuthenticatedDecorator';
+import { base64Decode } from '../crypto/base64';
+import { utf8Decode } from '../crypto/sha256';
+
+/**
+ * An access token with what is needed to refresh it
+ */
+export interface TokenSet {
+  accessToken: string;
+  refreshToken?: string;
+  /** When the access token expires, in ms since the epoch by the server clock; read from a JWT exp claim if not set */
+  expiresAt?: number;
+  /** Lifetime of the access token in seconds, as in OAuth 2.0 token responses; used if expiresAt is not set */
+  expiresIn?: number;
+  /** Scopes granted, space-separated */
+  scope?: string;
+  /** OpenID Connect ID token */
+  idToken?: string;
+}
+
+/**
+ * Key-value storage for persisting tokens. Use an adapter for the platform's
+ * secure storage (Keychain / Keystore) rather than plain AsyncStorage.
+ */
+export interface TokenStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * TokenManager settings
+ */
+export interface TokenManagerOptions {
+  /** Obtain new tokens, e.g. with the refresh token; rejects if the session cannot be renewed */
+  refresh?: (tokens: TokenSet | undefined) => Promise<TokenSet>;
+  /** Refresh this long before the access token expires, in milliseconds (default: 60000) */
+  refreshWindow?: number;
+  /** Persists the tokens (default: none, tokens live in memory) */
+  storage?: TokenStorage;
+  /** Key the tokens are stored under (default: 'react-native-advanced-network/tokens') */
+  storageKey?: string;
+  /** Called once per failed refresh that leaves no usable token, e.g. to log the user out */
+  onAuthFailure?: (error: NetworkError) => void | Promise<void>;
+}
+
+/**
+ * Default time before expiry at which tokens are refreshed, in milliseconds
+ */
+export const DEFAULT_REFRESH_WINDOW = 60000;
+
+/**
+ * Holds the access token and refreshes it shortly before it expires, so
+ * requests rarely fail with an expired token. Expiry is read from JWT exp
+ * claims or given explicitly, and compared against the server clock, as
+ * estimated from response Date headers. Requests asking for a token while a
+ * refresh is in flight wait for it.
+ *
+ * ```typescript
+ * const tokens = new TokenManager({ refresh: current => renewSession(current?.refreshToken) });
+ * const client = authenticated(baseClient, tokens.tokenProvider, () => true, 'Authorization', tokens.authOptions);
+ * baseClient.addResponseInterceptor(tokens.responseInterceptor);
+ * ```
+ */
+export class TokenManager {
+  /** Token provider for AuthenticatedDecorator */
+  readonly tokenProvider: TokenProvider = () => this.getToken();
+  /** Options for AuthenticatedDecorator, refreshing through this manager on 401 */
+  readonly authOptions: AuthOptions = { refreshToken: () => this.refresh() };
+  /** Response interceptor that estimates the clock skew from Date headers */
+  readonly responseInterceptor: ResponseInterceptor = response => {
+    const date = Date.parse(response.headers.get('date') ?? '');
+    // A response served by a cache was generated Age seconds ago
+    const age = Number(response.headers.get('age')) || 0;
+    if (!isNaN(date)) {
+      this.syncClock(date + age * 1000);
+    }
+  };
+
+  private tokens?: TokenSet;
+  private options: TokenManagerOptions;
+  private refreshWindow: number;
+  private storageKey: string;
+  private clockSkew = 0;
+  private refreshing?: Promise<TokenSet>;
+  private reportedError?: unknown;
+  private loaded?: Promise<void>;
+
+  /**
+   * Create a new TokenManager
+   * @param options Refresh and persistence settings
+   */
+  constructor(options: TokenManagerOptions = {}) {
+    this.options = options;
+    this.refreshWindow = options.refreshWindow ?? DEFAULT_REFRESH_WINDOW;
+    this.storageKey = options.storageKey ?? 'react-native-advanced-network/tokens';
+  }
+
+  /**
+   * Store new tokens, e.g. after sign-in
+   * @param tokens The tokens, or just the access token
+   */
+  async setTokens(tokens: TokenSet | string): Promise<void> {
+    const { expiresIn, ...set } = typeof tokens === 'string' ? { accessToken: tokens } as TokenSet : tokens;
+    const expiresAt =
+      set.expiresAt ?? (expiresIn !== undefined ? this.serverNow() + expiresIn * 1000 : jwtExpiry(set.accessToken));
+    this.tokens = { ...set, expiresAt };
+    this.reportedError = undefined;
+    this.loaded = this.loaded ?? Promise.resolve();
+    await this.options.storage?.setItem(this.storageKey, JSON.stringify(this.tokens));
+  }
+
+  /**
+   * Get the stored tokens
+   * @returns The tokens, with expiresAt resolved, or undefined when signed out
+   */
+  async getTokens(): Promise<TokenSet | undefined> {
+    await this.load();
+    return this.tokens ? { ...this.tokens } : undefined;
+  }
+
+  /**
+   * Remove the tokens, e.g. on logout
+   */
+  async clear(): Promise<void> {
+    this.tokens = undefined;
+    this.loaded = this.loaded ?? Promise.resolve();
+    await this.options.storage?.removeItem(this.storageKey);
+  }
+
+  /**
+   * Get the access token, refreshing it first if it expires within the refresh window
+   * @returns The access token, or undefined when signed out
+   */
+  async getToken(): Promise<string | undefined> {
+    await this.load();
+    try {
+      if (this.refreshing) {
+        await this.refreshing;
+      } else if (this.tokens && this.options.refresh && this.expiresWithin(this.refreshWindow)) {
+        await this.startRefresh();
+      }
+    } catch (error) {
+      // Keep using a token that has not expired yet; the next request tries again
+      if (this.tokens && !this.expiresWithin(0)) {
+        return this.tokens.accessToken;
+      }
+      throw await this.reportFailure(error);
+    }
+    return this.tokens?.accessToken;
+  }
+
+  /**
+   * Refresh the tokens now, e.g. after the server rejected the access token.
+   * Concurrent calls share one refresh.
+   * @returns The new access token
+   */
+  async refresh(): Promise<string> {
+    await this.load();
+    try {
+      return (await (this.refreshing ?? this.startRefresh())).accessToken;
+    } catch (error) {
+      throw await this.reportFailure(error);
+    }
+  }
+
+  /**
+   * Check whether the access token expires within a time
+   * @param ms The time from now, in milliseconds (default: 0, i.e. has expired)
+   * @returns False if there is no token or its expiry is unknown
+   */
+  expiresWithin(ms: number = 0): boolean {
+    const expiresAt = this.tokens?.expiresAt;
+    return expiresAt !== undefined && expiresAt - this.serverNow() <= ms;
+  }
+
+  /**
+   * Estimate the difference between the server and device clocks
+   * @param serverDate The server time, as an HTTP date or ms since the epoch
+   */
+  syncClock(serverDate: string | number): void {
+    const time = typeof serverDate === 'number' ? serverDate : Date.parse(serverDate);
+    if (!isNaN(time)) {
+      this.clockSkew = time - Date.now();
+    }
+  }
+
+  /**
+   * Get the estimated difference between the server and device clocks
+   * @returns Milliseconds to add to the device time to get the server time
+   */
+  getClockSkew(): number {
+    return this.clockSkew;
+  }
+
+  private serverNow(): number {
+    return Date.now() + this.clockSkew;
+  }
+
+  private startRefresh(): Promise<TokenSet> {
+    if (!this.refreshing) {
+      const refresh = this.options.refresh;
+      if (!refresh) {
+        return Promise.reject(NetworkError.unauthorized());
+      }
+      this.refreshing = (async () => {
+        try {
+          await this.setTokens(await refresh(this.tokens));
+          return this.tokens!;
+        } finally {
+          this.refreshing = undefined;
+        }
+      })();
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Report a failed refresh to onAuthFailure, once per failure
+   * @returns The error to throw
+   */
+  private async reportFailure(error: unknown): Promise<NetworkError> {
+    const failure = error instanceof NetworkError ? error : NetworkError.unauthorized().withDetails({ cause: error });
+    if (this.reportedError !== error) {
+      this.reportedError = error;
+      await this.options.onAuthFailure?.(failure);
+    }
+    return failure;
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const stored = this.options.storage ? await this.options.storage.getItem(this.storageKey) : null;
+        if (stored && !this.tokens) {
+          try {
+            this.tokens = JSON.parse(stored) as TokenSet;
+          } catch (e) {
+            // Ignore unreadable storage and start signed out
+          }
+        }
+      })();
+    }
+    return this.loaded;
+  }
+}
+
+/**
+ * Decode the payload of a JWT without verifying its signature
+ * @param token The JWT
+ * @returns The claims, or undefined if the token is not a JWT
+ */
+export function decodeJwt(token: string): Record<string, any> | undefined {
+  const parts = token.replace(/^Bearer /, '').split('.');
+  if (parts.length !== 3) {
+    return undefined;
+  }
+  try {
+    const claims = JSON.parse(utf8Decode(base64Decode(parts[1])));
+    return typeof claims === 'object' && claims !== null ? claims : undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Read the expiry of a JWT
+ * @param token The JWT
+ * @returns The exp claim in ms since the epoch, or undefined if there is none
+ */
+export function jwtExpiry(token: string): number | undefined {
+  const exp = decodeJwt(token)?.exp;
+  return typeof exp === 'number' ? exp * 1000 : undefined;
+}
@@ -1,118 +1,637 @@
-import { HTTPMethod, NetworkError } from '../types';
-import { NetworkRequestable, RequestOptions } from './NetworkRequestable';
+import { HTTPMethod, NetworkError, NetworkErrorRequest, ProblemDetails, REDACTED_HEADERS, redactHeaders } from '../types';
+import {
+  AbortSignalPolyfill,
+  NetworkRequestable,
+  NetworkResponse,
+  RedirectPolicy,
+  RequestConfig,
+  RequestOptions,
+  headersToRecord,
+  resolveRequestConfig,
+  throwIfCancelled,
+  throwIfDeadlineExceeded
+} from './NetworkRequestable';
+import {
+  InterceptedRequest,
+  InterceptorChain,
+  RequestInterceptor,
+  ResponseInterceptor,
+  isResponse
+} from './Interceptors';
+import { expandPath } from './PathTemplate';
+import { isAbsoluteURL, isSameOrigin, resolveURL } from './URL';
+import { QuerySerializerOptions, appendQuery } from './QueryString';
+import {
+  BodySerializer,
+  DEFAULT_SERIALIZERS,
+  RequestBody,
+  SerializerRegistry,
+  isNativeBody,
+  mediaTypeOf
+} from './Serializers';
+import { DEFAULT_PARSERS, ParserRegistry, ResponseFormat, ResponseParser } from './Parsers';
+import { ResponseType, decodeResponse } from './ResponseDecoder';
+import { PreparedRequest, Transport } from './Transport';
+import { RequestTimer } from './RequestTimer';
+import { CookieJar, getSetCookies } from './CookieJar';
+import { BaseURLProvider, singleBaseURL } from './Environments';
+import { FetchTransport } from '../transports/FetchTransport';
+import { XHRTransport } from '../transports/XHRTransport';
+
+/**
+ * Additional BaseNetworkRequestable settings
+ */
+export interface BaseNetworkRequestableOptions {
+  /** Default query string serialization options */
+  query?: Partial<QuerySerializerOptions>;
+  /** Additional request body serializers, e.g. for protobuf or msgpack */
+  serializers?: BodySerializer[];
+  /** Additional response parsers, e.g. for XML or CSV */
+  parsers?: ResponseParser[];
+  /** Default response format (default: 'auto') */
+  responseFormat?: ResponseFormat;
+  /** Sends the requests (default: FetchTransport) */
+  transport?: Transport;
+  /**
+   * Sends requests with onUploadProgress if the transport cannot report upload
+   * progress (default: an XHRTransport where XMLHttpRequest exists)
+   */
+  uploadTransport?: Transport;
+  /** Default time allowed without progress (response headers or body bytes), in milliseconds */
+  idleTimeout?: number;
+  /** Default redirect policy (default: follow) */
+  redirect?: RedirectPolicy;
+  /** Default for the most redirects followed (default: 20) */
+  maxRedirects?: number;
+  /** Stores cookies from responses and sends them with matching requests */
+  cookieJar?: CookieJar;
+}
+
+// Statuses whose Location header points to the resource
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+/**
+ * Default for the most redirects followed per request, as in browsers
+ */
+export const DEFAULT_MAX_REDIRECTS = 20;
 
 /**
  * The fundamental implementation of NetworkRequestable
  */
 export class BaseNetworkRequestable implements NetworkRequestable {
-  private baseURL: string;
+  private baseURLs: BaseURLProvider;
   private defaultHeaders: Record<string, string>;
   private timeoutMs: number;
+  private options: BaseNetworkRequestableOptions;
+  private requestInterceptors = new InterceptorChain<RequestInterceptor>();
+  private responseInterceptors = new InterceptorChain<ResponseInterceptor>();
+  private serializers: SerializerRegistry;
+  private parsers: ParserRegistry;
+  private transport: Transport;
 
   /**
    * Create a new BaseNetworkRequestable
-   * @param baseURL The base URL for all requests
+   * @param baseURL The base URL for all requests, or an EnvironmentRegistry with the base URLs of several services
    * @param defaultHeaders Default headers to include in all requests
    * @param timeoutMs Request timeout in milliseconds (default: 30000)
+   * @param options Additional settings, such as the transport, query string serialization, body serializers and response parsers
    */
   constructor(
-    baseURL: string,
+    baseURL: string | BaseURLProvider,
     defaultHeaders: Record<string, string> = {},
-    timeoutMs: number = 30000
+    timeoutMs: number = 30000,
+    options: BaseNetworkRequestableOptions = {}
   ) {
-    // Ensure baseURL doesn't end with a slash
-    this.baseURL = baseURL.endsWith('/') ? baseURL.slice(0, -1) : baseURL;
+    this.baseURLs = typeof baseURL === 'string' ? singleBaseURL(baseURL) : baseURL;
+    // Let a Content-Type in any letter case replace the JSON default
+    const hasContentType = findHeader(defaultHeaders, 'content-type') !== undefined;
     this.defaultHeaders = {
-      'Content-Type': 'application/json',
+      ...(hasContentType ? {} : { 'Content-Type': 'application/json' }),
       'Accept': 'application/json',
       ...defaultHeaders
     };
     this.timeoutMs = timeoutMs;
+    this.options = options;
+    this.serializers = new SerializerRegistry([...DEFAULT_SERIALIZERS, ...(options.serializers ?? [])]);
+    this.parsers = new ParserRegistry([...DEFAULT_PARSERS, ...(options.parsers ?? [])]);
+    this.transport = options.transport ?? new FetchTransport();
+  }
+
+  /**
+   * Register a request body serializer, replacing any serializer for the same content type
+   * @param serializer The serializer to register
+   */
+  registerSerializer(serializer: BodySerializer): void {
+    this.serializers.register(serializer);
+  }
+
+  /**
+   * Register a response parser, replacing any parser with the same format name
+   * @param parser The parser to register
+   */
+  registerParser(parser: ResponseParser): void {
+    this.parsers.register(parser);
+  }
+
+  /**
+   * Register an interceptor that can rewrite the URL, headers and body before fetch
+   * @param interceptor The request interceptor
+   * @returns A function that removes the interceptor
+   */
+  addRequestInterceptor(interceptor: RequestInterceptor): () => void {
+    return this.requestInterceptors.use(interceptor);
+  }
+
+  /**
+   * Register an interceptor that can inspect or replace the raw Response before parsing
+   * @param interceptor The response interceptor
+   * @returns A function that removes the interceptor
+   */
+  addResponseInterceptor(interceptor: ResponseInterceptor): () => void {
+    return this.responseInterceptors.use(interceptor);
   }
 
   /**
    * Make a network request
    * @param endpoint The API endpoint
-   * @param method The HTTP method
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
    * @param body Optional request body
-   * @param responseType The expected response type (not used in JS/TS implementation but kept for API consistency)
+   * @param responseType The expected response type, used to validate and decode the parsed body
    * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
    * @returns A promise that resolves to the response data
    */
   async request<T>(
     endpoint: string,
-    method: HTTPMethod,
-    body?: Record<string, any>,
-    responseType?: new () => T,
-    headers: Record<string, string> = {}
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
   ): Promise<T> {
-    // Ensure endpoint starts with a slash
-    const normalizedEndpoint = endpoint.startsWith('/') ? endpoint : `/${endpoint}`;
-    const url = `${this.baseURL}${normalizedEndpoint}`;
-    
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    const response = await this.requestRaw<T>(endpoint, config);
+    return response.data;
+  }
+
+  /**
+   * Make a network request and resolve with the full response envelope
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type, used to validate and decode the parsed body
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the status, headers, data, URL and duration
+   */
+  async requestRaw<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<NetworkResponse<T>> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    const startTime = Date.now();
+    let requestInfo: NetworkErrorRequest | undefined;
+    let timer: RequestTimer | undefined;
+
     try {
-      // Create abort controller for timeout
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
-      
-      // Create request options
-      const options: RequestInit = {
-        method,
-        headers: { ...this.defaultHeaders, ...headers },
-        signal: controller.signal as AbortSignal
+      // Expand the endpoint template; absolute URLs bypass the base URL
+      const path = expandPath(endpoint, config.params);
+      const normalizedPath = path.startsWith('/') ? path : `/${path}`;
+      const target = isAbsoluteURL(path) ? path : `${this.resolveBaseURL(config.service)}${normalizedPath}`;
+      const url = appendQuery(target, config.query, {
+        ...this.options.query,
+        ...config.queryOptions
+      });
+
+      // Let request interceptors rewrite the request or short-circuit it
+      let intercepted: InterceptedRequest = {
+        url,
+        method: config.method,
+        headers: mergeHeaders(this.defaultHeaders, config.headers),
+        body: config.body,
+        route: endpoint
       };
-      
-      // Add body if provided
-      if (body && (method !== HTTPMethod.GET && method !== HTTPMethod.HEAD)) {
-        options.body = JSON.stringify(body);
+      let response: Response | undefined;
+      for (const interceptor of this.requestInterceptors.list()) {
+        const result = await interceptor(intercepted);
+        if (isResponse(result)) {
+          response = result;
+          break;
+        }
+        if (result) {
+          intercepted = result;
+        }
+      }
+
+      requestInfo = {
+        method: intercepted.method,
+        url: intercepted.url,
+        headers: redactHeaders(intercepted.headers)
+      };
+
+      // Time the attempt until the body has been read, within the request deadline
+      throwIfDeadlineExceeded(config);
+      timer = new RequestTimer(
+        {
+          timeout: config.timeout ?? this.timeoutMs,
+          idleTimeout: config.idleTimeout ?? this.options.idleTimeout,
+          deadline: config.deadline
+        },
+        config.signal
+      );
+
+      let finalURL: string | undefined;
+      let redirects: string[] = [];
+      if (!response) {
+        throwIfCancelled(config.signal);
+        ({ response, url: finalURL, redirects } = await this.sendFollowingRedirects(intercepted, config, timer));
+        timer.touch();
+      }
+
+      // Let response interceptors inspect or replace the raw response
+      for (const interceptor of this.responseInterceptors.list()) {
+        response = (await interceptor(response, intercepted)) || response;
       }
       
-      // Make the request
-      const response = await fetch(url, options);
-      
-      // Clear timeout
-      clearTimeout(timeoutId);
-      
-      // Handle HTTP errors
+      // A redirect the caller chose not to follow resolves with the 3xx response and no data
+      if (isRedirect(response)) {
+        return {
+          status: response.status,
+          headers: headersToRecord(response.headers),
+          data: undefined as T,
+          url: finalURL ?? (response.url || intercepted.url),
+          duration: Date.now() - startTime,
+          redirects
+        };
+      }
+
+      // Handle HTTP errors, keeping the error body and headers
       if (!response.ok) {
-        if (response.status === 401) {
-          throw NetworkError.unauthorized();
-        }
-        throw NetworkError.httpError(response.status);
+        const error = response.status === 401 ? NetworkError.unauthorized() : NetworkError.httpError(response.status);
+        throw error.withDetails(await timer.guard(this.errorDetails(response, intercepted.method)));
       }
       
       // Parse response
-      const contentType = response.headers.get('content-type');
-      if (contentType && contentType.includes('application/json')) {
-        const data = await response.json();
-        return data as T;
-      } else {
-        const text = await response.text();
-        if (!text) {
-          throw NetworkError.noData();
-        }
-        
-        // Try to parse as JSON anyway if we expected a JSON response
-        try {
-          return JSON.parse(text) as T;
-        } catch (e) {
-          // Return text as is if it's not JSON
-          return text as unknown as T;
-        }
-      }
+      const parsed = await timer.guard(
+        this.parse<unknown>(response, intercepted.method, config.responseFormat ?? this.options.responseFormat ?? 'auto')
+      );
+
+      // Validate the body against the response type; bodiless responses are not decoded
+      const data = parsed === undefined ? (parsed as T) : decodeResponse<T>(parsed, config.responseType);
+      return {
+        status: response.status,
+        headers: headersToRecord(response.headers),
+        data,
+        url: finalURL ?? (response.url || intercepted.url),
+        duration: Date.now() - startTime,
+        redirects
+      };
     } catch (error) {
-      // Handle aborted requests (timeout)
+      // Handle aborted requests: cancelled by the caller, otherwise timed out
       if (error instanceof Error && error.name === 'AbortError') {
-        throw NetworkError.timeout();
+        const aborted = timer
+          ? timer.abortReason()
+          : config.signal && config.signal.aborted ? NetworkError.cancelled() : NetworkError.timeout();
+        throw aborted.withDetails({ request: requestInfo, cause: error });
       }
       
-      // Re-throw NetworkError instances
+      // Re-throw NetworkError instances, adding the request if it is missing
       if (error instanceof NetworkError) {
-        throw error;
+        throw error.request ? error : error.withDetails({ request: requestInfo });
       }
       
       // Handle other errors
-      throw NetworkError.custom((error as Error).message);
+      throw NetworkError.custom((error as Error).message).withDetails({ request: requestInfo, cause: error });
+    } finally {
+      timer?.dispose();
+    }
+  }
+
+  /**
+   * Get the base URL of a service, without a trailing slash
+   */
+  private resolveBaseURL(service?: string): string {
+    const baseURL = this.baseURLs.baseURL(service);
+    return baseURL.endsWith('/') ? baseURL.slice(0, -1) : baseURL;
+  }
+
+  /**
+   * Read the headers and body of an error response. The body is parsed like a
+   * successful response, and application/problem+json bodies are also exposed
+   * as RFC 7807 problem details. Empty and unreadable bodies are ignored, and
+   * sensitive response headers such as Set-Cookie are redacted.
+   */
+  private async errorDetails(
+    response: Response,
+    method: HTTPMethod
+  ): Promise<{ responseHeaders: Record<string, string>; body?: unknown; problem?: ProblemDetails }> {
+    let body: unknown;
+    try {
+      const parsed = await this.parse<unknown>(response, method, 'auto');
+      body = parsed === '' ? undefined : parsed;
+    } catch (e) {
+      body = undefined;
+    }
+
+    const contentType = response.headers.get('content-type');
+    const isProblem = !!contentType && mediaTypeOf(contentType) === 'application/problem+json';
+    return {
+      responseHeaders: redactHeaders(headersToRecord(response.headers)),
+      body,
+      problem: isProblem && typeof body === 'object' && body !== null ? (body as ProblemDetails) : undefined
+    };
+  }
+
+  /**
+   * Parse the response body with the parser for the requested format. In 'auto'
+   * mode the parser is picked by Content-Type; without a matching parser the
+   * body is parsed as JSON when possible and returned as text otherwise.
+   * 204, 205 and HEAD responses have no body and resolve with undefined.
+   */
+  private async parse<T>(response: Response, method: HTTPMethod, format: ResponseFormat): Promise<T> {
+    if (response.status === 204 || response.status === 205 || method === HTTPMethod.HEAD) {
+      return undefined as unknown as T;
+    }
+
+    if (format !== 'auto') {
+      const parser = this.parsers.get(format);
+      if (!parser) {
+        throw NetworkError.custom(`No parser registered for response format ${format}`);
+      }
+      return (await parser.parse(response)) as T;
+    }
+
+    const contentType = response.headers.get('content-type');
+    const parser = contentType ? this.parsers.forContentType(contentType) : undefined;
+    if (parser) {
+      return (await parser.parse(response)) as T;
     }
+
+    const text = await response.text();
+    if (!text) {
+      throw NetworkError.noData();
+    }
+    
+    // Try to parse as JSON anyway if we expected a JSON response
+    try {
+      return JSON.parse(text) as T;
+    } catch (e) {
+      // Return text as is if it's not JSON
+      return text as unknown as T;
+    }
+  }
+
+  /**
+   * Serialize a request body and set the matching Content-Type header.
+   * A Content-Type that differs from the client default picks the serializer;
+   * otherwise native bodies (strings, binary data, FormData, URLSearchParams)
+   * are matched by type and objects use the client default Content-Type.
+   */
+  private serialize(
+    body: RequestBody,
+    headers: Record<string, string>
+  ): { body: BodyInit; headers: Record<string, string> } {
+    const headerName = findHeader(headers, 'content-type');
+    const declared = headerName !== undefined ? headers[headerName] : undefined;
+    const defaultName = findHeader(this.defaultHeaders, 'content-type');
+    const explicit = declared !== undefined && (defaultName === undefined || declared !== this.defaultHeaders[defaultName]);
+
+    const declaredSerializer = declared !== undefined ? this.serializers.get(declared) : undefined;
+    const serializer =
+      declaredSerializer && (explicit || !isNativeBody(body)) ? declaredSerializer : this.serializers.find(body);
+    if (!serializer || (explicit && !declaredSerializer)) {
+      // Native bodies can be sent as they are, with whatever Content-Type was declared
+      if (isNativeBody(body)) {
+        return { body: body as BodyInit, headers };
+      }
+      throw NetworkError.custom(`No serializer registered for Content-Type ${declared}`);
+    }
+
+    // Keep an explicit Content-Type (it may carry parameters such as charset)
+    const result = { ...headers };
+    const keepDeclared = explicit && serializer === declaredSerializer;
+    if (headerName !== undefined && !keepDeclared) {
+      delete result[headerName];
+    }
+    if (mediaTypeOf(serializer.contentType) === 'multipart/form-data') {
+      // fetch sets the Content-Type itself, including the boundary
+      if (headerName !== undefined) {
+        delete result[headerName];
+      }
+    } else if (!keepDeclared) {
+      result[headerName ?? 'Content-Type'] = isBlob(body) && body.type ? body.type : serializer.contentType;
+    }
+
+    return { body: serializer.serialize(body), headers: result };
+  }
+
+  /**
+   * Send the request and apply the redirect policy. Redirects are followed
+   * here rather than by the transport, so sensitive headers (REDACTED_HEADERS)
+   * are dropped on cross-origin hops and every hop is recorded. Transports
+   * that cannot expose the Location of a manual redirect (XHRTransport, fetch
+   * in browsers) follow redirects themselves and only reveal the final URL.
+   * A request is never sent twice, so an opaque redirect is not retried.
+   * @returns The final response, its URL and the URLs that redirected
+   */
+  private async sendFollowingRedirects(
+    request: InterceptedRequest,
+    config: RequestConfig,
+    timer: RequestTimer
+  ): Promise<{ response: Response; url: string; redirects: string[] }> {
+    const policy = config.redirect ?? this.options.redirect ?? 'follow';
+    const maxRedirects = config.maxRedirects ?? this.options.maxRedirects ?? DEFAULT_MAX_REDIRECTS;
+    const redirects: string[] = [];
+    const transport = this.transportFor(config);
+    const mode = policy === 'follow' && transport.manualRedirects === false ? 'follow' : 'manual';
+    let current = request;
+
+    for (;;) {
+      const cookieJar = this.options.cookieJar;
+      const sending = cookieJar ? await this.addCookies(current, cookieJar) : current;
+      const response = await this.send(transport, sending, config, timer, mode);
+      if (cookieJar) {
+        await cookieJar.setCookies(getSetCookies(response.headers), response.url || current.url);
+      }
+
+      // The Location is hidden, so the redirect can only be returned as is
+      if (response.type === 'opaqueredirect') {
+        if (policy === 'manual') {
+          return { response, url: current.url, redirects };
+        }
+        throw NetworkError.redirectError(
+          `cannot follow a redirect from ${current.url}: the transport does not expose its Location`,
+          response.status
+        );
+      }
+
+      const location = response.headers.get('location');
+      if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+        if (response.redirected || (response.url && response.url !== current.url)) {
+          redirects.push(current.url);
+          if (policy === 'error') {
+            throw NetworkError.redirectError(`redirected to ${response.url}`, response.status);
+          }
+        }
+        return { response, url: response.url || current.url, redirects };
+      }
+
+      if (policy === 'manual') {
+        return { response, url: current.url, redirects };
+      }
+      if (policy === 'error') {
+        throw NetworkError.redirectError(`${response.status} redirect to ${location} is not allowed`, response.status);
+      }
+      if (redirects.length >= maxRedirects) {
+        throw NetworkError.redirectError(`more than ${maxRedirects} redirects`, response.status);
+      }
+
+      redirects.push(current.url);
+      current = redirectRequest(current, response.status, resolveURL(location, current.url));
+    }
+  }
+
+  /**
+   * Add the cookie jar's cookies for the request URL to the Cookie header
+   */
+  private async addCookies(request: InterceptedRequest, cookieJar: CookieJar): Promise<InterceptedRequest> {
+    const cookies = await cookieJar.getCookieHeader(request.url);
+    if (!cookies) {
+      return request;
+    }
+    const existing = findHeader(request.headers, 'cookie');
+    const headers = { ...request.headers };
+    if (existing !== undefined) {
+      headers[existing] = `${headers[existing]}; ${cookies}`;
+    } else {
+      headers['Cookie'] = cookies;
+    }
+    return { ...request, headers };
   }
+
+  /**
+   * Get the transport for a request: one that reports upload progress if the request asks for it
+   */
+  private transportFor(config: RequestConfig): Transport {
+    if (!config.onUploadProgress || this.transport.uploadProgress !== false) {
+      return this.transport;
+    }
+    if (this.options.uploadTransport) {
+      return this.options.uploadTransport;
+    }
+    if (typeof XMLHttpRequest === 'undefined') {
+      throw NetworkError.custom('onUploadProgress needs a transport that reports upload progress, such as XHRTransport');
+    }
+    return new XHRTransport();
+  }
+
+  /**
+   * Serialize the intercepted request and send it with the transport, aborted
+   * by the attempt's timer
+   */
+  private async send(
+    transport: Transport,
+    request: InterceptedRequest,
+    config: RequestConfig,
+    timer: RequestTimer,
+    redirect: 'follow' | 'manual'
+  ): Promise<Response> {
+    // Serialize the body if provided
+    let headers = request.headers;
+    let body: BodyInit | undefined;
+    if (request.body && (request.method !== HTTPMethod.GET && request.method !== HTTPMethod.HEAD)) {
+      const serialized = this.serialize(request.body, request.headers);
+      body = serialized.body;
+      headers = serialized.headers;
+    }
+    
+    // Let the request's hook see the final URL, headers and body, e.g. to sign them
+    let prepared: PreparedRequest = { url: request.url, method: request.method, headers, body };
+    if (config.beforeSend) {
+      prepared = await timer.guard(Promise.resolve(config.beforeSend(prepared)));
+    }
+
+    // Make the request; the timer aborts it on timeout or caller cancellation
+    try {
+      return await transport.send({
+        ...prepared,
+        signal: timer.signal,
+        redirect,
+        onUploadProgress: timer.track(config.onUploadProgress),
+        onDownloadProgress: timer.track(config.onDownloadProgress)
+      });
+    } catch (error) {
+      // Aborts are reported by the caller; any other rejection means the connection failed
+      if (error instanceof NetworkError || (error instanceof Error && error.name === 'AbortError')) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : String(error);
+      throw NetworkError.networkFailure(message).withDetails({ cause: error });
+    }
+  }
+}
+
+/**
+ * Check whether a response is a redirect that was not followed
+ */
+function isRedirect(response: Response): boolean {
+  return response.type === 'opaqueredirect' ||
+    (REDIRECT_STATUSES.includes(response.status) && !!response.headers.get('location'));
+}
+
+/**
+ * Build the request for the next redirect hop. 303, and 301/302 after a POST,
+ * switch to GET without a body; sensitive headers never go to another origin.
+ */
+function redirectRequest(request: InterceptedRequest, status: number, url: string): InterceptedRequest {
+  const toGet = (status === 303 && request.method !== HTTPMethod.HEAD) ||
+    ((status === 301 || status === 302) && request.method === HTTPMethod.POST);
+  const dropped = [
+    ...(toGet ? ['content-type', 'content-length'] : []),
+    ...(isSameOrigin(request.url, url) ? [] : REDACTED_HEADERS)
+  ];
+  const headers: Record<string, string> = {};
+  Object.keys(request.headers)
+    .filter(name => !dropped.includes(name.toLowerCase()))
+    .forEach(name => {
+      headers[name] = request.headers[name];
+    });
+
+  return {
+    ...request,
+    url,
+    method: toGet ? HTTPMethod.GET : request.method,
+    headers,
+    body: toGet ? undefined : request.body
+  };
+}
+
+/**
+ * Merge request headers over default headers, replacing defaults whose names differ only in letter case
+ */
+function mergeHeaders(defaults: Record<string, string>, overrides: Record<string, string>): Record<string, string> {
+  const merged = { ...defaults };
+  Object.keys(overrides).forEach(name => {
+    const existing = findHeader(merged, name.toLowerCase());
+    if (existing !== undefined) {
+      delete merged[existing];
+    }
+    merged[name] = overrides[name];
+  });
+  return merged;
+}
+
+/**
+ * Find the name of a header regardless of its letter case
+ */
+function findHeader(headers: Record<string, string>, name: string): string | undefined {
+  return Object.keys(headers).find(key => key.toLowerCase() === name);
+}
+
+function isBlob(body: unknown): body is Blob {
+  return typeof Blob !== 'undefined' && body instanceof Blob;
 }
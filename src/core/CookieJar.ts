@@ -0,0 +1,345 @@
+/**
+ * A stored cookie
+ */
+export interface Cookie {
+  name: string;
+  value: string;
+  /** Lower-case host the cookie belongs to */
+  domain: string;
+  path: string;
+  /** Expiry time in ms since the epoch; session cookies have none */
+  expires?: number;
+  /** Only sent over https */
+  secure: boolean;
+  httpOnly: boolean;
+  sameSite?: string;
+  /** Only sent to the exact domain, not its subdomains (no Domain attribute) */
+  hostOnly: boolean;
+  /** When the cookie was first stored, in ms since the epoch */
+  created: number;
+}
+
+/**
+ * Key-value storage for persisting cookies. AsyncStorage satisfies this
+ * interface, so sessions survive an app restart.
+ */
+export interface CookieStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * CookieJar settings
+ */
+export interface CookieJarOptions {
+  /** Persists the cookies (default: none, cookies live in memory) */
+  storage?: CookieStorage;
+  /** Key the cookies are stored under (default: 'react-native-advanced-network/cookies') */
+  storageKey?: string;
+  /** Also persist session cookies, which have no expiry (default: false) */
+  persistSessionCookies?: boolean;
+}
+
+/**
+ * Stores cookies from Set-Cookie response headers and picks the cookies to
+ * send with a request, following the domain, path, expiry and secure rules of
+ * RFC 6265. Pass it to BaseNetworkRequestable with the cookieJar option.
+ */
+export class CookieJar {
+  private cookies: Cookie[] = [];
+  private storage?: CookieStorage;
+  private storageKey: string;
+  private persistSessionCookies: boolean;
+  private loaded?: Promise<void>;
+
+  /**
+   * Create a new CookieJar
+   * @param options Persistence settings
+   */
+  constructor(options: CookieJarOptions = {}) {
+    this.storage = options.storage;
+    this.storageKey = options.storageKey ?? 'react-native-advanced-network/cookies';
+    this.persistSessionCookies = options.persistSessionCookies ?? false;
+  }
+
+  /**
+   * Store the cookies of Set-Cookie headers
+   * @param setCookies The Set-Cookie header values
+   * @param url The URL of the response
+   */
+  async setCookies(setCookies: string[], url: string): Promise<void> {
+    await this.load();
+    const target = parseURL(url);
+    if (!target || setCookies.length === 0) {
+      return;
+    }
+
+    const now = Date.now();
+    setCookies.forEach(header => {
+      const cookie = parseSetCookie(header, target, now);
+      if (!cookie) {
+        return;
+      }
+      const index = this.cookies.findIndex(existing => sameCookie(existing, cookie));
+      // An expiry in the past deletes the cookie
+      const expired = cookie.expires !== undefined && cookie.expires <= now;
+      if (index >= 0) {
+        // A replaced cookie keeps its place and creation time
+        cookie.created = this.cookies[index].created;
+        if (expired) {
+          this.cookies.splice(index, 1);
+        } else {
+          this.cookies[index] = cookie;
+        }
+      } else if (!expired) {
+        this.cookies.push(cookie);
+      }
+    });
+    await this.save();
+  }
+
+  /**
+   * Build the Cookie header for a request
+   * @param url The request URL
+   * @returns The header value, or undefined if no cookies match
+   */
+  async getCookieHeader(url: string): Promise<string | undefined> {
+    const cookies = await this.getCookies(url);
+    return cookies.length > 0 ? cookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') : undefined;
+  }
+
+  /**
+   * Get the stored cookies that have not expired
+   * @param url Only return the cookies that would be sent to this URL
+   * @returns The cookies, longest path first
+   */
+  async getCookies(url?: string): Promise<Cookie[]> {
+    await this.load();
+    this.removeExpired();
+    if (url === undefined) {
+      return [...this.cookies];
+    }
+
+    const target = parseURL(url);
+    if (!target) {
+      return [];
+    }
+    return this.cookies
+      .filter(cookie =>
+        (cookie.hostOnly ? target.host === cookie.domain : domainMatches(target.host, cookie.domain)) &&
+        pathMatches(target.path, cookie.path) &&
+        (!cookie.secure || target.secure)
+      )
+      .sort((a, b) => b.path.length - a.path.length || a.created - b.created);
+  }
+
+  /**
+   * Remove cookies by name
+   * @param name The cookie name
+   * @param domain Only remove the cookie for this domain
+   * @param path Only remove the cookie for this path
+   */
+  async removeCookie(name: string, domain?: string, path?: string): Promise<void> {
+    await this.load();
+    this.cookies = this.cookies.filter(cookie =>
+      cookie.name !== name ||
+      (domain !== undefined && cookie.domain !== domain.toLowerCase().replace(/^\./, '')) ||
+      (path !== undefined && cookie.path !== path)
+    );
+    await this.save();
+  }
+
+  /**
+   * Remove all cookies, e.g. on logout
+   */
+  async clear(): Promise<void> {
+    await this.load();
+    this.cookies = [];
+    await this.save();
+  }
+
+  private load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = (async () => {
+        const stored = this.storage ? await this.storage.getItem(this.storageKey) : null;
+        if (stored) {
+          try {
+            // Cookies set before loading finished take precedence
+            const restored = (JSON.parse(stored) as Cookie[]).filter(
+              cookie => !this.cookies.some(existing => sameCookie(existing, cookie))
+            );
+            this.cookies = [...restored, ...this.cookies];
+          } catch (e) {
+            // Ignore unreadable storage and start over
+          }
+        }
+      })();
+    }
+    return this.loaded;
+  }
+
+  private async save(): Promise<void> {
+    if (!this.storage) {
+      return;
+    }
+    this.removeExpired();
+    const persisted = this.cookies.filter(cookie => this.persistSessionCookies || cookie.expires !== undefined);
+    await this.storage.setItem(this.storageKey, JSON.stringify(persisted));
+  }
+
+  private removeExpired(): void {
+    const now = Date.now();
+    this.cookies = this.cookies.filter(cookie => cookie.expires === undefined || cookie.expires > now);
+  }
+}
+
+/**
+ * Read the Set-Cookie headers of a response. Where Headers cannot return them
+ * separately, the combined value is split at commas that start a new cookie.
+ */
+export function getSetCookies(headers: Headers): string[] {
+  const withGetter = headers as Headers & { getSetCookie?: () => string[] };
+  if (typeof withGetter.getSetCookie === 'function') {
+    return withGetter.getSetCookie();
+  }
+  const combined = headers.get('set-cookie');
+  return combined ? combined.split(/,(?=\s*[^;,=\s]+=)/).map(value => value.trim()) : [];
+}
+
+/**
+ * Parse a Set-Cookie header value
+ * @param header The header value
+ * @param target The response URL
+ * @param now The current time in ms since the epoch
+ * @returns The cookie, or undefined if it is malformed or not allowed for the URL
+ */
+function parseSetCookie(header: string, target: ParsedURL, now: number): Cookie | undefined {
+  const [pair, ...attributes] = header.split(';');
+  const separator = pair.indexOf('=');
+  if (separator <= 0) {
+    return undefined;
+  }
+
+  const cookie: Cookie = {
+    name: pair.slice(0, separator).trim(),
+    value: pair.slice(separator + 1).trim(),
+    domain: target.host,
+    path: defaultPath(target.path),
+    secure: false,
+    httpOnly: false,
+    hostOnly: true,
+    created: now
+  };
+  let maxAge: number | undefined;
+
+  for (const attribute of attributes) {
+    const index = attribute.indexOf('=');
+    const key = (index >= 0 ? attribute.slice(0, index) : attribute).trim().toLowerCase();
+    const value = index >= 0 ? attribute.slice(index + 1).trim() : '';
+    switch (key) {
+      case 'domain': {
+        const domain = value.replace(/^\./, '').toLowerCase();
+        // A cookie may only be set for the response host or a parent domain
+        if (!domain || !domainMatches(target.host, domain)) {
+          return undefined;
+        }
+        // Never share a cookie across a public suffix; a host that is one keeps it host-only
+        if (isPublicSuffix(domain)) {
+          if (domain !== target.host) {
+            return undefined;
+          }
+          break;
+        }
+        cookie.domain = domain;
+        cookie.hostOnly = false;
+        break;
+      }
+      case 'path':
+        cookie.path = value.startsWith('/') ? value : defaultPath(target.path);
+        break;
+      case 'expires': {
+        const time = Date.parse(value);
+        if (!isNaN(time)) {
+          cookie.expires = time;
+        }
+        break;
+      }
+      case 'max-age':
+        if (/^-?\d+$/.test(value)) {
+          maxAge = Number(value);
+        }
+        break;
+      case 'secure':
+        cookie.secure = true;
+        break;
+      case 'httponly':
+        cookie.httpOnly = true;
+        break;
+      case 'samesite':
+        cookie.sameSite = value;
+        break;
+    }
+  }
+
+  // Max-Age takes precedence over Expires
+  if (maxAge !== undefined) {
+    cookie.expires = maxAge <= 0 ? 0 : now + maxAge * 1000;
+  }
+  // Only secure origins may set secure cookies
+  if (cookie.secure && !target.secure) {
+    return undefined;
+  }
+  return cookie;
+}
+
+interface ParsedURL {
+  host: string;
+  path: string;
+  secure: boolean;
+}
+
+function parseURL(url: string): ParsedURL | undefined {
+  const match = url.match(/^([A-Za-z][A-Za-z0-9+.-]*):\/\/(?:[^@/?#]*@)?(\[[^\]]*\]|[^:/?#]*)(?::\d+)?([^?#]*)/);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    host: match[2].toLowerCase(),
+    path: match[3] || '/',
+    secure: match[1].toLowerCase() === 'https'
+  };
+}
+
+function defaultPath(path: string): string {
+  const lastSlash = path.lastIndexOf('/');
+  return lastSlash <= 0 ? '/' : path.slice(0, lastSlash);
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host === domain || (host.endsWith(`.${domain}`) && !/^[\d.]+$/.test(host));
+}
+
+// Registry labels used under country code top-level domains (co.uk, com.au, ne.jp, ...)
+const PUBLIC_SECOND_LEVEL = /^(?:ac|co|com|edu|go|gov|ltd|me|ne|net|or|org|plc|sch)\.[a-z]{2}$/;
+
+/**
+ * Check whether a domain is a public suffix, under which unrelated sites are
+ * registered: a single label such as com, or a registry label under a
+ * country code such as co.uk or com.au
+ */
+function isPublicSuffix(domain: string): boolean {
+  return !domain.includes('.') || PUBLIC_SECOND_LEVEL.test(domain);
+}
+
+function pathMatches(requestPath: string, cookiePath: string): boolean {
+  if (requestPath === cookiePath) {
+    return true;
+  }
+  return requestPath.startsWith(cookiePath) &&
+    (cookiePath.endsWith('/') || requestPath.charAt(cookiePath.length) === '/');
+}
+
+function sameCookie(a: Cookie, b: Cookie): boolean {
+  return a.name === b.name && a.domain === b.domain && a.path === b.path;
+}
@@ -0,0 +1,153 @@
+import { NetworkError } from '../types';
+
+/**
+ * Base URLs of the services in an environment, by service name
+ */
+export type ServiceURLs = Record<string, string>;
+
+/**
+ * Resolves the base URL a request is sent to
+ */
+export interface BaseURLProvider {
+  /**
+   * Get the base URL of a service
+   * @param service The service named by the request, if any
+   * @returns The base URL
+   */
+  baseURL(service?: string): string;
+}
+
+/**
+ * Called after the active environment changes
+ */
+export type EnvironmentListener = (environment: string, previous: string) => void;
+
+/**
+ * EnvironmentRegistry settings
+ */
+export interface EnvironmentRegistryOptions {
+  /** Service used by requests that do not name one (default: 'api') */
+  defaultService?: string;
+}
+
+/**
+ * Default name of the service used by requests that do not name one
+ */
+export const DEFAULT_SERVICE = 'api';
+
+/**
+ * Named environments (e.g. dev, staging, prod), each with the base URLs of
+ * several services. Pass it to BaseNetworkRequestable in place of a base URL;
+ * requests pick a service with the service option and go to its base URL in
+ * the active environment, which can be switched at runtime.
+ */
+export class EnvironmentRegistry implements BaseURLProvider {
+  private environments: Record<string, ServiceURLs>;
+  private active: string;
+  private defaultService: string;
+  private listeners: EnvironmentListener[] = [];
+
+  /**
+   * Create a new EnvironmentRegistry
+   * @param environments The services of each environment, by environment name
+   * @param active The name of the environment to start in
+   * @param options Additional settings
+   */
+  constructor(environments: Record<string, ServiceURLs>, active: string, options: EnvironmentRegistryOptions = {}) {
+    this.environments = { ...environments };
+    this.defaultService = options.defaultService ?? DEFAULT_SERVICE;
+    this.active = this.checkEnvironment(active);
+  }
+
+  /**
+   * Get the name of the active environment
+   */
+  getEnvironment(): string {
+    return this.active;
+  }
+
+  /**
+   * Get the names of all environments
+   */
+  getEnvironments(): string[] {
+    return Object.keys(this.environments);
+  }
+
+  /**
+   * Get the services of an environment
+   * @param environment The environment name (default: the active environment)
+   * @returns A copy of the service base URLs, or undefined for an unknown environment
+   */
+  getServices(environment: string = this.active): ServiceURLs | undefined {
+    const services = this.environments[environment];
+    return services ? { ...services } : undefined;
+  }
+
+  /**
+   * Add an environment, or replace the services of an existing one, e.g. a local server chosen in a QA build
+   * @param environment The environment name
+   * @param services The base URLs of its services
+   */
+  register(environment: string, services: ServiceURLs): void {
+    this.environments[environment] = { ...services };
+  }
+
+  /**
+   * Switch the active environment. Requests already sent are not affected.
+   * @param environment The environment name
+   */
+  setEnvironment(environment: string): void {
+    const previous = this.active;
+    this.active = this.checkEnvironment(environment);
+    if (environment !== previous) {
+      this.listeners.forEach(listener => listener(environment, previous));
+    }
+  }
+
+  /**
+   * Listen for changes of the active environment, e.g. to clear caches or persist the choice
+   * @param listener Called with the new and the previous environment name
+   * @returns A function that removes the listener
+   */
+  onChange(listener: EnvironmentListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(existing => existing !== listener);
+    };
+  }
+
+  /**
+   * Get the base URL of a service in the active environment
+   * @param service The service name (default: the default service)
+   * @returns The base URL
+   */
+  baseURL(service: string = this.defaultService): string {
+    const baseURL = this.environments[this.active][service];
+    if (baseURL === undefined) {
+      throw NetworkError.invalidURL(`service "${service}" is not configured in environment "${this.active}"`);
+    }
+    return baseURL;
+  }
+
+  private checkEnvironment(environment: string): string {
+    if (!this.environments[environment]) {
+      throw new Error(`Unknown environment "${environment}"`);
+    }
+    return environment;
+  }
+}
+
+/**
+ * A provider for a single base URL; naming a service is an error
+ * @param baseURL The base URL for all requests
+ */
+export function singleBaseURL(baseURL: string): BaseURLProvider {
+  return {
+    baseURL(service?: string): string {
+      if (service !== undefined) {
+        throw NetworkError.invalidURL(`service "${service}" needs an EnvironmentRegistry in place of a base URL`);
+      }
+      return baseURL;
+    }
+  };
+}
@@ -0,0 +1,82 @@
+import { HTTPMethod } from '../types';
+import { RequestBody } from './Serializers';
+
+/**
+ * A request as seen by request interceptors, before it is handed to fetch
+ */
+export interface InterceptedRequest {
+  url: string;
+  method: HTTPMethod;
+  headers: Record<string, string>;
+  body?: RequestBody;
+  /** The endpoint template the request was made with, e.g. /users/:id */
+  route?: string;
+}
+
+/**
+ * Runs before fetch. Return a (possibly modified) request to continue, or a
+ * Response to short-circuit: fetch and the remaining request interceptors are
+ * skipped and the returned Response goes straight to the response interceptors.
+ * Returning nothing keeps the current request.
+ */
+export type RequestInterceptor = (
+  request: InterceptedRequest
+) => InterceptedRequest | Response | void | Promise<InterceptedRequest | Response | void>;
+
+/**
+ * Runs after fetch and before the response is parsed. Return a replacement
+ * Response, or nothing to keep the current one. Throwing aborts the request.
+ */
+export type ResponseInterceptor = (
+  response: Response,
+  request: InterceptedRequest
+) => Response | void | Promise<Response | void>;
+
+/**
+ * Ordered list of interceptors that can be removed again after registration
+ */
+export class InterceptorChain<T> {
+  private interceptors: T[] = [];
+
+  /**
+   * Register an interceptor at the end of the chain
+   * @param interceptor The interceptor to add
+   * @returns A function that removes the interceptor again
+   */
+  use(interceptor: T): () => void {
+    this.interceptors.push(interceptor);
+    return () => {
+      const index = this.interceptors.indexOf(interceptor);
+      if (index !== -1) {
+        this.interceptors.splice(index, 1);
+      }
+    };
+  }
+
+  /**
+   * Remove all interceptors
+   */
+  clear(): void {
+    this.interceptors = [];
+  }
+
+  /**
+   * Get a snapshot of the registered interceptors, in execution order
+   */
+  list(): T[] {
+    return [...this.interceptors];
+  }
+}
+
+/**
+ * Check whether a request interceptor result is a short-circuit Response
+ */
+export function isResponse(value: unknown): value is Response {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as Response).status === 'number' &&
+    typeof (value as Response).headers === 'object' &&
+    typeof (value as Response).headers?.get === 'function'
+  );
+}
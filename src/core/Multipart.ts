@@ -0,0 +1,92 @@
+import { NetworkError } from '../types';
+
+/**
+ * A file part of a multipart body
+ */
+export interface MultipartFile {
+  /** Local file URI, as used by React Native's FormData (e.g. file:///...) */
+  uri?: string;
+  /** File contents, on platforms with Blob support */
+  blob?: Blob;
+  /** File name sent to the server */
+  name: string;
+  /** MIME type, e.g. image/jpeg */
+  type: string;
+}
+
+/**
+ * A file as React Native's FormData takes it: read from the URI when sending
+ */
+export interface ReactNativeFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+/**
+ * A part of a multipart body
+ */
+export type MultipartPart =
+  | { kind: 'field'; name: string; value: string }
+  | { kind: 'file'; name: string; file: MultipartFile };
+
+/**
+ * Builder for multipart/form-data request bodies. The FormData is created
+ * when the request is serialized, so every attempt (e.g. a retry) sends a
+ * fresh body instead of an already consumed one.
+ */
+export class MultipartBody {
+  private parts: MultipartPart[] = [];
+
+  /**
+   * Add a text field
+   * @param name The field name
+   * @param value The field value
+   * @returns The builder, for chaining
+   */
+  append(name: string, value: string | number | boolean): this {
+    this.parts.push({ kind: 'field', name, value: String(value) });
+    return this;
+  }
+
+  /**
+   * Add a file from a URI or a Blob
+   * @param name The field name
+   * @param file The file
+   * @returns The builder, for chaining
+   * @throws NetworkError.custom if the file has neither a uri nor a blob
+   */
+  appendFile(name: string, file: MultipartFile): this {
+    if (!file.uri && !file.blob) {
+      throw NetworkError.custom(`File "${file.name}" for field "${name}" needs a uri or a blob`);
+    }
+    this.parts.push({ kind: 'file', name, file });
+    return this;
+  }
+
+  /**
+   * Get the parts added so far, in order
+   */
+  getParts(): MultipartPart[] {
+    return [...this.parts];
+  }
+
+  /**
+   * Create a new FormData with all parts
+   */
+  toFormData(): FormData {
+    const formData = new FormData();
+    this.parts.forEach(part => {
+      if (part.kind === 'field') {
+        formData.append(part.name, part.value);
+      } else if (part.file.blob) {
+        formData.append(part.name, part.file.blob, part.file.name);
+      } else if (part.file.uri) {
+        const file: ReactNativeFile = { uri: part.file.uri, name: part.file.name, type: part.file.type };
+        // The DOM typings of FormData.append only know Blobs
+        formData.append(part.name, file as unknown as Blob);
+      }
+    });
+    return formData;
+  }
+}
@@ -0,0 +1,420 @@
+import { HTTPMethod } from '../types';
+import {
+  AbortSignalPolyfill,
+  NetworkRequestable,
+  NetworkResponse,
+  RequestConfig,
+  resolveRequestConfig
+} from './NetworkRequestable';
+import { BaseNetworkRequestable, BaseNetworkRequestableOptions } from './BaseNetworkRequestable';
+import { BaseURLProvider } from './Environments';
+import { RequestBody } from './Serializers';
+import { ResponseType } from './ResponseDecoder';
+import { AuthOptions, AuthenticatedDecorator, TokenProvider } from '../decorators/AuthenticatedDecorator';
+import { Cache, CacheDecorator, MemoryCache } from '../decorators/CacheDecorator';
+import { RetryDecorator, RetryOptions } from '../decorators/RetryDecorator';
+import { FallbackDecorator, FallbackOptions } from '../decorators/FallbackDecorator';
+import { AuthScheme, AuthSchemeSelector } from '../auth/AuthSchemes';
+
+/**
+ * The kinds of layer in a built client
+ */
+export type ClientLayerKind = 'auth' | 'cache' | 'retry' | 'fallback' | 'base';
+
+/**
+ * The decorator kinds, which can be reordered
+ */
+export type DecoratorKind = Exclude<ClientLayerKind, 'base'>;
+
+/**
+ * The NetworkRequestable type of each layer kind
+ */
+export interface ClientLayerTypes {
+  auth: AuthenticatedDecorator;
+  cache: CacheDecorator;
+  retry: RetryDecorator;
+  fallback: FallbackDecorator;
+  base: NetworkRequestable;
+}
+
+/**
+ * A layer of a built client
+ */
+export interface ClientLayer {
+  kind: ClientLayerKind;
+  client: NetworkRequestable;
+}
+
+/**
+ * Cache settings for NetworkClientBuilder.withCache()
+ */
+export interface CacheLayerOptions {
+  /** The cache implementation to use (default: a new MemoryCache) */
+  cache?: Cache;
+  /** Time-to-live in milliseconds (null for no expiry) */
+  ttl?: number | null;
+  /** HTTP methods to cache (default: GET only) */
+  methods?: HTTPMethod[];
+  /** Request headers whose values are part of the cache key (default: the auth header, when auth is outside the cache) */
+  varyHeaders?: string[];
+  /** Query parameters whose values are hashed in the cache key (default: the auth query parameter, when auth is outside the cache) */
+  varyQuery?: string[];
+}
+
+/**
+ * The canonical decorator order, outermost first. Auth runs before the cache,
+ * so cache keys vary by user; the cache answers before any retries; each
+ * retry attempt may fall back to the fallback client.
+ */
+export const DEFAULT_LAYER_ORDER: DecoratorKind[] = ['auth', 'cache', 'retry', 'fallback'];
+
+// Methods whose cached responses can be served without resending the request
+const SAFE_CACHE_METHODS = [HTTPMethod.GET, HTTPMethod.HEAD];
+
+/**
+ * Fluent builder that composes the decorators of a client in a safe order,
+ * whatever order they are configured in, and warns about risky orderings
+ * and settings.
+ *
+ * ```typescript
+ * const client = new NetworkClientBuilder()
+ *   .baseURL('https://api.example.com')
+ *   .withAuth(() => tokenStore.token)
+ *   .withCache({ ttl: 60000 })
+ *   .withRetry()
+ *   .build();
+ * ```
+ */
+export class NetworkClientBuilder {
+  private base?: NetworkRequestable;
+  private baseURLValue?: string | BaseURLProvider;
+  private defaultHeaders: Record<string, string> = {};
+  private timeoutMs = 30000;
+  private baseOptions: BaseNetworkRequestableOptions = {};
+  private layerOrder: DecoratorKind[] = DEFAULT_LAYER_ORDER;
+  private warningHandler: (warning: string) => void = warning => console.warn(`[NetworkClientBuilder] ${warning}`);
+  private auth?: {
+    tokenProvider: TokenProvider;
+    needsAuth: (endpoint: string) => boolean;
+    scheme: string | AuthScheme | AuthSchemeSelector;
+    options: AuthOptions;
+  };
+  private cacheOptions?: CacheLayerOptions;
+  private retryOptions?: Partial<RetryOptions>;
+  private fallbackLayer?: { fallbackProvider: () => NetworkRequestable; options: Partial<FallbackOptions> };
+
+  /**
+   * Send requests with a BaseNetworkRequestable for this base URL
+   * @param baseURL The base URL for all requests, or an EnvironmentRegistry with the base URLs of several services
+   */
+  baseURL(baseURL: string | BaseURLProvider): this {
+    this.baseURLValue = baseURL;
+    this.base = undefined;
+    return this;
+  }
+
+  /**
+   * Set the default headers of the base client
+   * @param headers Default headers to include in all requests
+   */
+  headers(headers: Record<string, string>): this {
+    this.defaultHeaders = { ...this.defaultHeaders, ...headers };
+    return this;
+  }
+
+  /**
+   * Set the request timeout of the base client
+   * @param timeoutMs Request timeout in milliseconds (default: 30000)
+   */
+  timeout(timeoutMs: number): this {
+    this.timeoutMs = timeoutMs;
+    return this;
+  }
+
+  /**
+   * Set additional settings of the base client, such as the transport
+   * @param options Settings merged over those set before
+   */
+  options(options: BaseNetworkRequestableOptions): this {
+    this.baseOptions = { ...this.baseOptions, ...options };
+    return this;
+  }
+
+  /**
+   * Wrap an existing client instead of creating a BaseNetworkRequestable
+   * @param client The innermost NetworkRequestable
+   */
+  client(client: NetworkRequestable): this {
+    this.base = client;
+    this.baseURLValue = undefined;
+    return this;
+  }
+
+  /**
+   * Add authentication
+   * @param tokenProvider Function that provides the authentication token, synchronously or as a promise
+   * @param needsAuth Function that determines if an endpoint needs authentication (default: all endpoints)
+   * @param scheme The header name for a Bearer token, an AuthScheme, or a function choosing the scheme per endpoint (default: 'Authorization')
+   * @param options Token refresh options
+   */
+  withAuth(
+    tokenProvider: TokenProvider,
+    needsAuth: (endpoint: string) => boolean = () => true,
+    scheme: string | AuthScheme | AuthSchemeSelector = 'Authorization',
+    options: AuthOptions = {}
+  ): this {
+    this.auth = { tokenProvider, needsAuth, scheme, options };
+    return this;
+  }
+
+  /**
+   * Add caching
+   * @param options Cache settings
+   */
+  withCache(options: CacheLayerOptions = {}): this {
+    this.cacheOptions = options;
+    return this;
+  }
+
+  /**
+   * Add retries
+   * @param options Retry options
+   */
+  withRetry(options: Partial<RetryOptions> = {}): this {
+    this.retryOptions = options;
+    return this;
+  }
+
+  /**
+   * Add a fallback client
+   * @param fallbackProvider Function that provides the fallback NetworkRequestable
+   * @param options Fallback options
+   */
+  withFallback(fallbackProvider: () => NetworkRequestable, options: Partial<FallbackOptions> = {}): this {
+    this.fallbackLayer = { fallbackProvider, options };
+    return this;
+  }
+
+  /**
+   * Override the decorator order. Risky orderings are reported as warnings.
+   * @param order Decorator kinds, outermost first; must include every configured decorator
+   */
+  order(order: DecoratorKind[]): this {
+    if (new Set(order).size !== order.length) {
+      throw new Error(`Decorator order lists a decorator twice: ${order.join(', ')}`);
+    }
+    this.layerOrder = [...order];
+    return this;
+  }
+
+  /**
+   * Handle warnings about risky orderings and settings
+   * @param handler Called with each warning (default: console.warn)
+   */
+  onWarning(handler: (warning: string) => void): this {
+    this.warningHandler = handler;
+    return this;
+  }
+
+  /**
+   * Compose the client
+   * @returns The client, with its layers exposed for inspection
+   */
+  build(): NetworkClient {
+    const configured = this.configuredKinds();
+    const missing = configured.filter(kind => !this.layerOrder.includes(kind));
+    if (missing.length > 0) {
+      throw new Error(`Decorator order is missing configured decorators: ${missing.join(', ')}`);
+    }
+    const order = this.layerOrder.filter(kind => configured.includes(kind));
+
+    let client = this.createBase();
+    const chain: ClientLayer[] = [{ kind: 'base', client }];
+    for (const kind of [...order].reverse()) {
+      client = this.createLayer(kind, client, order);
+      chain.unshift({ kind, client });
+    }
+
+    const warnings = this.validate(order);
+    warnings.forEach(warning => this.warningHandler(warning));
+    return new NetworkClient(chain, warnings);
+  }
+
+  private configuredKinds(): DecoratorKind[] {
+    const configured: Record<DecoratorKind, boolean> = {
+      auth: !!this.auth,
+      cache: !!this.cacheOptions,
+      retry: !!this.retryOptions,
+      fallback: !!this.fallbackLayer
+    };
+    return DEFAULT_LAYER_ORDER.filter(kind => configured[kind]);
+  }
+
+  private createBase(): NetworkRequestable {
+    if (this.base) {
+      return this.base;
+    }
+    if (this.baseURLValue === undefined) {
+      throw new Error('NetworkClientBuilder needs a baseURL() or client() before build()');
+    }
+    return new BaseNetworkRequestable(this.baseURLValue, this.defaultHeaders, this.timeoutMs, this.baseOptions);
+  }
+
+  private createLayer(kind: DecoratorKind, inner: NetworkRequestable, order: DecoratorKind[]): NetworkRequestable {
+    switch (kind) {
+      case 'auth': {
+        const { tokenProvider, needsAuth, scheme, options } = this.auth!;
+        return new AuthenticatedDecorator(inner, tokenProvider, needsAuth, scheme, options);
+      }
+      case 'cache': {
+        const options = this.cacheOptions!;
+        // Inside auth, the cache sees the token, so key responses by it
+        const authOutside = !!this.auth && order.indexOf('auth') < order.indexOf('cache');
+        const varyHeaders = options.varyHeaders ?? (authOutside ? authHeaders(this.auth!.scheme) : []);
+        const varyQuery = options.varyQuery ?? (authOutside ? authQuery(this.auth!.scheme) : []);
+        return new CacheDecorator(
+          inner,
+          options.cache ?? new MemoryCache(),
+          options.ttl ?? null,
+          options.methods ?? [HTTPMethod.GET],
+          {
+            varyHeaders,
+            varyQuery,
+            baseURL: typeof this.baseURLValue === 'string' ? undefined : this.baseURLValue
+          }
+        );
+      }
+      case 'retry':
+        return new RetryDecorator(inner, this.retryOptions);
+      case 'fallback':
+        return new FallbackDecorator(inner, this.fallbackLayer!.fallbackProvider(), this.fallbackLayer!.options);
+    }
+  }
+
+  private validate(order: DecoratorKind[]): string[] {
+    const warnings: string[] = [];
+    const outside = (outer: DecoratorKind, inner: DecoratorKind) =>
+      order.includes(outer) && order.includes(inner) && order.indexOf(outer) < order.indexOf(inner);
+
+    if (outside('cache', 'auth')) {
+      warnings.push('cache wraps auth, so responses cached for one user are served to other users; put auth outside the cache');
+    }
+    if (outside('fallback', 'auth')) {
+      warnings.push('fallback wraps auth, so requests to the fallback client are sent without authentication');
+    }
+    const unsafeMethods = (this.cacheOptions?.methods ?? []).filter(method => !SAFE_CACHE_METHODS.includes(method));
+    if (unsafeMethods.length > 0) {
+      warnings.push(`cache serves ${unsafeMethods.join(', ')} responses without sending the request`);
+    }
+    return warnings;
+  }
+}
+
+/**
+ * A client composed by NetworkClientBuilder. Requests go through the
+ * outermost layer; the chain lists every layer, outermost first.
+ */
+export class NetworkClient implements NetworkRequestable {
+  /** The layers, outermost first, ending with the base client */
+  readonly chain: ReadonlyArray<ClientLayer>;
+  /** Warnings about risky orderings and settings found when building */
+  readonly warnings: ReadonlyArray<string>;
+
+  /**
+   * Create a new NetworkClient
+   * @param chain The layers, outermost first
+   * @param warnings Warnings found when building
+   */
+  constructor(chain: ClientLayer[], warnings: string[] = []) {
+    this.chain = chain;
+    this.warnings = warnings;
+  }
+
+  /**
+   * Make a network request through all layers
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the response data
+   */
+  async request<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<T> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.chain[0].client.request<T>(endpoint, config);
+  }
+
+  /**
+   * Make a network request through all layers and resolve with the full response envelope
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the full response envelope
+   */
+  async requestRaw<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<NetworkResponse<T>> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.chain[0].client.requestRaw<T>(endpoint, config);
+  }
+
+  /**
+   * Get a layer, e.g. the cache to clear it
+   * @param kind The layer kind
+   * @returns The layer, or undefined if the client has none of this kind
+   */
+  getLayer<K extends ClientLayerKind>(kind: K): ClientLayerTypes[K] | undefined {
+    return this.chain.find(layer => layer.kind === kind)?.client as ClientLayerTypes[K] | undefined;
+  }
+
+  /**
+   * Describe the layer order, e.g. 'auth → cache → retry → base'
+   */
+  describe(): string {
+    return this.chain.map(layer => layer.kind).join(' → ');
+  }
+}
+
+/**
+ * The headers an auth scheme argument may set. A selector's schemes are not
+ * always known up front, so caches vary by Authorization unless it lists them
+ * or varyHeaders is given.
+ */
+function authHeaders(scheme: string | AuthScheme | AuthSchemeSelector): string[] {
+  if (typeof scheme === 'string') {
+    return [scheme];
+  }
+  if (typeof scheme === 'function' && !scheme.schemes) {
+    return ['Authorization'];
+  }
+  const names = schemesOf(scheme).map(candidate => candidate.headerName);
+  return Array.from(new Set(names.filter((name): name is string => name !== undefined)));
+}
+
+/**
+ * The query parameters an auth scheme argument may set
+ */
+function authQuery(scheme: string | AuthScheme | AuthSchemeSelector): string[] {
+  const names = typeof scheme === 'string' ? [] : schemesOf(scheme).map(candidate => candidate.queryName);
+  return Array.from(new Set(names.filter((name): name is string => name !== undefined)));
+}
+
+function schemesOf(scheme: AuthScheme | AuthSchemeSelector): AuthScheme[] {
+  return typeof scheme === 'function' ? scheme.schemes ?? [] : [scheme];
+}
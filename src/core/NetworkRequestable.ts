@@ -1,17 +1,105 @@
 import { HTTPMethod, NetworkError } from '../types';
+import { PathParams } from './PathTemplate';
+import { QueryParams, QuerySerializerOptions, normalizeQuery } from './QueryString';
+import { RequestBody, isNativeBody } from './Serializers';
+import { sha256, toHex } from '../crypto/sha256';
+import { ResponseFormat } from './Parsers';
+import { ResponseType } from './ResponseDecoder';
+import { BeforeSendHook, ProgressCallback } from './Transport';
 
 // Use a type import for AbortSignal to avoid declaration conflicts
-type AbortSignalPolyfill = {
+export type AbortSignalPolyfill = {
   readonly aborted: boolean;
   readonly reason?: any;
   addEventListener(type: 'abort', listener: () => void): void;
   removeEventListener(type: 'abort', listener: () => void): void;
 };
 
+/**
+ * Extensible bag of per-request settings read by decorators.
+ * Each decorator documents the keys it understands (see CacheContext,
+ * RetryContext, FallbackContext and AuthContext).
+ */
+export interface RequestContext {
+  [key: string]: any;
+}
+
+/**
+ * What to do when the server answers with a redirect:
+ * follow it, resolve with the 3xx response, or reject with NetworkError.redirectError()
+ */
+export type RedirectPolicy = 'follow' | 'manual' | 'error';
+
+/**
+ * Per-request configuration accepted by every NetworkRequestable
+ */
+export interface RequestConfig<T = any> {
+  /** The HTTP method (default: GET) */
+  method?: HTTPMethod;
+  /** Optional request body */
+  body?: RequestBody;
+  /** The service whose base URL the endpoint is relative to, when the client has an EnvironmentRegistry */
+  service?: string;
+  /** Values for :name / {name} placeholders in the endpoint template */
+  params?: PathParams;
+  /** Optional query string parameters */
+  query?: QueryParams;
+  /** Query string serialization options, overriding the client defaults */
+  queryOptions?: Partial<QuerySerializerOptions>;
+  /** Optional request headers */
+  headers?: Record<string, string>;
+  /** The expected response type; schemas, decoders and classes with a static decode validate the body */
+  responseType?: ResponseType<T>;
+  /** How the response body is parsed, overriding the client default (default: 'auto') */
+  responseFormat?: ResponseFormat;
+  /** Time allowed for each attempt, until the response body has been read, in milliseconds (overrides the client default) */
+  timeout?: number;
+  /** Time allowed without progress (response headers or body bytes), in milliseconds (overrides the client default) */
+  idleTimeout?: number;
+  /** Time allowed for the whole request, across retries and fallbacks, in milliseconds */
+  totalTimeout?: number;
+  /** Time (in ms since the epoch) by which the whole request must finish; derived from totalTimeout if not set */
+  deadline?: number;
+  /** Optional signal that cancels the request */
+  signal?: AbortSignalPolyfill;
+  /** How redirects are handled, overriding the client default (default: follow) */
+  redirect?: RedirectPolicy;
+  /** Most redirects followed before rejecting, overriding the client default (default: 20) */
+  maxRedirects?: number;
+  /**
+   * Called as the body is uploaded. FetchTransport cannot report upload progress,
+   * so such requests are sent with the client's uploadTransport (default: an
+   * XHRTransport), or reject where XMLHttpRequest does not exist.
+   */
+  onUploadProgress?: ProgressCallback;
+  /** Called as the response is downloaded (XHRTransport only) */
+  onDownloadProgress?: ProgressCallback;
+  /** Called with the serialized request before each send, including redirect hops, e.g. to sign it */
+  beforeSend?: BeforeSendHook;
+  /** Per-request settings for decorators */
+  context?: RequestContext;
+}
+
+/**
+ * A RequestConfig with defaults applied, as passed between decorators
+ */
+export type ResolvedRequestConfig<T = any> = RequestConfig<T> & {
+  method: HTTPMethod;
+  headers: Record<string, string>;
+};
+
 /**
  * The base protocol for all network requests
  */
 export interface NetworkRequestable {
+  /**
+   * Make a network request
+   * @param endpoint The API endpoint
+   * @param config Optional per-request configuration
+   * @returns A promise that resolves to the response data
+   */
+  request<T>(endpoint: string, config?: RequestConfig<T>): Promise<T>;
+
   /**
    * Make a network request
    * @param endpoint The API endpoint
@@ -19,15 +107,62 @@ export interface NetworkRequestable {
    * @param body Optional request body
    * @param responseType The expected response type
    * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
    * @returns A promise that resolves to the response data
    */
   request<T>(
     endpoint: string,
     method: HTTPMethod,
-    body?: Record<string, any>,
-    responseType?: new () => T,
-    headers?: Record<string, string>
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
   ): Promise<T>;
+
+  /**
+   * Make a network request and resolve with the full response envelope
+   * @param endpoint The API endpoint
+   * @param config Optional per-request configuration
+   * @returns A promise that resolves to the status, headers, data, URL and duration
+   */
+  requestRaw<T>(endpoint: string, config?: RequestConfig<T>): Promise<NetworkResponse<T>>;
+
+  /**
+   * Make a network request and resolve with the full response envelope
+   * @param endpoint The API endpoint
+   * @param method The HTTP method
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the status, headers, data, URL and duration
+   */
+  requestRaw<T>(
+    endpoint: string,
+    method: HTTPMethod,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<NetworkResponse<T>>;
+}
+
+/**
+ * Full response envelope returned by requestRaw
+ */
+export interface NetworkResponse<T> {
+  /** HTTP status code */
+  status: number;
+  /** Response headers, keyed by lower-case header name */
+  headers: Record<string, string>;
+  /** Parsed response body */
+  data: T;
+  /** URL the response was received from */
+  url: string;
+  /** Time from sending the request to parsing the response, in milliseconds */
+  duration: number;
+  /** URLs that redirected, in order, before the final url */
+  redirects?: string[];
 }
 
 /**
@@ -36,17 +171,146 @@ export interface NetworkRequestable {
 export interface RequestOptions {
   method: HTTPMethod;
   headers: Record<string, string>;
-  body?: string;
+  body?: BodyInit;
   signal?: AbortSignalPolyfill;
 }
 
 /**
- * Generate a cache key for a request
+ * Normalize the arguments of request/requestRaw into a RequestConfig, so
+ * implementations accept both the config object and the positional form
+ * @param methodOrConfig The HTTP method or a RequestConfig
+ * @param body Optional request body (positional form only)
+ * @param responseType The expected response type (positional form only)
+ * @param headers Optional request headers (positional form only)
+ * @param signal Optional signal that cancels the request (positional form only)
+ * @returns The resolved configuration
+ */
+export function resolveRequestConfig<T>(
+  methodOrConfig: HTTPMethod | RequestConfig<T> = {},
+  body?: RequestBody,
+  responseType?: ResponseType<T>,
+  headers?: Record<string, string>,
+  signal?: AbortSignalPolyfill
+): ResolvedRequestConfig<T> {
+  if (typeof methodOrConfig === 'object' && methodOrConfig !== null) {
+    const config: ResolvedRequestConfig<T> = {
+      ...methodOrConfig,
+      method: methodOrConfig.method ?? HTTPMethod.GET,
+      headers: methodOrConfig.headers ?? {}
+    };
+    // The outermost layer fixes the deadline, so inner layers share one budget
+    if (config.deadline === undefined && config.totalTimeout !== undefined) {
+      config.deadline = Date.now() + config.totalTimeout;
+    }
+    return config;
+  }
+
+  return {
+    method: methodOrConfig,
+    body: body ?? undefined,
+    responseType: responseType ?? undefined,
+    headers: headers ?? {},
+    signal
+  };
+}
+
+/**
+ * Throw NetworkError.cancelled() if the signal has been aborted
+ */
+export function throwIfCancelled(signal?: AbortSignalPolyfill): void {
+  if (signal && signal.aborted) {
+    throw NetworkError.cancelled();
+  }
+}
+
+/**
+ * Get the time left until the request deadline
+ * @param config The request configuration
+ * @returns Milliseconds left (zero or less once passed), or undefined without a deadline
+ */
+export function remainingTime(config: RequestConfig): number | undefined {
+  return config.deadline === undefined ? undefined : config.deadline - Date.now();
+}
+
+/**
+ * Throw a timeout error if the request deadline has passed
+ */
+export function throwIfDeadlineExceeded(config: RequestConfig): void {
+  const remaining = remainingTime(config);
+  if (remaining !== undefined && remaining <= 0) {
+    throw NetworkError.timeout('Request deadline exceeded');
+  }
+}
+
+/**
+ * Convert a Headers object into a plain record with lower-case keys
+ */
+export function headersToRecord(headers: Headers | undefined | null): Record<string, string> {
+  const record: Record<string, string> = {};
+  if (headers && typeof headers.forEach === 'function') {
+    headers.forEach((value: string, name: string) => {
+      record[name.toLowerCase()] = value;
+    });
+  }
+  return record;
+}
+
+/**
+ * Check whether a request body can be part of a cache key. Blobs, FormData,
+ * MultipartBody and streams cannot be read synchronously, so requests with
+ * them are never cached.
+ */
+export function isCacheableBody(body: RequestBody | undefined): boolean {
+  return body === undefined || body === null || bodyKey(body) !== undefined;
+}
+
+/**
+ * Generate a cache key for a request. Query and path parameters are
+ * normalized, so key order and undefined values do not produce different
+ * keys, nor do null values unless queryOptions.skipNulls is false. Binary
+ * bodies are keyed by their SHA-256. Keys start with the endpoint template,
+ * so entries for the same route share a prefix; requests to a named service
+ * are keyed separately from the same endpoint on other services.
  */
 export function generateCacheKey(
   endpoint: string,
   method: HTTPMethod,
-  body?: Record<string, any>
+  body?: RequestBody,
+  query?: QueryParams,
+  params?: PathParams,
+  service?: string,
+  queryOptions?: Partial<QuerySerializerOptions>
 ): string {
-  return `${method}:${endpoint}:${body ? JSON.stringify(body) : ''}`;
+  let key = `${method}:${endpoint}:${body ? bodyKey(body) ?? '' : ''}`;
+  const normalizedQuery = normalizeQuery(query, queryOptions);
+  if (normalizedQuery) {
+    key = `${key}:${JSON.stringify(normalizedQuery)}`;
+  }
+  const normalizedParams = normalizeQuery(params);
+  if (normalizedParams) {
+    key = `${key}:params=${JSON.stringify(normalizedParams)}`;
+  }
+  if (service !== undefined) {
+    key = `${key}:service=${service}`;
+  }
+  return key;
+}
+
+/**
+ * Describe a body for a cache key, or undefined if it cannot be read synchronously
+ */
+function bodyKey(body: RequestBody): string | undefined {
+  if (typeof body === 'string') {
+    return JSON.stringify(body);
+  }
+  if (body instanceof ArrayBuffer) {
+    return `sha256=${toHex(sha256(body))}`;
+  }
+  if (ArrayBuffer.isView(body)) {
+    return `sha256=${toHex(sha256(new Uint8Array(body.buffer, body.byteOffset, body.byteLength)))}`;
+  }
+  if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) {
+    return `form=${body.toString()}`;
+  }
+  return isNativeBody(body) ? undefined : JSON.stringify(body);
 }
@@ -0,0 +1,164 @@
+import { NetworkError } from '../types';
+import { mediaTypeOf } from './Serializers';
+
+/**
+ * How the response body is parsed. 'auto' picks a parser from the response
+ * Content-Type; any other value names a registered parser.
+ */
+export type ResponseFormat = 'auto' | 'json' | 'text' | 'blob' | 'arrayBuffer' | 'ndjson' | (string & {});
+
+/**
+ * Converts a response body into data
+ */
+export interface ResponseParser {
+  /** Name selected with responseFormat, e.g. 'xml' */
+  format: string;
+  /**
+   * Media types the parser is picked for in 'auto' mode.
+   * A trailing /* matches a whole type, e.g. image/*.
+   */
+  contentTypes?: string[];
+  /** Parse the response body */
+  parse(response: Response): Promise<any>;
+}
+
+/**
+ * JSON parser
+ */
+export const jsonParser: ResponseParser = {
+  format: 'json',
+  contentTypes: ['application/json'],
+  parse: async response => {
+    try {
+      return await response.json();
+    } catch (error) {
+      throw NetworkError.decodingError((error as Error).message);
+    }
+  }
+};
+
+/**
+ * Text parser, used for text/* responses
+ */
+export const textParser: ResponseParser = {
+  format: 'text',
+  contentTypes: ['text/*'],
+  parse: response => response.text()
+};
+
+/**
+ * Blob parser, used for binary responses such as PDFs, images and media
+ */
+export const blobParser: ResponseParser = {
+  format: 'blob',
+  contentTypes: ['application/octet-stream', 'application/pdf', 'application/zip', 'image/*', 'audio/*', 'video/*'],
+  parse: response => response.blob()
+};
+
+/**
+ * ArrayBuffer parser, only used when requested with responseFormat
+ */
+export const arrayBufferParser: ResponseParser = {
+  format: 'arrayBuffer',
+  parse: response => response.arrayBuffer()
+};
+
+/**
+ * Newline-delimited JSON parser, resolving with one item per non-empty line
+ */
+export const ndjsonParser: ResponseParser = {
+  format: 'ndjson',
+  contentTypes: ['application/x-ndjson', 'application/ndjson'],
+  parse: async response => {
+    const text = await response.text();
+    return text.split(/\r?\n/).reduce<any[]>((items, line, index) => {
+      if (line.trim()) {
+        try {
+          items.push(JSON.parse(line));
+        } catch (error) {
+          throw NetworkError.decodingError(`line ${index + 1}: ${(error as Error).message}`);
+        }
+      }
+      return items;
+    }, []);
+  }
+};
+
+/**
+ * Parsers registered by default, in registration order
+ */
+export const DEFAULT_PARSERS: ResponseParser[] = [
+  jsonParser,
+  textParser,
+  blobParser,
+  arrayBufferParser,
+  ndjsonParser
+];
+
+/**
+ * Registry of response parsers keyed by format name
+ */
+export class ParserRegistry {
+  private parsers: ResponseParser[] = [];
+
+  /**
+   * Create a new ParserRegistry
+   * @param parsers The initial parsers (default: DEFAULT_PARSERS)
+   */
+  constructor(parsers: ResponseParser[] = DEFAULT_PARSERS) {
+    parsers.forEach(parser => this.register(parser));
+  }
+
+  /**
+   * Register a parser, replacing any parser with the same format name.
+   * Later registrations take precedence when picking a parser by Content-Type.
+   * @param parser The parser to register
+   */
+  register(parser: ResponseParser): void {
+    this.parsers = this.parsers.filter(existing => existing.format !== parser.format);
+    this.parsers.push(parser);
+  }
+
+  /**
+   * Get a parser by format name
+   * @param format The format name
+   * @returns The parser, or undefined if none is registered
+   */
+  get(format: string): ResponseParser | undefined {
+    return this.parsers.find(parser => parser.format === format);
+  }
+
+  /**
+   * Find the parser for a Content-Type. Exact media types win over wildcards,
+   * and structured syntax suffixes such as application/problem+json fall back
+   * to the parser for application/json.
+   * @param contentType The Content-Type value
+   * @returns The parser, or undefined if none matches
+   */
+  forContentType(contentType: string): ResponseParser | undefined {
+    const mediaType = mediaTypeOf(contentType);
+    const exact = this.match(type => type === mediaType);
+    if (exact) {
+      return exact;
+    }
+
+    const suffix = mediaType.match(/\+([a-z0-9.-]+)$/);
+    const suffixed = suffix ? this.match(type => type === `application/${suffix[1]}`) : undefined;
+    if (suffixed) {
+      return suffixed;
+    }
+
+    const wildcard = `${mediaType.split('/')[0]}/*`;
+    return this.match(type => type === wildcard);
+  }
+
+  private match(predicate: (type: string) => boolean): ResponseParser | undefined {
+    for (let i = this.parsers.length - 1; i >= 0; i--) {
+      const types = this.parsers[i].contentTypes ?? [];
+      if (types.some(type => predicate(type.toLowerCase()))) {
+        return this.parsers[i];
+      }
+    }
+    return undefined;
+  }
+}
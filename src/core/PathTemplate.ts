@@ -0,0 +1,39 @@
+import { NetworkError } from '../types';
+
+/**
+ * Values for the placeholders of an endpoint template
+ */
+export type PathParams = Record<string, string | number | boolean>;
+
+// Matches :name placeholders at the start of a path segment, and {name} anywhere
+const PLACEHOLDER_PATTERN = /(^|\/):([A-Za-z_][A-Za-z0-9_]*)|\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+/**
+ * Check whether an endpoint contains :name or {name} placeholders
+ */
+export function isPathTemplate(endpoint: string): boolean {
+  PLACEHOLDER_PATTERN.lastIndex = 0;
+  return PLACEHOLDER_PATTERN.test(endpoint);
+}
+
+/**
+ * Expand an endpoint template such as /users/:id/posts/{postId}.
+ * Values are percent-encoded, so IDs containing slashes stay in one segment.
+ * @param template The endpoint template
+ * @param params Values for the placeholders
+ * @returns The expanded endpoint
+ * @throws NetworkError.invalidURL if a placeholder has no value
+ */
+export function expandPath(template: string, params: PathParams = {}): string {
+  return template.replace(
+    PLACEHOLDER_PATTERN,
+    (match: string, prefix: string | undefined, colonName: string | undefined, braceName: string | undefined) => {
+      const name = (colonName ?? braceName) as string;
+      const value = params[name];
+      if (value === undefined || value === null || value === '') {
+        throw NetworkError.invalidURL(`${template} (missing path parameter "${name}")`);
+      }
+      return `${prefix ?? ''}${encodeURIComponent(String(value))}`;
+    }
+  );
+}
@@ -0,0 +1,221 @@
+/**
+ * Query string parameters. Values may be primitives, Dates, arrays or nested objects.
+ */
+export type QueryParams = Record<string, any>;
+
+/**
+ * How array values are encoded
+ * - repeat:   a=1&a=2
+ * - brackets: a[]=1&a[]=2
+ * - indices:  a[0]=1&a[1]=2
+ * - comma:    a=1,2
+ */
+export type ArrayFormat = 'repeat' | 'brackets' | 'indices' | 'comma';
+
+/**
+ * Query string serialization options
+ */
+export interface QuerySerializerOptions {
+  arrayFormat: ArrayFormat;
+  /** Skip null values (undefined values are always skipped) */
+  skipNulls: boolean;
+  /** Sort keys alphabetically at every level */
+  sort: boolean;
+}
+
+/**
+ * Default query string serialization options
+ */
+export const DEFAULT_QUERY_OPTIONS: QuerySerializerOptions = {
+  arrayFormat: 'repeat',
+  skipNulls: true,
+  sort: false
+};
+
+/**
+ * Percent-encode a key or value per RFC 3986, which also reserves !'()*
+ */
+export function encodeQueryComponent(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    char => `%${char.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/**
+ * Serialize query parameters into a query string (without the leading '?').
+ * Nested objects are encoded as filter[name]=x.
+ * @param params The query parameters
+ * @param options Serialization options
+ * @returns The encoded query string
+ */
+export function serializeQuery(
+  params: QueryParams | undefined,
+  options: Partial<QuerySerializerOptions> = {}
+): string {
+  if (!params) {
+    return '';
+  }
+
+  const resolved = { ...DEFAULT_QUERY_OPTIONS, ...options };
+  const pairs: string[] = [];
+  keysOf(params, resolved).forEach(key => {
+    appendPairs(pairs, encodeQueryComponent(key), params[key], resolved);
+  });
+  return pairs.join('&');
+}
+
+/**
+ * Append serialized query parameters to a URL that may already have a query string
+ * @param url The URL
+ * @param params The query parameters
+ * @param options Serialization options
+ * @returns The URL with the query string appended
+ */
+export function appendQuery(
+  url: string,
+  params: QueryParams | undefined,
+  options: Partial<QuerySerializerOptions> = {}
+): string {
+  const query = serializeQuery(params, options);
+  if (!query) {
+    return url;
+  }
+
+  // Keep any fragment at the end of the URL
+  const hashIndex = url.indexOf('#');
+  const base = hashIndex === -1 ? url : url.slice(0, hashIndex);
+  const hash = hashIndex === -1 ? '' : url.slice(hashIndex);
+  const separator = !base.includes('?') ? '?' : base.endsWith('?') || base.endsWith('&') ? '' : '&';
+  return `${base}${separator}${query}${hash}`;
+}
+
+/**
+ * Normalize query parameters for use in cache and mock keys: keys are sorted
+ * at every level and undefined values are dropped, as are null values unless
+ * skipNulls is false, so equivalent parameter objects produce the same key.
+ * @param params The query parameters
+ * @param options Serialization options; only skipNulls is used
+ * @returns The normalized parameters, or undefined if nothing is left
+ */
+export function normalizeQuery(
+  params: QueryParams | undefined,
+  options: Partial<QuerySerializerOptions> = {}
+): QueryParams | undefined {
+  if (!params) {
+    return undefined;
+  }
+
+  const normalized = normalizeValue(params, options.skipNulls ?? DEFAULT_QUERY_OPTIONS.skipNulls);
+  return normalized && Object.keys(normalized).length > 0 ? normalized : undefined;
+}
+
+/**
+ * Parse the query string of a URL into its parameters. Repeated keys keep the
+ * first value; nested notation is not expanded.
+ * @param url A URL or a query string, with or without the leading '?'
+ * @returns The decoded parameters
+ */
+export function parseQuery(url: string): Record<string, string> {
+  const start = url.indexOf('?');
+  const query = (start >= 0 ? url.slice(start + 1) : url.includes('://') ? '' : url).split('#')[0];
+  const params: Record<string, string> = {};
+  query.split('&').forEach(pair => {
+    if (!pair) {
+      return;
+    }
+    const separator = pair.indexOf('=');
+    const decode = (value: string) => decodeURIComponent(value.replace(/\+/g, ' '));
+    const key = decode(separator >= 0 ? pair.slice(0, separator) : pair);
+    if (!(key in params)) {
+      params[key] = separator >= 0 ? decode(pair.slice(separator + 1)) : '';
+    }
+  });
+  return params;
+}
+
+function normalizeValue(value: any, skipNulls: boolean): any {
+  if (value === undefined || (value === null && skipNulls)) {
+    return undefined;
+  }
+  if (value === null) {
+    return null;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => normalizeValue(item, skipNulls)).filter(item => item !== undefined);
+  }
+  if (typeof value === 'object') {
+    const result: Record<string, any> = {};
+    Object.keys(value).sort().forEach(key => {
+      const item = normalizeValue(value[key], skipNulls);
+      if (item !== undefined) {
+        result[key] = item;
+      }
+    });
+    return result;
+  }
+  return value;
+}
+
+function keysOf(value: Record<string, any>, options: QuerySerializerOptions): string[] {
+  const keys = Object.keys(value);
+  return options.sort ? keys.sort() : keys;
+}
+
+function isSkipped(value: any, options: QuerySerializerOptions): boolean {
+  return value === undefined || (value === null && options.skipNulls);
+}
+
+function stringify(value: any): string {
+  if (value === null) {
+    return '';
+  }
+  return value instanceof Date ? value.toISOString() : String(value);
+}
+
+function appendPairs(
+  pairs: string[],
+  prefix: string,
+  value: any,
+  options: QuerySerializerOptions
+): void {
+  if (isSkipped(value, options)) {
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    const items = value.filter(item => !isSkipped(item, options));
+    const hasObjects = items.some(item => isPlainObject(item) || Array.isArray(item));
+
+    if (options.arrayFormat === 'comma' && !hasObjects) {
+      if (items.length > 0) {
+        pairs.push(`${prefix}=${items.map(item => encodeQueryComponent(stringify(item))).join(',')}`);
+      }
+      return;
+    }
+
+    items.forEach((item, index) => {
+      // Objects inside arrays always need an index to keep their fields together
+      const useIndex = options.arrayFormat === 'indices' || hasObjects;
+      const key = useIndex ? `${prefix}[${index}]` : options.arrayFormat === 'brackets' ? `${prefix}[]` : prefix;
+      appendPairs(pairs, key, item, options);
+    });
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    keysOf(value, options).forEach(key => {
+      appendPairs(pairs, `${prefix}[${encodeQueryComponent(key)}]`, value[key], options);
+    });
+    return;
+  }
+
+  pairs.push(`${prefix}=${encodeQueryComponent(stringify(value))}`);
+}
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return typeof value === 'object' && value !== null && !(value instanceof Date) && !Array.isArray(value);
+}
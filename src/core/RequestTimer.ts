@@ -0,0 +1,120 @@
+import { NetworkError } from '../types';
+import { AbortSignalPolyfill } from './NetworkRequestable';
+import { ProgressCallback, abortError } from './Transport';
+
+/**
+ * Limits for a single request attempt
+ */
+export interface RequestTimerOptions {
+  /** Time allowed for the attempt, in milliseconds */
+  timeout: number;
+  /** Time allowed without progress, in milliseconds */
+  idleTimeout?: number;
+  /** Time (in ms since the epoch) by which the whole request must finish */
+  deadline?: number;
+}
+
+/**
+ * Aborts a request attempt when its timeout, idle timeout or the request
+ * deadline passes, or when the caller's signal aborts. The timer runs until
+ * it is disposed, so it also covers reading the response body.
+ */
+export class RequestTimer {
+  /** Signal passed to the transport */
+  readonly signal: AbortSignal;
+  private controller: AbortController;
+  private callerSignal?: AbortSignalPolyfill;
+  private idleTimeout?: number;
+  private timeoutId?: ReturnType<typeof setTimeout>;
+  private idleId?: ReturnType<typeof setTimeout>;
+  private reason?: string;
+  private onCallerAbort = () => this.controller.abort();
+
+  /**
+   * Start the timers
+   * @param options Limits for the attempt
+   * @param callerSignal Optional signal that cancels the request
+   */
+  constructor(options: RequestTimerOptions, callerSignal?: AbortSignalPolyfill) {
+    this.controller = new AbortController();
+    this.signal = this.controller.signal;
+    this.callerSignal = callerSignal;
+    this.idleTimeout = options.idleTimeout;
+    callerSignal?.addEventListener('abort', this.onCallerAbort);
+
+    // The attempt gets its own timeout, cut short by the deadline
+    const remaining = options.deadline === undefined ? undefined : options.deadline - Date.now();
+    if (remaining !== undefined && remaining < options.timeout) {
+      this.timeoutId = setTimeout(() => this.expire('Request deadline exceeded'), remaining);
+    } else {
+      this.timeoutId = setTimeout(() => this.expire('Request timed out'), options.timeout);
+    }
+    this.touch();
+  }
+
+  /**
+   * Restart the idle timer, e.g. when response headers or body bytes arrive
+   */
+  touch(): void {
+    if (this.idleTimeout === undefined) {
+      return;
+    }
+    clearTimeout(this.idleId);
+    const idleTimeout = this.idleTimeout;
+    this.idleId = setTimeout(() => this.expire(`Request timed out: no data received for ${idleTimeout}ms`), idleTimeout);
+  }
+
+  /**
+   * Wrap a progress callback so progress also restarts the idle timer
+   * @param callback The caller's progress callback
+   * @returns The callback to pass to the transport
+   */
+  track(callback?: ProgressCallback): ProgressCallback | undefined {
+    if (this.idleTimeout === undefined) {
+      return callback;
+    }
+    return progress => {
+      this.touch();
+      callback?.(progress);
+    };
+  }
+
+  /**
+   * Reject with an AbortError if the timer aborts while the promise is pending.
+   * Transports observe the signal themselves; this covers work such as
+   * reading and parsing the response body.
+   * @param promise The work to guard
+   * @returns A promise that settles like the work, unless aborted first
+   */
+  guard<T>(promise: Promise<T>): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => reject(abortError());
+      this.signal.addEventListener('abort', onAbort);
+      promise.then(resolve, reject).finally(() => this.signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  /**
+   * Get the error for an abort: cancelled if the caller aborted, otherwise a timeout naming the limit that passed
+   */
+  abortReason(): NetworkError {
+    if (this.callerSignal?.aborted) {
+      return NetworkError.cancelled();
+    }
+    return NetworkError.timeout(this.reason);
+  }
+
+  /**
+   * Stop the timers and stop listening to the caller's signal
+   */
+  dispose(): void {
+    clearTimeout(this.timeoutId);
+    clearTimeout(this.idleId);
+    this.callerSignal?.removeEventListener('abort', this.onCallerAbort);
+  }
+
+  private expire(reason: string): void {
+    this.reason = this.reason ?? reason;
+    this.controller.abort();
+  }
+}
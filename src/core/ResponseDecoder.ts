@@ -0,0 +1,119 @@
+import { NetworkError } from '../types';
+
+/**
+ * A schema with a zod-compatible parse method that returns the decoded value or throws
+ */
+export interface ResponseSchema<T> {
+  parse(data: unknown): T;
+}
+
+/**
+ * An object, typically a class with a static decode method, that returns the decoded value or throws
+ */
+export interface DecodableType<T> {
+  decode(data: unknown): T;
+}
+
+/**
+ * A function that returns the decoded value or throws
+ */
+export type DecoderFunction<T> = (data: unknown) => T;
+
+/**
+ * The expected response type. Schemas and decodable types validate the parsed
+ * body; a plain class constructor is a type hint only.
+ */
+export type ResponseType<T> = ResponseSchema<T> | DecodableType<T> | (new () => T);
+
+/**
+ * Use a decoder function as a response type. Functions cannot be passed
+ * directly, because they are indistinguishable from class constructors.
+ * @param decoder The decoder function
+ * @returns A decodable type calling the function
+ */
+export function decodeWith<T>(decoder: DecoderFunction<T>): DecodableType<T> {
+  return { decode: decoder };
+}
+
+/**
+ * Validate and decode a parsed response body with the response type
+ * @param data The parsed response body
+ * @param responseType The expected response type
+ * @returns The decoded value, or the data unchanged if the response type does not decode
+ * @throws NetworkError.decodingError with the failing path(s) if the data does not match
+ */
+export function decodeResponse<T>(data: unknown, responseType?: ResponseType<T>): T {
+  const decoder = decoderFor(responseType);
+  if (!decoder) {
+    return data as T;
+  }
+
+  try {
+    return decoder(data);
+  } catch (error) {
+    if (error instanceof NetworkError) {
+      throw error;
+    }
+    throw NetworkError.decodingError(describeDecodeError(error));
+  }
+}
+
+/**
+ * Build a message listing the failing paths of a validation error.
+ * Understands zod-style issues ({ path, message }[]), errors carrying a
+ * path, and plain errors.
+ */
+export function describeDecodeError(error: unknown): string {
+  const issues = property(error, 'issues');
+  if (Array.isArray(issues) && issues.length > 0) {
+    return issues.map(issue => `${formatPath(property(issue, 'path'))}: ${String(property(issue, 'message'))}`).join('; ');
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  const path = property(error, 'path');
+  return path !== undefined && path !== '' ? `${formatPath(path)}: ${message}` : message;
+}
+
+/**
+ * Format a path such as ['items', 0, 'id'] as items[0].id
+ */
+export function formatPath(path: unknown): string {
+  if (!Array.isArray(path)) {
+    return path === undefined || path === '' ? '(root)' : String(path);
+  }
+  if (path.length === 0) {
+    return '(root)';
+  }
+  return path.reduce<string>((result, segment) => {
+    if (typeof segment === 'number') {
+      return `${result}[${segment}]`;
+    }
+    return result ? `${result}.${String(segment)}` : String(segment);
+  }, '');
+}
+
+function decoderFor<T>(responseType?: ResponseType<T>): ((data: unknown) => T) | undefined {
+  if (!responseType) {
+    return undefined;
+  }
+
+  const decode = property(responseType, 'decode');
+  if (typeof decode === 'function') {
+    return data => decode.call(responseType, data);
+  }
+  const parse = property(responseType, 'parse');
+  if (typeof parse === 'function') {
+    return data => parse.call(responseType, data);
+  }
+  // Plain classes are type hints only
+  return undefined;
+}
+
+/**
+ * Read a property of an unknown value, or undefined if it is not an object
+ */
+function property(value: unknown, key: string): unknown {
+  return (typeof value === 'object' || typeof value === 'function') && value !== null && key in value
+    ? (value as Record<string, unknown>)[key]
+    : undefined;
+}
@@ -0,0 +1,213 @@
+import { serializeQuery } from './QueryString';
+import { MultipartBody } from './Multipart';
+import { utf8Encode } from '../crypto/sha256';
+
+/**
+ * Request bodies accepted by the library: plain objects, arrays and
+ * MultipartBody are serialized, the other types are sent as they are
+ */
+export type RequestBody =
+  | Record<string, any>
+  | any[]
+  | string
+  | ArrayBuffer
+  | ArrayBufferView
+  | Blob
+  | FormData
+  | URLSearchParams
+  | MultipartBody;
+
+/**
+ * Converts a request body into something fetch can send
+ */
+export interface BodySerializer {
+  /** Media type produced by the serializer, e.g. application/json */
+  contentType: string;
+  /**
+   * Whether the serializer should be picked for this body when the request
+   * does not ask for a specific content type
+   */
+  canSerialize?(body: unknown): boolean;
+  /** Serialize the body */
+  serialize(body: any): BodyInit;
+}
+
+/**
+ * Extract the lower-case media type from a Content-Type value, without parameters
+ */
+export function mediaTypeOf(contentType: string): string {
+  return contentType.split(';')[0].trim().toLowerCase();
+}
+
+/**
+ * Check whether the body has a dedicated type (anything but plain objects and
+ * arrays), so it is serialized by type rather than by the default Content-Type
+ */
+export function isNativeBody(body: unknown): boolean {
+  return (
+    typeof body === 'string' ||
+    isBinary(body) ||
+    isInstanceOf(body, 'FormData') ||
+    isInstanceOf(body, 'URLSearchParams') ||
+    body instanceof MultipartBody
+  );
+}
+
+/**
+ * Read a serialized body as bytes for hashing
+ * @param body The serialized body
+ * @returns The bytes, or undefined for bodies that cannot be read up front (FormData, streams)
+ */
+export async function bodyBytes(body: BodyInit | null | undefined): Promise<Uint8Array | undefined> {
+  if (body === undefined || body === null) {
+    return new Uint8Array(0);
+  }
+  if (typeof body === 'string') {
+    return utf8Encode(body);
+  }
+  if (body instanceof ArrayBuffer) {
+    return new Uint8Array(body);
+  }
+  if (ArrayBuffer.isView(body)) {
+    return new Uint8Array(body.buffer, body.byteOffset, body.byteLength);
+  }
+  if (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) {
+    return utf8Encode(body.toString());
+  }
+  // React Native's Blob cannot be read as an ArrayBuffer
+  if (typeof Blob !== 'undefined' && body instanceof Blob && typeof body.arrayBuffer === 'function') {
+    return new Uint8Array(await body.arrayBuffer());
+  }
+  return undefined;
+}
+
+/**
+ * JSON serializer, used for plain objects and arrays
+ */
+export const jsonSerializer: BodySerializer = {
+  contentType: 'application/json',
+  canSerialize: body => typeof body === 'object' && body !== null && !isNativeBody(body),
+  serialize: body => JSON.stringify(body)
+};
+
+/**
+ * application/x-www-form-urlencoded serializer for objects and URLSearchParams.
+ * Nested objects and arrays use bracket notation.
+ */
+export const formSerializer: BodySerializer = {
+  contentType: 'application/x-www-form-urlencoded',
+  canSerialize: body => isInstanceOf(body, 'URLSearchParams'),
+  serialize: body =>
+    isInstanceOf(body, 'URLSearchParams') ? body.toString() : serializeQuery(body, { arrayFormat: 'brackets' })
+};
+
+/**
+ * Plain text serializer for strings
+ */
+export const textSerializer: BodySerializer = {
+  contentType: 'text/plain',
+  canSerialize: body => typeof body === 'string',
+  serialize: body => String(body)
+};
+
+/**
+ * Binary serializer for ArrayBuffer, typed arrays and Blobs, which are sent as they are
+ */
+export const binarySerializer: BodySerializer = {
+  contentType: 'application/octet-stream',
+  canSerialize: isBinary,
+  serialize: body => body
+};
+
+/**
+ * multipart/form-data serializer for FormData and MultipartBody. The
+ * Content-Type header is left to the transport, which adds the boundary.
+ */
+export const multipartSerializer: BodySerializer = {
+  contentType: 'multipart/form-data',
+  canSerialize: body => isInstanceOf(body, 'FormData') || body instanceof MultipartBody,
+  serialize: body => (body instanceof MultipartBody ? body.toFormData() : body)
+};
+
+/**
+ * Serializers registered by default, in registration order
+ */
+export const DEFAULT_SERIALIZERS: BodySerializer[] = [
+  jsonSerializer,
+  formSerializer,
+  textSerializer,
+  binarySerializer,
+  multipartSerializer
+];
+
+/**
+ * Registry of body serializers keyed by media type
+ */
+export class SerializerRegistry {
+  private serializers: BodySerializer[] = [];
+
+  /**
+   * Create a new SerializerRegistry
+   * @param serializers The initial serializers (default: DEFAULT_SERIALIZERS)
+   */
+  constructor(serializers: BodySerializer[] = DEFAULT_SERIALIZERS) {
+    serializers.forEach(serializer => this.register(serializer));
+  }
+
+  /**
+   * Register a serializer, replacing any serializer for the same media type.
+   * Later registrations take precedence when picking a serializer by body type.
+   * @param serializer The serializer to register
+   */
+  register(serializer: BodySerializer): void {
+    const mediaType = mediaTypeOf(serializer.contentType);
+    this.serializers = this.serializers.filter(existing => mediaTypeOf(existing.contentType) !== mediaType);
+    this.serializers.push(serializer);
+  }
+
+  /**
+   * Get the serializer for a Content-Type. Structured syntax suffixes such as
+   * application/vnd.api+json fall back to the serializer for application/json.
+   * @param contentType The Content-Type value
+   * @returns The serializer, or undefined if none is registered
+   */
+  get(contentType: string): BodySerializer | undefined {
+    const mediaType = mediaTypeOf(contentType);
+    const exact = this.serializers.find(serializer => mediaTypeOf(serializer.contentType) === mediaType);
+    if (exact) {
+      return exact;
+    }
+
+    const suffix = mediaType.match(/\+([a-z0-9.-]+)$/);
+    return suffix ? this.get(`application/${suffix[1]}`) : undefined;
+  }
+
+  /**
+   * Find the most recently registered serializer that accepts the body
+   * @param body The request body
+   * @returns The serializer, or undefined if none accepts the body
+   */
+  find(body: unknown): BodySerializer | undefined {
+    for (let i = this.serializers.length - 1; i >= 0; i--) {
+      const serializer = this.serializers[i];
+      if (serializer.canSerialize && serializer.canSerialize(body)) {
+        return serializer;
+      }
+    }
+    return undefined;
+  }
+}
+
+function isBinary(body: unknown): boolean {
+  return (
+    isInstanceOf(body, 'ArrayBuffer') ||
+    (typeof ArrayBuffer !== 'undefined' && ArrayBuffer.isView(body)) ||
+    isInstanceOf(body, 'Blob')
+  );
+}
+
+// Globals such as Blob and FormData are not available on every platform
+function isInstanceOf(value: unknown, globalName: string): boolean {
+  const constructor = (globalThis as unknown as Record<string, unknown>)[globalName];
+  return typeof constructor === 'function' && value instanceof constructor;
+}
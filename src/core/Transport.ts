@@ -0,0 +1,96 @@
+import { HTTPMethod } from '../types';
+import { AbortSignalPolyfill } from './NetworkRequestable';
+
+/**
+ * Progress of an upload or download
+ */
+export interface TransferProgress {
+  /** Bytes transferred so far */
+  loaded: number;
+  /** Total bytes, if known */
+  total?: number;
+}
+
+/**
+ * Callback receiving transfer progress
+ */
+export type ProgressCallback = (progress: TransferProgress) => void;
+
+/**
+ * A serialized request, ready to be sent by a Transport
+ */
+export interface TransportRequest {
+  url: string;
+  method: HTTPMethod;
+  headers: Record<string, string>;
+  body?: BodyInit;
+  /** Aborts the request on timeout or caller cancellation */
+  signal: AbortSignalPolyfill;
+  /** Whether to follow redirects or resolve with the 3xx response, if the transport supports it (default: follow) */
+  redirect?: 'follow' | 'manual';
+  /** Called as the body is uploaded, if the transport supports it */
+  onUploadProgress?: ProgressCallback;
+  /** Called as the response is downloaded, if the transport supports it */
+  onDownloadProgress?: ProgressCallback;
+}
+
+/**
+ * A request after serialization: the final URL, headers and body
+ */
+export type PreparedRequest = Pick<TransportRequest, 'url' | 'method' | 'headers' | 'body'>;
+
+/**
+ * Runs on each prepared request just before it is sent, e.g. to sign it, and
+ * returns the request to send
+ */
+export type BeforeSendHook = (request: PreparedRequest) => PreparedRequest | Promise<PreparedRequest>;
+
+/**
+ * Sends requests over the wire for BaseNetworkRequestable.
+ * Implementations resolve with the Response for any HTTP status, reject with
+ * an error named AbortError when the signal aborts, and reject with any other
+ * error when the request could not be sent.
+ */
+export interface Transport {
+  /**
+   * Whether a request sent with redirect 'manual' resolves with the 3xx
+   * response and its Location header (default: true). Browser fetch hides
+   * Location behind an opaque redirect, so BaseNetworkRequestable lets such
+   * transports follow redirects themselves rather than send a request twice.
+   */
+  readonly manualRedirects?: boolean;
+  /** Whether onUploadProgress is reported (default: true) */
+  readonly uploadProgress?: boolean;
+  send(request: TransportRequest): Promise<Response>;
+}
+
+/**
+ * Create the error transports reject with when a request is aborted
+ */
+export function abortError(): Error {
+  const error = new Error('The request was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/**
+ * Build a Response, leaving out the body for statuses that cannot have one
+ * @param body The response body
+ * @param status The HTTP status
+ * @param headers The response headers
+ * @param url The URL the response was received from
+ * @param statusText The status text
+ */
+export function createResponse(
+  body: BodyInit | null,
+  status: number,
+  headers: Record<string, string>,
+  url: string,
+  statusText: string = ''
+): Response {
+  const hasBody = ![101, 204, 205, 304].includes(status);
+  const response = new Response(hasBody ? body : null, { status, statusText, headers });
+  // Response has no constructor option for the URL
+  Object.defineProperty(response, 'url', { value: url });
+  return response;
+}
@@ -0,0 +1,38 @@
+/**
+ * Check whether an endpoint is an absolute URL such as https://uploads.example.com/files/1
+ */
+export function isAbsoluteURL(endpoint: string): boolean {
+  return /^[A-Za-z][A-Za-z0-9+.-]*:\/\//.test(endpoint);
+}
+
+/**
+ * Resolve a URL reference, such as a Location header, against the URL it came from
+ * @param reference An absolute URL, a protocol-relative URL, an absolute path or a relative path
+ * @param base The absolute URL to resolve against
+ * @returns The absolute URL
+ */
+export function resolveURL(reference: string, base: string): string {
+  if (isAbsoluteURL(reference)) {
+    return reference;
+  }
+  const match = base.match(/^([A-Za-z][A-Za-z0-9+.-]*:)\/\/([^/?#]*)([^?#]*)/);
+  if (!match) {
+    return reference;
+  }
+  const [, protocol, host, path] = match;
+  if (reference.startsWith('//')) {
+    return `${protocol}${reference}`;
+  }
+  if (reference.startsWith('/')) {
+    return `${protocol}//${host}${reference}`;
+  }
+  return `${protocol}//${host}${path.slice(0, path.lastIndexOf('/') + 1) || '/'}${reference}`;
+}
+
+/**
+ * Check whether two absolute URLs have the same scheme, host and port
+ */
+export function isSameOrigin(a: string, b: string): boolean {
+  const origin = (url: string) => url.match(/^[A-Za-z][A-Za-z0-9+.-]*:\/\/[^/?#]*/)?.[0].toLowerCase();
+  return origin(a) !== undefined && origin(a) === origin(b);
+}
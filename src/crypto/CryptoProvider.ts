@@ -0,0 +1,44 @@
+import { sha256 } from './sha256';
+import { hmacSha256 } from './hmac';
+
+/**
+ * Hash and MAC primitives used to sign requests. Implement it to use a native
+ * crypto module; the defaults are WebCrypto where available and plain JavaScript otherwise.
+ */
+export interface CryptoProvider {
+  /** SHA-256 digest of the data */
+  sha256(data: Uint8Array): Promise<Uint8Array>;
+  /** HMAC-SHA256 of the data with the key */
+  hmacSha256(key: Uint8Array, data: Uint8Array): Promise<Uint8Array>;
+}
+
+/**
+ * CryptoProvider in plain JavaScript, for React Native and other platforms
+ * without WebCrypto
+ */
+export const jsCryptoProvider: CryptoProvider = {
+  sha256: async data => sha256(data),
+  hmacSha256: async (key, data) => hmacSha256(key, data)
+};
+
+/**
+ * CryptoProvider backed by WebCrypto
+ * @param subtle The SubtleCrypto implementation (default: crypto.subtle)
+ */
+export function webCryptoProvider(subtle: SubtleCrypto = globalThis.crypto.subtle): CryptoProvider {
+  return {
+    sha256: async data => new Uint8Array(await subtle.digest('SHA-256', data)),
+    hmacSha256: async (key, data) => {
+      const cryptoKey = await subtle.importKey('raw', key, { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+      return new Uint8Array(await subtle.sign('HMAC', cryptoKey, data));
+    }
+  };
+}
+
+/**
+ * Get the WebCrypto provider if the platform has WebCrypto, otherwise the plain JavaScript one
+ */
+export function defaultCryptoProvider(): CryptoProvider {
+  const subtle = (globalThis as { crypto?: { subtle?: SubtleCrypto } }).crypto?.subtle;
+  return subtle ? webCryptoProvider(subtle) : jsCryptoProvider;
+}
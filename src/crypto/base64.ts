@@ -0,0 +1,55 @@
+import { HashInput, utf8Encode } from './sha256';
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+/**
+ * Encode data as standard base64 with padding. Strings are UTF-8 encoded.
+ * @param data The data to encode
+ * @returns The base64 string
+ */
+export function base64Encode(data: HashInput): string {
+  const bytes = typeof data === 'string' ? utf8Encode(data) : data instanceof Uint8Array ? data : new Uint8Array(data);
+  let result = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    result += ALPHABET[(chunk >> 18) & 0x3f] + ALPHABET[(chunk >> 12) & 0x3f];
+    result += i + 1 < bytes.length ? ALPHABET[(chunk >> 6) & 0x3f] : '=';
+    result += i + 2 < bytes.length ? ALPHABET[chunk & 0x3f] : '=';
+  }
+  return result;
+}
+
+/**
+ * Encode data as URL-safe base64 without padding (RFC 4648 section 5). Strings are UTF-8 encoded.
+ * @param data The data to encode
+ * @returns The base64url string
+ */
+export function base64UrlEncode(data: HashInput): string {
+  return base64Encode(data).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Decode standard or URL-safe base64, with or without padding
+ * @param value The base64 string
+ * @returns The decoded bytes
+ */
+export function base64Decode(value: string): Uint8Array {
+  const normalized = value.replace(/[\s=]/g, '').replace(/-/g, '+').replace(/_/g, '/');
+  const bytes = new Uint8Array(Math.floor((normalized.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let length = 0;
+  for (const char of normalized) {
+    const index = ALPHABET.indexOf(char);
+    if (index < 0) {
+      throw new Error(`Invalid base64 character "${char}"`);
+    }
+    buffer = (buffer << 6) | index;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[length++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes.subarray(0, length);
+}
@@ -0,0 +1,29 @@
+import { HashInput, Sha256, utf8Encode } from './sha256';
+
+// SHA-256 block size in bytes
+const BLOCK_SIZE = 64;
+
+/**
+ * Compute the HMAC-SHA256 of data (RFC 2104) in plain JavaScript
+ * @param key The secret key; strings are UTF-8 encoded
+ * @param data The data to authenticate
+ * @returns The 32-byte MAC
+ */
+export function hmacSha256(key: HashInput, data: HashInput): Uint8Array {
+  let keyBytes = typeof key === 'string' ? utf8Encode(key) : key instanceof Uint8Array ? key : new Uint8Array(key);
+  // Keys longer than a block are hashed first
+  if (keyBytes.length > BLOCK_SIZE) {
+    keyBytes = new Sha256().update(keyBytes).digest();
+  }
+
+  const inner = new Uint8Array(BLOCK_SIZE);
+  const outer = new Uint8Array(BLOCK_SIZE);
+  for (let i = 0; i < BLOCK_SIZE; i++) {
+    const byte = keyBytes[i] ?? 0;
+    inner[i] = byte ^ 0x36;
+    outer[i] = byte ^ 0x5c;
+  }
+
+  const innerHash = new Sha256().update(inner).update(data).digest();
+  return new Sha256().update(outer).update(innerHash).digest();
+}
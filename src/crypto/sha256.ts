@@ -0,0 +1,235 @@
+// SHA-256 round constants
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2
+]);
+
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19
+];
+
+/**
+ * Data accepted by the hash functions. Strings are UTF-8 encoded.
+ */
+export type HashInput = string | Uint8Array | ArrayBuffer;
+
+/**
+ * Incremental SHA-256 in plain JavaScript, for platforms without WebCrypto
+ */
+export class Sha256 {
+  private state = new Uint32Array(INITIAL_STATE);
+  private buffer = new Uint8Array(64);
+  private bufferLength = 0;
+  private bytesHashed = 0;
+  private words = new Uint32Array(64);
+  private finished = false;
+
+  /**
+   * Add data to the hash
+   * @param data The data to add
+   * @returns The hash, for chaining
+   */
+  update(data: HashInput): this {
+    if (this.finished) {
+      throw new Error('SHA-256 digest has already been computed');
+    }
+
+    const bytes = toBytes(data);
+    this.bytesHashed += bytes.length;
+    let offset = 0;
+
+    // Fill up a pending partial block first
+    if (this.bufferLength > 0) {
+      const take = Math.min(64 - this.bufferLength, bytes.length);
+      this.buffer.set(bytes.subarray(0, take), this.bufferLength);
+      this.bufferLength += take;
+      offset = take;
+      if (this.bufferLength === 64) {
+        this.processBlock(this.buffer, 0);
+        this.bufferLength = 0;
+      }
+    }
+
+    // Hash whole blocks straight from the input
+    while (offset + 64 <= bytes.length) {
+      this.processBlock(bytes, offset);
+      offset += 64;
+    }
+
+    // Keep the remainder for the next update
+    if (offset < bytes.length) {
+      this.buffer.set(bytes.subarray(offset), 0);
+      this.bufferLength = bytes.length - offset;
+    }
+    return this;
+  }
+
+  /**
+   * Finish the hash
+   * @returns The 32-byte digest
+   */
+  digest(): Uint8Array {
+    if (!this.finished) {
+      const bitLengthHigh = Math.floor(this.bytesHashed / 0x20000000);
+      const bitLengthLow = (this.bytesHashed << 3) >>> 0;
+
+      // Pad with 0x80, zeros and the 64-bit message length in bits
+      const padding = new Uint8Array(this.bufferLength < 56 ? 64 - this.bufferLength : 128 - this.bufferLength);
+      padding[0] = 0x80;
+      const view = new DataView(padding.buffer);
+      view.setUint32(padding.length - 8, bitLengthHigh);
+      view.setUint32(padding.length - 4, bitLengthLow);
+      const bytesHashed = this.bytesHashed;
+      this.update(padding);
+      this.bytesHashed = bytesHashed;
+      this.finished = true;
+    }
+
+    const result = new Uint8Array(32);
+    const view = new DataView(result.buffer);
+    this.state.forEach((word, index) => view.setUint32(index * 4, word));
+    return result;
+  }
+
+  /**
+   * Finish the hash
+   * @returns The digest as lower-case hex
+   */
+  hexDigest(): string {
+    return toHex(this.digest());
+  }
+
+  private processBlock(bytes: Uint8Array, offset: number): void {
+    const w = this.words;
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      w[i] = ((bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3]) >>> 0;
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotr(w[i - 15], 7) ^ rotr(w[i - 15], 18) ^ (w[i - 15] >>> 3);
+      const s1 = rotr(w[i - 2], 17) ^ rotr(w[i - 2], 19) ^ (w[i - 2] >>> 10);
+      w[i] = (w[i - 16] + s0 + w[i - 7] + s1) >>> 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let i = 0; i < 64; i++) {
+      const S1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + S1 + ch + K[i] + w[i]) >>> 0;
+      const S0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (S0 + maj) >>> 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) >>> 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) >>> 0;
+    }
+
+    const state = this.state;
+    state[0] += a;
+    state[1] += b;
+    state[2] += c;
+    state[3] += d;
+    state[4] += e;
+    state[5] += f;
+    state[6] += g;
+    state[7] += h;
+  }
+}
+
+/**
+ * Compute the SHA-256 digest of data
+ * @param data The data to hash
+ * @returns The 32-byte digest
+ */
+export function sha256(data: HashInput): Uint8Array {
+  return new Sha256().update(data).digest();
+}
+
+/**
+ * Encode bytes as lower-case hex
+ */
+export function toHex(bytes: Uint8Array): string {
+  let hex = '';
+  bytes.forEach(byte => {
+    hex += byte.toString(16).padStart(2, '0');
+  });
+  return hex;
+}
+
+/**
+ * Encode a string as UTF-8
+ */
+export function utf8Encode(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    let code = value.charCodeAt(i);
+    // Combine surrogate pairs into one code point
+    if (code >= 0xd800 && code < 0xdc00 && i + 1 < value.length) {
+      const next = value.charCodeAt(i + 1);
+      if (next >= 0xdc00 && next < 0xe000) {
+        code = 0x10000 + ((code - 0xd800) << 10) + (next - 0xdc00);
+        i++;
+      }
+    }
+
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(0xe0 | (code >> 12), 0x80 | ((code >> 6) & 0x3f), 0x80 | (code & 0x3f));
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function toBytes(data: HashInput): Uint8Array {
+  if (typeof data === 'string') {
+    return utf8Encode(data);
+  }
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+function rotr(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+/**
+ * Decode UTF-8 bytes into a string
+ */
+export function utf8Decode(bytes: Uint8Array): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    const byte = bytes[i];
+    let code: number;
+    if (byte < 0x80) {
+      code = byte;
+    } else if (byte >= 0xf0) {
+      code = ((byte & 0x07) << 18) | ((bytes[++i] & 0x3f) << 12) | ((bytes[++i] & 0x3f) << 6) | (bytes[++i] & 0x3f);
+    } else if (byte >= 0xe0) {
+      code = ((byte & 0x0f) << 12) | ((bytes[++i] & 0x3f) << 6) | (bytes[++i] & 0x3f);
+    } else {
+      code = ((byte & 0x1f) << 6) | (bytes[++i] & 0x3f);
+    }
+    result += String.fromCodePoint(code);
+  }
+  return result;
+}
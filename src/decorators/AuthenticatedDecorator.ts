@@ -1,88 +1,254 @@
-import { HTTPMethod, NetworkError } from '../types';
-import { NetworkRequestable } from '../core/NetworkRequestable';
+import { HTTPMethod, NetworkError, NetworkErrorType } from '../types';
+import {
+  AbortSignalPolyfill,
+  NetworkRequestable,
+  NetworkResponse,
+  RequestConfig,
+  ResolvedRequestConfig,
+  resolveRequestConfig
+} from '../core/NetworkRequestable';
+import { RequestBody } from '../core/Serializers';
+import { ResponseType } from '../core/ResponseDecoder';
+import { AuthScheme, AuthSchemeSelector, bearerAuth } from '../auth/AuthSchemes';
 
 /**
- * Decorator that adds authentication to requests
+ * Per-request settings read by AuthenticatedDecorator from RequestConfig.context
+ */
+export interface AuthContext {
+  /** Send the request without authentication, even if needsAuth matches */
+  skipAuth?: boolean;
+  /** Authenticate this request with a different scheme */
+  authScheme?: AuthScheme;
+}
+
+/**
+ * Provides the current authentication token, e.g. from memory or secure storage
+ */
+export type TokenProvider = () => string | null | undefined | Promise<string | null | undefined>;
+
+/**
+ * Token refresh options
+ */
+export interface AuthOptions {
+  /**
+   * Obtain and store a new token after a request fails with 401; resolves with
+   * the new token. Requests it makes through this client should set skipAuth.
+   */
+  refreshToken?: () => Promise<string | null | undefined>;
+  /** Called once when a refresh fails, e.g. to log the user out */
+  onAuthFailure?: (error: NetworkError) => void | Promise<void>;
+}
+
+/**
+ * Decorator that adds authentication to requests, as a Bearer token by default
+ * or with another AuthScheme chosen per endpoint. With a refreshToken hook, a
+ * request that fails with 401 is sent once more with a refreshed token;
+ * concurrent failures share a single refresh.
  */
 export class AuthenticatedDecorator implements NetworkRequestable {
   private wrapped: NetworkRequestable;
-  private tokenProvider: () => string | null | undefined;
+  private tokenProvider: TokenProvider;
   private needsAuth: (endpoint: string) => boolean;
-  private headerName: string;
+  private selectScheme: AuthSchemeSelector;
+  private options: AuthOptions;
+  private refreshing?: Promise<string>;
 
   /**
    * Create a new AuthenticatedDecorator
    * @param wrapped The NetworkRequestable to wrap
-   * @param tokenProvider Function that provides the authentication token
+   * @param tokenProvider Function that provides the authentication token, synchronously or as a promise
    * @param needsAuth Function that determines if an endpoint needs authentication
-   * @param headerName The header name to use for the token (default: 'Authorization')
+   * @param scheme The header name for a Bearer token, an AuthScheme, or a function choosing the scheme per endpoint (default: 'Authorization')
+   * @param options Token refresh options
    */
   constructor(
     wrapped: NetworkRequestable,
-    tokenProvider: () => string | null | undefined,
+    tokenProvider: TokenProvider,
     needsAuth: (endpoint: string) => boolean,
-    headerName: string = 'Authorization'
+    scheme: string | AuthScheme | AuthSchemeSelector = 'Authorization',
+    options: AuthOptions = {}
   ) {
     this.wrapped = wrapped;
     this.tokenProvider = tokenProvider;
     this.needsAuth = needsAuth;
-    this.headerName = headerName;
+    this.selectScheme = toSchemeSelector(scheme);
+    this.options = options;
   }
 
   /**
    * Make an authenticated network request
    * @param endpoint The API endpoint
-   * @param method The HTTP method
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
    * @param body Optional request body
    * @param responseType The expected response type
    * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
    * @returns A promise that resolves to the response data
    */
   async request<T>(
     endpoint: string,
-    method: HTTPMethod,
-    body?: Record<string, any>,
-    responseType?: new () => T,
-    headers: Record<string, string> = {}
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
   ): Promise<T> {
-    // Check if the endpoint needs authentication
-    if (this.needsAuth(endpoint)) {
-      // Get the token
-      const token = this.tokenProvider();
-      
-      // If no token is available, throw an error
-      if (!token) {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.withAuth(endpoint, config, authorized => this.wrapped.request<T>(endpoint, authorized));
+  }
+
+  /**
+   * Make an authenticated network request and resolve with the full response envelope
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the full response envelope
+   */
+  async requestRaw<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<NetworkResponse<T>> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.withAuth(endpoint, config, authorized => this.wrapped.requestRaw<T>(endpoint, authorized));
+  }
+
+  /**
+   * Run the operation with the credential if the endpoint needs it,
+   * refreshing the token and replaying the request once on 401
+   */
+  private async withAuth<R, T>(
+    endpoint: string,
+    config: ResolvedRequestConfig<T>,
+    operation: (config: ResolvedRequestConfig<T>) => Promise<R>
+  ): Promise<R> {
+    const context: AuthContext = config.context ?? {};
+
+    // If authentication is not needed, just pass through
+    if (context.skipAuth || !this.needsAuth(endpoint)) {
+      return operation(config);
+    }
+
+    const scheme = context.authScheme ?? this.selectScheme(endpoint);
+
+    // Schemes with their own credential, such as a fixed API key, are not refreshed
+    if (scheme.credential) {
+      const credential = await scheme.credential();
+      if (!credential) {
         throw NetworkError.unauthorized();
       }
-      
-      // Add the token to the headers
-      const authHeaders = {
-        ...headers,
-        [this.headerName]: token.startsWith('Bearer ') ? token : `Bearer ${token}`
-      };
-      
-      // Make the request with the authentication header
-      return this.wrapped.request(endpoint, method, body, responseType, authHeaders);
+      return operation(this.authorize(scheme, config, credential));
     }
-    
-    // If authentication is not needed, just pass through
-    return this.wrapped.request(endpoint, method, body, responseType, headers);
+
+    // Wait for a refresh in progress rather than send a token about to be replaced
+    const token = await this.currentToken();
+
+    // If no token is available, throw an error
+    if (!token) {
+      throw NetworkError.unauthorized();
+    }
+
+    try {
+      return await operation(this.authorize(scheme, config, token));
+    } catch (error) {
+      if (!this.options.refreshToken || !(error instanceof NetworkError) || error.type !== NetworkErrorType.UNAUTHORIZED) {
+        throw error;
+      }
+      return operation(this.authorize(scheme, config, await this.replacementToken(token, error)));
+    }
+  }
+
+  /**
+   * Get the token, after any refresh in progress
+   */
+  private async currentToken(): Promise<string | null | undefined> {
+    if (this.refreshing) {
+      return this.refreshing.catch(() => undefined);
+    }
+    return this.tokenProvider();
+  }
+
+  /**
+   * Get the token to replay a request with after the server rejected its token
+   */
+  private async replacementToken(rejected: string, error: NetworkError): Promise<string> {
+    // Join a refresh in progress, sharing its outcome
+    if (this.refreshing) {
+      return this.refreshing;
+    }
+    const current = await this.tokenProvider();
+    // Signed out in the meantime, e.g. after a failed refresh
+    if (!current) {
+      throw error;
+    }
+    // Another request has already replaced the rejected token
+    return current !== rejected ? current : this.refresh();
+  }
+
+  /**
+   * Refresh the token, sharing one refresh between concurrent callers
+   */
+  private refresh(): Promise<string> {
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        try {
+          const token = await this.options.refreshToken!();
+          if (!token) {
+            throw NetworkError.unauthorized();
+          }
+          return token;
+        } catch (error) {
+          const failure = error instanceof NetworkError ? error : NetworkError.unauthorized().withDetails({ cause: error });
+          await this.options.onAuthFailure?.(failure);
+          throw failure;
+        } finally {
+          this.refreshing = undefined;
+        }
+      })();
+    }
+    return this.refreshing;
+  }
+
+  /**
+   * Add the credential with the scheme
+   */
+  private authorize<T>(scheme: AuthScheme, config: ResolvedRequestConfig<T>, credential: string): ResolvedRequestConfig<T> {
+    return scheme.apply(config, credential) as ResolvedRequestConfig<T>;
+  }
+}
+
+/**
+ * Normalize the scheme argument: a header name means a Bearer token in that header
+ */
+function toSchemeSelector(scheme: string | AuthScheme | AuthSchemeSelector): AuthSchemeSelector {
+  if (typeof scheme === 'function') {
+    return scheme;
   }
+  const fixed = typeof scheme === 'string' ? bearerAuth(scheme) : scheme;
+  return () => fixed;
 }
 
 /**
  * Extension function to add authentication to a NetworkRequestable
  * @param networkRequestable The NetworkRequestable to extend
- * @param tokenProvider Function that provides the authentication token
+ * @param tokenProvider Function that provides the authentication token, synchronously or as a promise
  * @param needsAuth Function that determines if an endpoint needs authentication
- * @param headerName The header name to use for the token (default: 'Authorization')
+ * @param scheme The header name for a Bearer token, an AuthScheme, or a function choosing the scheme per endpoint (default: 'Authorization')
+ * @param options Token refresh options
  * @returns A new NetworkRequestable with authentication
  */
 export function authenticated(
   networkRequestable: NetworkRequestable,
-  tokenProvider: () => string | null | undefined,
+  tokenProvider: TokenProvider,
   needsAuth: (endpoint: string) => boolean,
-  headerName: string = 'Authorization'
+  scheme: string | AuthScheme | AuthSchemeSelector = 'Authorization',
+  options: AuthOptions = {}
 ): NetworkRequestable {
-  return new AuthenticatedDecorator(networkRequestable, tokenProvider, needsAuth, headerName);
+  return new AuthenticatedDecorator(networkRequestable, tokenProvider, needsAuth, scheme, options);
 }
@@ -1,5 +1,20 @@
 import { HTTPMethod } from '../types';
-import { NetworkRequestable, generateCacheKey } from '../core/NetworkRequestable';
+import {
+  AbortSignalPolyfill,
+  NetworkRequestable,
+  NetworkResponse,
+  RequestConfig,
+  ResolvedRequestConfig,
+  generateCacheKey,
+  isCacheableBody,
+  resolveRequestConfig
+} from '../core/NetworkRequestable';
+import { RequestBody } from '../core/Serializers';
+import { ResponseType } from '../core/ResponseDecoder';
+import { PathParams } from '../core/PathTemplate';
+import { isAbsoluteURL } from '../core/URL';
+import { BaseURLProvider } from '../core/Environments';
+import { sha256, toHex } from '../crypto/sha256';
 
 /**
  * Interface for cache implementations
@@ -11,6 +26,28 @@ export interface Cache {
   clear(): void;
 }
 
+/**
+ * Per-request settings read by CacheDecorator from RequestConfig.context
+ */
+export interface CacheContext {
+  /** Neither read from nor write to the cache for this request */
+  skipCache?: boolean;
+  /** Time-to-live override for this request, in milliseconds (null for no expiry) */
+  cacheTtl?: number | null;
+}
+
+/**
+ * Settings that decide which requests share a cache key
+ */
+export interface CacheOptions {
+  /** Request headers whose values are part of the cache key, e.g. Authorization so users do not share responses */
+  varyHeaders?: string[];
+  /** Query parameters holding credentials, e.g. an API key, whose values are hashed like the vary headers */
+  varyQuery?: string[];
+  /** The EnvironmentRegistry of the wrapped client, so each environment's responses are cached separately */
+  baseURL?: BaseURLProvider;
+}
+
 /**
  * In-memory cache implementation
  */
@@ -59,6 +96,9 @@ export class CacheDecorator implements NetworkRequestable {
   private cache: Cache;
   private ttl: number | null;
   private cacheMethods: HTTPMethod[];
+  private varyHeaders: string[];
+  private baseURL?: BaseURLProvider;
+  private varyQuery: string[];
 
   /**
    * Create a new CacheDecorator
@@ -66,56 +106,75 @@ export class CacheDecorator implements NetworkRequestable {
    * @param cache The cache implementation to use
    * @param ttl Time-to-live in milliseconds (null for no expiry)
    * @param cacheMethods HTTP methods to cache (default: GET only)
+   * @param options Cache key settings
    */
   constructor(
     wrapped: NetworkRequestable,
     cache: Cache = new MemoryCache(),
     ttl: number | null = null,
-    cacheMethods: HTTPMethod[] = [HTTPMethod.GET]
+    cacheMethods: HTTPMethod[] = [HTTPMethod.GET],
+    options: CacheOptions = {}
   ) {
     this.wrapped = wrapped;
     this.cache = cache;
     this.ttl = ttl;
     this.cacheMethods = cacheMethods;
+    this.varyHeaders = (options.varyHeaders ?? []).map(name => name.toLowerCase());
+    this.baseURL = options.baseURL;
+    this.varyQuery = options.varyQuery ?? [];
   }
 
   /**
    * Make a cached network request
    * @param endpoint The API endpoint
-   * @param method The HTTP method
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
    * @param body Optional request body
    * @param responseType The expected response type
    * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
    * @returns A promise that resolves to the response data
    */
   async request<T>(
     endpoint: string,
-    method: HTTPMethod,
-    body?: Record<string, any>,
-    responseType?: new () => T,
-    headers: Record<string, string> = {}
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
   ): Promise<T> {
-    // Only cache methods specified in cacheMethods
-    if (this.cacheMethods.includes(method)) {
-      const cacheKey = generateCacheKey(endpoint, method, body);
-      
-      // Try to get from cache
-      const cachedResponse = this.cache.get<T>(cacheKey);
-      if (cachedResponse !== null) {
-        return cachedResponse;
-      }
-      
-      // If not in cache, make the request
-      const response = await this.wrapped.request<T>(endpoint, method, body, responseType, headers);
-      
-      // Cache the response
-      this.cache.set(cacheKey, response, this.ttl ?? undefined);
-      
-      return response;
-    }
-    
-    // If not a cacheable method, just pass through
-    return this.wrapped.request<T>(endpoint, method, body, responseType, headers);
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.withCache(
+      this.cacheKey(endpoint, config),
+      config,
+      () => this.wrapped.request<T>(endpoint, config)
+    );
+  }
+
+  /**
+   * Make a cached network request and resolve with the full response envelope.
+   * Envelopes are cached separately from the data returned by request().
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the full response envelope
+   */
+  async requestRaw<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<NetworkResponse<T>> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.withCache(
+      rawCacheKey(this.cacheKey(endpoint, config)),
+      config,
+      () => this.wrapped.requestRaw<T>(endpoint, config)
+    );
   }
 
   /**
@@ -130,15 +189,94 @@ export class CacheDecorator implements NetworkRequestable {
    * @param endpoint The API endpoint
    * @param method The HTTP method
    * @param body Optional request body
+   * @param query Optional query parameters
+   * @param params Optional path parameters, when endpoint is a template
+   * @param service Optional service, when the request named one
+   * @param headers Optional request headers, when the cache varies by headers
    */
   invalidateCache(
     endpoint: string,
     method: HTTPMethod,
-    body?: Record<string, any>
+    body?: RequestBody,
+    query?: Record<string, any>,
+    params?: PathParams,
+    service?: string,
+    headers: Record<string, string> = {}
   ): void {
-    const cacheKey = generateCacheKey(endpoint, method, body);
+    const cacheKey = this.cacheKey(endpoint, { method, body, query, params, service, headers });
     this.cache.remove(cacheKey);
+    this.cache.remove(rawCacheKey(cacheKey));
+  }
+
+  /**
+   * Generate the cache key for a request. Relative endpoints are keyed by the
+   * base URL they resolve to in the active environment. Values of the vary
+   * headers and vary query parameters are hashed, so credentials are not
+   * stored in the cache key.
+   */
+  private cacheKey(endpoint: string, config: ResolvedRequestConfig): string {
+    const query = config.query ? { ...config.query } : undefined;
+    const queryValues = this.varyQuery.map(name => {
+      const value = query?.[name];
+      delete query?.[name];
+      return value === undefined || value === null ? '' : String(value);
+    });
+    let key = generateCacheKey(
+      endpoint,
+      config.method,
+      config.body,
+      query,
+      config.params,
+      config.service,
+      config.queryOptions
+    );
+    if (this.baseURL && !isAbsoluteURL(endpoint)) {
+      key = `${key}:base=${this.baseURL.baseURL(config.service)}`;
+    }
+    const values = this.varyHeaders.map(name => {
+      const header = Object.keys(config.headers).find(existing => existing.toLowerCase() === name);
+      return header === undefined ? '' : config.headers[header];
+    }).concat(queryValues);
+    return values.some(value => value !== '') ? `${key}:vary=${toHex(sha256(values.join('\n')))}` : key;
   }
+
+  /**
+   * Serve the operation from the cache, or run it and cache the result
+   */
+  private async withCache<R>(
+    cacheKey: string,
+    config: ResolvedRequestConfig,
+    operation: () => Promise<R>
+  ): Promise<R> {
+    const context: CacheContext = config.context ?? {};
+
+    // If not a cacheable method or body, or the request skips the cache, just pass through
+    if (!this.cacheMethods.includes(config.method) || !isCacheableBody(config.body) || context.skipCache) {
+      return operation();
+    }
+
+    // Try to get from cache
+    const cachedResponse = this.cache.get<R>(cacheKey);
+    if (cachedResponse !== null) {
+      return cachedResponse;
+    }
+    
+    // If not in cache, make the request
+    const response = await operation();
+    
+    // Cache the response
+    const ttl = context.cacheTtl !== undefined ? context.cacheTtl : this.ttl;
+    this.cache.set(cacheKey, response, ttl ?? undefined);
+    
+    return response;
+  }
+}
+
+/**
+ * Key under which the full response envelope for a request is cached
+ */
+function rawCacheKey(cacheKey: string): string {
+  return `raw:${cacheKey}`;
 }
 
 /**
@@ -147,13 +285,15 @@ export class CacheDecorator implements NetworkRequestable {
  * @param cache The cache implementation to use
  * @param ttl Time-to-live in milliseconds (null for no expiry)
  * @param cacheMethods HTTP methods to cache (default: GET only)
+ * @param options Cache key settings
  * @returns A new NetworkRequestable with caching
  */
 export function cached(
   networkRequestable: NetworkRequestable,
   cache: Cache = new MemoryCache(),
   ttl: number | null = null,
-  cacheMethods: HTTPMethod[] = [HTTPMethod.GET]
+  cacheMethods: HTTPMethod[] = [HTTPMethod.GET],
+  options: CacheOptions = {}
 ): CacheDecorator {
-  return new CacheDecorator(networkRequestable, cache, ttl, cacheMethods);
+  return new CacheDecorator(networkRequestable, cache, ttl, cacheMethods, options);
 }
@@ -1,5 +1,16 @@
 import { HTTPMethod, NetworkError, NetworkErrorType } from '../types';
-import { NetworkRequestable } from '../core/NetworkRequestable';
+import {
+  AbortSignalPolyfill,
+  NetworkRequestable,
+  NetworkResponse,
+  RequestConfig,
+  ResolvedRequestConfig,
+  remainingTime,
+  resolveRequestConfig,
+  throwIfCancelled
+} from '../core/NetworkRequestable';
+import { RequestBody } from '../core/Serializers';
+import { ResponseType } from '../core/ResponseDecoder';
 
 /**
  * Fallback options
@@ -8,6 +19,14 @@ export interface FallbackOptions {
   fallbackErrors: NetworkErrorType[];
 }
 
+/**
+ * Per-request settings read by FallbackDecorator from RequestConfig.context
+ */
+export interface FallbackContext {
+  /** Only try the primary client for this request */
+  skipFallback?: boolean;
+}
+
 /**
  * Default fallback options
  */
@@ -46,25 +65,62 @@ export class FallbackDecorator implements NetworkRequestable {
   /**
    * Make a network request with fallback functionality
    * @param endpoint The API endpoint
-   * @param method The HTTP method
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
    * @param body Optional request body
    * @param responseType The expected response type
    * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
    * @returns A promise that resolves to the response data
    */
   async request<T>(
     endpoint: string,
-    method: HTTPMethod,
-    body?: Record<string, any>,
-    responseType?: new () => T,
-    headers: Record<string, string> = {}
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
   ): Promise<T> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.withFallback(client => client.request<T>(endpoint, config), config);
+  }
+
+  /**
+   * Make a network request with fallback functionality and resolve with the full response envelope
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the full response envelope
+   */
+  async requestRaw<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<NetworkResponse<T>> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.withFallback(client => client.requestRaw<T>(endpoint, config), config);
+  }
+
+  /**
+   * Run the operation against the primary client, falling back on eligible errors.
+   * Cancelled requests never fall back.
+   */
+  private async withFallback<R>(
+    operation: (client: NetworkRequestable) => Promise<R>,
+    config: ResolvedRequestConfig
+  ): Promise<R> {
+    const context: FallbackContext = config.context ?? {};
     try {
       // Try the primary request
-      return await this.primary.request<T>(endpoint, method, body, responseType, headers);
+      return await operation(this.primary);
     } catch (error) {
-      // Only use fallback if it's a NetworkError
-      if (!(error instanceof NetworkError)) {
+      // Only use fallback if it's a NetworkError and the request allows it
+      if (!(error instanceof NetworkError) || context.skipFallback) {
         throw error;
       }
       
@@ -78,8 +134,15 @@ export class FallbackDecorator implements NetworkRequestable {
         throw error;
       }
       
+      // Don't start the fallback if the caller has given up or the deadline has passed
+      throwIfCancelled(config.signal);
+      const remaining = remainingTime(config);
+      if (remaining !== undefined && remaining <= 0) {
+        throw error;
+      }
+
       // Try the fallback
-      return await this.fallback.request<T>(endpoint, method, body, responseType, headers);
+      return await operation(this.fallback);
     }
   }
 }
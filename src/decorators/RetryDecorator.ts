@@ -1,13 +1,41 @@
 import { HTTPMethod, NetworkError, NetworkErrorType } from '../types';
-import { NetworkRequestable } from '../core/NetworkRequestable';
+import {
+  AbortSignalPolyfill,
+  NetworkRequestable,
+  NetworkResponse,
+  RequestConfig,
+  ResolvedRequestConfig,
+  remainingTime,
+  resolveRequestConfig,
+  throwIfCancelled
+} from '../core/NetworkRequestable';
+import { RequestBody } from '../core/Serializers';
+import { ResponseType } from '../core/ResponseDecoder';
 
 /**
  * Create a promise that resolves after the specified delay
  * @param ms Delay in milliseconds
- * @returns Promise that resolves after the delay
+ * @param signal Optional signal that interrupts the delay
+ * @returns Promise that resolves after the delay, or rejects with NetworkError.cancelled()
  */
-export const delay = (ms: number): Promise<void> => {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export const delay = (ms: number, signal?: AbortSignalPolyfill): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(NetworkError.cancelled());
+      return;
+    }
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const onAbort = () => {
+      clearTimeout(timeoutId);
+      reject(NetworkError.cancelled());
+    };
+    signal?.addEventListener('abort', onAbort);
+    timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+  });
 };
 
 /**
@@ -21,6 +49,14 @@ export interface RetryOptions {
   retryableErrors: NetworkErrorType[];
 }
 
+/**
+ * Per-request settings read by RetryDecorator from RequestConfig.context
+ */
+export interface RetryContext {
+  /** Override retry options for this request, or false to disable retries */
+  retry?: Partial<RetryOptions> | false;
+}
+
 /**
  * Default retry options
  */
@@ -59,27 +95,63 @@ export class RetryDecorator implements NetworkRequestable {
   /**
    * Make a network request with retry functionality
    * @param endpoint The API endpoint
-   * @param method The HTTP method
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
    * @param body Optional request body
    * @param responseType The expected response type
    * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
    * @returns A promise that resolves to the response data
    */
   async request<T>(
     endpoint: string,
-    method: HTTPMethod,
-    body?: Record<string, any>,
-    responseType?: new () => T,
-    headers: Record<string, string> = {}
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
   ): Promise<T> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.withRetry(() => this.wrapped.request<T>(endpoint, config), config);
+  }
+
+  /**
+   * Make a network request with retry functionality and resolve with the full response envelope
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the full response envelope
+   */
+  async requestRaw<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<NetworkResponse<T>> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.withRetry(() => this.wrapped.requestRaw<T>(endpoint, config), config);
+  }
+
+  /**
+   * Run the operation, retrying retryable errors with exponential backoff.
+   * Cancellation is never retried and interrupts the backoff wait, and no
+   * retry starts once the wait would pass the request deadline.
+   */
+  private async withRetry<R>(operation: () => Promise<R>, config: ResolvedRequestConfig): Promise<R> {
+    const options = this.resolveOptions(config);
     let lastError: NetworkError | null = null;
     let attempt = 0;
-    let waitTime = this.options.initialDelay;
+    let waitTime = options.initialDelay;
 
-    while (attempt < this.options.maxAttempts) {
+    while (attempt < options.maxAttempts) {
       try {
         // Make the request
-        return await this.wrapped.request<T>(endpoint, method, body, responseType, headers);
+        throwIfCancelled(config.signal);
+        return await operation();
       } catch (error) {
         // Only retry if it's a NetworkError
         if (!(error instanceof NetworkError)) {
@@ -87,9 +159,10 @@ export class RetryDecorator implements NetworkRequestable {
         }
 
         lastError = error;
+        error.attempts = attempt + 1;
         
         // Check if this error type is retryable
-        if (!this.options.retryableErrors.includes(error.type)) {
+        if (error.type === NetworkErrorType.CANCELLED || !options.retryableErrors.includes(error.type)) {
           throw error;
         }
         
@@ -99,15 +172,21 @@ export class RetryDecorator implements NetworkRequestable {
         }
 
         // If this was the last attempt, throw the error
-        if (attempt + 1 >= this.options.maxAttempts) {
+        if (attempt + 1 >= options.maxAttempts) {
+          throw error;
+        }
+
+        // Don't wait for a retry that would end after the request deadline
+        const remaining = remainingTime(config);
+        if (remaining !== undefined && remaining <= waitTime) {
           throw error;
         }
 
         // Wait before retrying
-        await delay(waitTime);
+        await delay(waitTime, config.signal);
         
         // Increase the delay for the next attempt (with exponential backoff)
-        waitTime = Math.min(waitTime * this.options.backoffFactor, this.options.maxDelay);
+        waitTime = Math.min(waitTime * options.backoffFactor, options.maxDelay);
         attempt++;
       }
     }
@@ -115,6 +194,17 @@ export class RetryDecorator implements NetworkRequestable {
     // This should never happen, but TypeScript requires it
     throw lastError || new NetworkError(NetworkErrorType.CUSTOM, 'Unknown error during retry');
   }
+
+  /**
+   * Apply the per-request retry override from the request context
+   */
+  private resolveOptions(config: ResolvedRequestConfig): RetryOptions {
+    const context: RetryContext = config.context ?? {};
+    if (context.retry === false) {
+      return { ...this.options, maxAttempts: 1 };
+    }
+    return { ...this.options, ...context.retry };
+  }
 }
 
 /**
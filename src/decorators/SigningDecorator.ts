@@ -0,0 +1,122 @@
+import { HTTPMethod } from '../types';
+import {
+  AbortSignalPolyfill,
+  NetworkRequestable,
+  NetworkResponse,
+  RequestConfig,
+  ResolvedRequestConfig,
+  resolveRequestConfig
+} from '../core/NetworkRequestable';
+import { RequestBody } from '../core/Serializers';
+import { ResponseType } from '../core/ResponseDecoder';
+import { RequestSigner } from '../signing/RequestSigner';
+
+/**
+ * Per-request settings read by SigningDecorator from RequestConfig.context
+ */
+export interface SigningContext {
+  /** Send the request unsigned, even if needsSigning matches */
+  skipSigning?: boolean;
+}
+
+/**
+ * Decorator that signs requests, e.g. with HmacSigner or SigV4Signer. The
+ * signature covers the final URL, headers and serialized body, so the signer
+ * runs through the request's beforeSend hook when BaseNetworkRequestable sends
+ * it; retries and redirect hops are signed again with a fresh timestamp.
+ */
+export class SigningDecorator implements NetworkRequestable {
+  private wrapped: NetworkRequestable;
+  private signer: RequestSigner;
+  private needsSigning: (endpoint: string) => boolean;
+
+  /**
+   * Create a new SigningDecorator
+   * @param wrapped The NetworkRequestable to wrap
+   * @param signer Signs the serialized requests
+   * @param needsSigning Function that determines if an endpoint needs signing (default: all endpoints)
+   */
+  constructor(
+    wrapped: NetworkRequestable,
+    signer: RequestSigner,
+    needsSigning: (endpoint: string) => boolean = () => true
+  ) {
+    this.wrapped = wrapped;
+    this.signer = signer;
+    this.needsSigning = needsSigning;
+  }
+
+  /**
+   * Make a signed network request
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the response data
+   */
+  async request<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<T> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.wrapped.request<T>(endpoint, this.withSigning(endpoint, config));
+  }
+
+  /**
+   * Make a signed network request and resolve with the full response envelope
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the full response envelope
+   */
+  async requestRaw<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<NetworkResponse<T>> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    return this.wrapped.requestRaw<T>(endpoint, this.withSigning(endpoint, config));
+  }
+
+  /**
+   * Add the signer to the request's beforeSend hook, after any hook already set
+   */
+  private withSigning<T>(endpoint: string, config: ResolvedRequestConfig<T>): ResolvedRequestConfig<T> {
+    const context: SigningContext = config.context ?? {};
+    if (context.skipSigning || !this.needsSigning(endpoint)) {
+      return config;
+    }
+    const previous = config.beforeSend;
+    return {
+      ...config,
+      beforeSend: async request => this.signer.sign(previous ? await previous(request) : request)
+    };
+  }
+}
+
+/**
+ * Extension function to sign the requests of a NetworkRequestable
+ * @param networkRequestable The NetworkRequestable to extend
+ * @param signer Signs the serialized requests
+ * @param needsSigning Function that determines if an endpoint needs signing (default: all endpoints)
+ * @returns A new NetworkRequestable that signs requests
+ */
+export function signed(
+  networkRequestable: NetworkRequestable,
+  signer: RequestSigner,
+  needsSigning: (endpoint: string) => boolean = () => true
+): NetworkRequestable {
+  return new SigningDecorator(networkRequestable, signer, needsSigning);
+}
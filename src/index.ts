@@ -1,58 +1,282 @@
-import { BaseNetworkRequestable } from "./core/BaseNetworkRequestable";
+import {
+  BaseNetworkRequestable,
+  BaseNetworkRequestableOptions,
+} from "./core/BaseNetworkRequestable";
+import { BaseURLProvider } from "./core/Environments";
 
 // Export types
-export { HTTPMethod, NetworkError, NetworkErrorType } from "./types";
+export {
+  HTTPMethod,
+  NetworkError,
+  NetworkErrorDetails,
+  NetworkErrorRequest,
+  NetworkErrorType,
+  ProblemDetails,
+  REDACTED,
+  REDACTED_HEADERS,
+  redactHeaders,
+} from "./types";
 
 // Export core components
 export {
+  AbortSignalPolyfill,
   NetworkRequestable,
+  NetworkResponse,
+  RedirectPolicy,
+  RequestConfig,
+  RequestContext,
+  ResolvedRequestConfig,
   RequestOptions,
   generateCacheKey,
+  isCacheableBody,
+  remainingTime,
+  resolveRequestConfig,
+  throwIfCancelled,
+  throwIfDeadlineExceeded,
 } from "./core/NetworkRequestable";
-export { BaseNetworkRequestable } from "./core/BaseNetworkRequestable";
+export {
+  BaseNetworkRequestable,
+  BaseNetworkRequestableOptions,
+  DEFAULT_MAX_REDIRECTS,
+} from "./core/BaseNetworkRequestable";
+export { PathParams, expandPath, isPathTemplate } from "./core/PathTemplate";
+export { isAbsoluteURL, isSameOrigin, resolveURL } from "./core/URL";
+export {
+  ArrayFormat,
+  DEFAULT_QUERY_OPTIONS,
+  QueryParams,
+  QuerySerializerOptions,
+  appendQuery,
+  encodeQueryComponent,
+  normalizeQuery,
+  parseQuery,
+  serializeQuery,
+} from "./core/QueryString";
+export { MultipartBody, MultipartFile, MultipartPart, ReactNativeFile } from "./core/Multipart";
+export {
+  BodySerializer,
+  DEFAULT_SERIALIZERS,
+  RequestBody,
+  SerializerRegistry,
+  binarySerializer,
+  bodyBytes,
+  formSerializer,
+  jsonSerializer,
+  mediaTypeOf,
+  multipartSerializer,
+  textSerializer,
+} from "./core/Serializers";
+export {
+  DEFAULT_PARSERS,
+  ParserRegistry,
+  ResponseFormat,
+  ResponseParser,
+  arrayBufferParser,
+  blobParser,
+  jsonParser,
+  ndjsonParser,
+  textParser,
+} from "./core/Parsers";
+export {
+  DecodableType,
+  DecoderFunction,
+  ResponseSchema,
+  ResponseType,
+  decodeResponse,
+  decodeWith,
+  describeDecodeError,
+  formatPath,
+} from "./core/ResponseDecoder";
+export {
+  BeforeSendHook,
+  PreparedRequest,
+  ProgressCallback,
+  TransferProgress,
+  Transport,
+  TransportRequest,
+  abortError,
+  createResponse,
+} from "./core/Transport";
+export { RequestTimer, RequestTimerOptions } from "./core/RequestTimer";
+export {
+  Cookie,
+  CookieJar,
+  CookieJarOptions,
+  CookieStorage,
+  getSetCookies,
+} from "./core/CookieJar";
+export {
+  BaseURLProvider,
+  DEFAULT_SERVICE,
+  EnvironmentListener,
+  EnvironmentRegistry,
+  EnvironmentRegistryOptions,
+  ServiceURLs,
+  singleBaseURL,
+} from "./core/Environments";
+export { FetchTransport } from "./transports/FetchTransport";
+export {
+  XHRTransport,
+  XHRTransportOptions,
+  parseResponseHeaders,
+} from "./transports/XHRTransport";
+export {
+  InterceptedRequest,
+  RequestInterceptor,
+  ResponseInterceptor,
+  InterceptorChain,
+} from "./core/Interceptors";
+export { HashInput, Sha256, sha256, toHex, utf8Decode, utf8Encode } from "./crypto/sha256";
+export { base64Decode, base64Encode, base64UrlEncode } from "./crypto/base64";
+export { hmacSha256 } from "./crypto/hmac";
+export {
+  CryptoProvider,
+  defaultCryptoProvider,
+  jsCryptoProvider,
+  webCryptoProvider,
+} from "./crypto/CryptoProvider";
+
+// Export transfers
+export {
+  DEFAULT_DOWNLOAD_OPTIONS,
+  DownloadManager,
+  DownloadOptions,
+  DownloadResult,
+  DownloadSink,
+  DownloadState,
+  DownloadTask,
+  MemorySink,
+  parseContentRange,
+} from "./transfers/DownloadManager";
+export {
+  DEFAULT_TUS_OPTIONS,
+  MemoryUrlStorage,
+  TUS_VERSION,
+  TusClient,
+  TusUpload,
+  TusUploadOptions,
+  TusUploadResult,
+  TusUploadState,
+  UploadSource,
+  UploadUrlStorage,
+  encodeMetadata,
+} from "./transfers/TusClient";
 
 // Export decorators
 export {
+  AuthContext,
+  AuthOptions,
   AuthenticatedDecorator,
+  TokenProvider,
   authenticated,
 } from "./decorators/AuthenticatedDecorator";
+export {
+  ApiKeyPlacement,
+  AuthScheme,
+  AuthSchemeSelector,
+  apiKeyAuth,
+  authSchemesByPrefix,
+  basicAuth,
+  bearerAuth,
+  tokenAuth,
+} from "./auth/AuthSchemes";
+export {
+  DEFAULT_REFRESH_WINDOW,
+  TokenManager,
+  TokenManagerOptions,
+  TokenSet,
+  TokenStorage,
+  decodeJwt,
+  jwtExpiry,
+} from "./auth/TokenManager";
+export {
+  AuthorizationRequest,
+  OAuth2Client,
+  OAuth2ClientOptions,
+  OAuth2Config,
+  OAuth2TokenResponse,
+  createCodeChallenge,
+  createCodeVerifier,
+} from "./auth/OAuth2Client";
 
 export {
   Cache,
+  CacheContext,
+  CacheOptions,
   MemoryCache,
   CacheDecorator,
   cached,
 } from "./decorators/CacheDecorator";
 
 export {
+  RetryContext,
   RetryOptions,
   DEFAULT_RETRY_OPTIONS,
   RetryDecorator,
+  delay,
   retry,
 } from "./decorators/RetryDecorator";
 
 export {
+  FallbackContext,
   FallbackOptions,
   DEFAULT_FALLBACK_OPTIONS,
   FallbackDecorator,
   fallback,
 } from "./decorators/FallbackDecorator";
 
+export { SigningContext, SigningDecorator, signed } from "./decorators/SigningDecorator";
+export { RequestSigner, createCanonicalRequest } from "./signing/RequestSigner";
+export { HmacSigner, HmacSignerOptions } from "./signing/HmacSigner";
+export { AwsCredentials, SigV4Signer, SigV4SignerOptions } from "./signing/SigV4Signer";
+
+export {
+  CacheLayerOptions,
+  ClientLayer,
+  ClientLayerKind,
+  ClientLayerTypes,
+  DEFAULT_LAYER_ORDER,
+  DecoratorKind,
+  NetworkClient,
+  NetworkClientBuilder,
+} from "./core/NetworkClientBuilder";
+
+export {
+  Middleware,
+  MiddlewareContext,
+  MiddlewareDecorator,
+  Next,
+  compose,
+  fromDecorator,
+  toDecorator,
+  withMiddleware,
+} from "./middleware/Middleware";
+
 // Export mocks for testing
-export { MockNetworkRequestable } from "./mocks/MockNetworkRequestable";
+export {
+  MockNetworkRequestable,
+  MockRequestRecord,
+} from "./mocks/MockNetworkRequestable";
 export { MockCache } from "./mocks/MockCache";
+export {
+  MemoryHandler,
+  MemoryResponse,
+  MemoryTransport,
+} from "./mocks/MemoryTransport";
 
 /**
  * Create a network client with the specified decorators
- * @param baseURL The base URL for all requests
+ * @param baseURL The base URL for all requests, or an EnvironmentRegistry with the base URLs of several services
  * @param defaultHeaders Default headers to include in all requests
  * @param timeoutMs Request timeout in milliseconds
+ * @param options Additional settings, such as the transport, query string serialization, body serializers and response parsers
  * @returns A NetworkRequestable instance
  */
 export function createNetworkClient(
-  baseURL: string,
+  baseURL: string | BaseURLProvider,
   defaultHeaders: Record<string, string> = {},
-  timeoutMs: number = 30000
+  timeoutMs: number = 30000,
+  options: BaseNetworkRequestableOptions = {}
 ): BaseNetworkRequestable {
-  return new BaseNetworkRequestable(baseURL, defaultHeaders, timeoutMs);
+  return new BaseNetworkRequestable(baseURL, defaultHeaders, timeoutMs, options);
 }
@@ -0,0 +1,232 @@
+import { HTTPMethod, NetworkError } from '../types';
+import {
+  AbortSignalPolyfill,
+  NetworkRequestable,
+  NetworkResponse,
+  RequestConfig,
+  ResolvedRequestConfig,
+  resolveRequestConfig
+} from '../core/NetworkRequestable';
+import { RequestBody } from '../core/Serializers';
+import { ResponseType } from '../core/ResponseDecoder';
+
+/**
+ * The request and response passed through a middleware chain
+ */
+export interface MiddlewareContext<T = any> {
+  /** The API endpoint; middleware may rewrite it before calling next */
+  endpoint: string;
+  /** The request configuration; middleware may replace it before calling next */
+  config: ResolvedRequestConfig<T>;
+  /** The response, set once next resolves; middleware may set it to answer without calling next */
+  response?: NetworkResponse<T>;
+  /** Data shared between the middleware of one request */
+  state: Record<string, any>;
+}
+
+/**
+ * Calls the rest of the chain. It may be called more than once, e.g. to retry.
+ */
+export type Next = () => Promise<void>;
+
+/**
+ * A function that wraps one behaviour around a request, Koa style: work
+ * before `await next()` sees the request, work after it sees the response.
+ * Errors from the rest of the chain are thrown by next.
+ */
+export type Middleware = (ctx: MiddlewareContext, next: Next) => Promise<void> | void;
+
+/**
+ * Compose middleware into one middleware that runs them in order
+ * @param middleware The middleware, outermost first
+ * @returns The composed middleware
+ */
+export function compose(middleware: Middleware[]): Middleware {
+  return (ctx, next) => {
+    const dispatch = async (index: number): Promise<void> => {
+      if (index === middleware.length) {
+        return next();
+      }
+      await middleware[index](ctx, () => dispatch(index + 1));
+    };
+    return dispatch(0);
+  };
+}
+
+/**
+ * Decorator that runs requests through a middleware chain before the wrapped NetworkRequestable
+ */
+export class MiddlewareDecorator implements NetworkRequestable {
+  private wrapped: NetworkRequestable;
+  private middleware: Middleware[];
+
+  /**
+   * Create a new MiddlewareDecorator
+   * @param wrapped The NetworkRequestable that sends the requests
+   * @param middleware The middleware, outermost first
+   */
+  constructor(wrapped: NetworkRequestable, middleware: Middleware[] = []) {
+    this.wrapped = wrapped;
+    this.middleware = [...middleware];
+  }
+
+  /**
+   * Add middleware inside the middleware added before
+   * @param middleware The middleware to add
+   * @returns This decorator, for chaining
+   */
+  use(...middleware: Middleware[]): this {
+    this.middleware.push(...middleware);
+    return this;
+  }
+
+  /**
+   * Make a network request through the middleware chain
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the response data
+   */
+  async request<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<T> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    const response = await this.requestRaw<T>(endpoint, config);
+    return response.data;
+  }
+
+  /**
+   * Make a network request through the middleware chain and resolve with the full response envelope
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal that cancels the request
+   * @returns A promise that resolves to the full response envelope
+   */
+  async requestRaw<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<NetworkResponse<T>> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    const ctx: MiddlewareContext<T> = { endpoint, config, state: {} };
+    await compose(this.middleware)(ctx, async () => {
+      ctx.response = await this.wrapped.requestRaw<T>(ctx.endpoint, ctx.config);
+    });
+    if (!ctx.response) {
+      throw NetworkError.custom('Middleware chain finished without a response');
+    }
+    return ctx.response;
+  }
+}
+
+/**
+ * Extension function to run requests through middleware
+ * @param networkRequestable The NetworkRequestable to extend
+ * @param middleware The middleware, outermost first
+ * @returns A new NetworkRequestable with the middleware
+ */
+export function withMiddleware(
+  networkRequestable: NetworkRequestable,
+  ...middleware: Middleware[]
+): MiddlewareDecorator {
+  return new MiddlewareDecorator(networkRequestable, middleware);
+}
+
+/**
+ * Turn middleware into a decorator factory, for use wherever decorators are composed
+ * @param middleware The middleware, outermost first
+ * @returns Function that wraps a NetworkRequestable with the middleware
+ */
+export function toDecorator(...middleware: Middleware[]): (wrapped: NetworkRequestable) => MiddlewareDecorator {
+  return wrapped => new MiddlewareDecorator(wrapped, middleware);
+}
+
+// Key under which fromDecorator passes the rest of the chain through the request context
+const NEXT = Symbol('next');
+
+type NextFunction = (endpoint: string, config: ResolvedRequestConfig) => Promise<NetworkResponse<any>>;
+
+/**
+ * Turn a decorator into middleware. The decorator is created once, so its
+ * state (such as a cache) is shared by all requests; where it would call the
+ * wrapped client, the rest of the middleware chain runs instead.
+ *
+ * ```typescript
+ * const retrying = fromDecorator(inner => retry(inner, { maxAttempts: 3 }));
+ * ```
+ *
+ * @param decorate Function that wraps a NetworkRequestable with the decorator
+ * @returns The middleware
+ */
+export function fromDecorator(decorate: (wrapped: NetworkRequestable) => NetworkRequestable): Middleware {
+  const decorated = decorate(new NextRequestable());
+  return async (ctx, next) => {
+    const callNext: NextFunction = async (endpoint, config) => {
+      ctx.endpoint = endpoint;
+      ctx.config = config;
+      ctx.response = undefined;
+      await next();
+      if (!ctx.response) {
+        throw NetworkError.custom('Middleware chain finished without a response');
+      }
+      return ctx.response;
+    };
+    const context = { ...ctx.config.context, [NEXT]: callNext };
+    ctx.response = await decorated.requestRaw(ctx.endpoint, { ...ctx.config, context });
+  };
+}
+
+/**
+ * The innermost client of a decorator turned into middleware: calls the rest
+ * of the chain passed in the request context
+ */
+class NextRequestable implements NetworkRequestable {
+  /**
+   * Run the rest of the chain and resolve with the response data
+   */
+  async request<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<T> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    const response = await this.requestRaw<T>(endpoint, config);
+    return response.data;
+  }
+
+  /**
+   * Run the rest of the chain and resolve with the full response envelope
+   */
+  async requestRaw<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: RequestBody,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<NetworkResponse<T>> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    const { [NEXT]: callNext, ...context } = (config.context ?? {}) as { [NEXT]?: NextFunction };
+    if (!callNext) {
+      throw NetworkError.custom('Decorator turned into middleware was called outside a middleware chain');
+    }
+    return callNext(endpoint, { ...config, context });
+  }
+}
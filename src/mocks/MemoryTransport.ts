@@ -0,0 +1,124 @@
+import { HTTPMethod } from '../types';
+import { Transport, TransportRequest, abortError, createResponse } from '../core/Transport';
+import { isNativeBody } from '../core/Serializers';
+import { isResponse } from '../core/Interceptors';
+
+/**
+ * A canned response. Object bodies are sent as JSON.
+ */
+export interface MemoryResponse {
+  /** HTTP status (default: 200) */
+  status?: number;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
+/**
+ * Produces the response for a matched request
+ */
+export type MemoryHandler = (
+  request: TransportRequest
+) => MemoryResponse | Response | Promise<MemoryResponse | Response>;
+
+interface MemoryRoute {
+  method: HTTPMethod | '*';
+  url: string | RegExp;
+  handler: MemoryHandler;
+}
+
+/**
+ * In-memory Transport for tests. Requests are answered by registered routes
+ * instead of the network, so the real serialization, parsing and error
+ * handling of BaseNetworkRequestable run without mocking globals.
+ */
+export class MemoryTransport implements Transport {
+  /** Set to false to act like a transport that follows redirects itself, e.g. fetch in a browser */
+  manualRedirects?: boolean;
+  private routes: MemoryRoute[] = [];
+  private requestHistory: TransportRequest[] = [];
+
+  /**
+   * Register a route. String URLs match the full URL, the path with its query
+   * string, or the path alone; later routes take precedence.
+   * @param method The HTTP method, or '*' for any method
+   * @param url The URL to match
+   * @param response The response, or a handler producing it
+   * @returns The transport, for chaining
+   */
+  on(method: HTTPMethod | '*', url: string | RegExp, response: MemoryResponse | MemoryHandler): this {
+    const handler = typeof response === 'function' ? response : () => response;
+    this.routes.push({ method, url, handler });
+    return this;
+  }
+
+  /**
+   * Remove all routes and clear the request history
+   */
+  reset(): void {
+    this.routes = [];
+    this.requestHistory = [];
+  }
+
+  /**
+   * Get the requests sent through the transport, in order
+   */
+  getRequestHistory(): TransportRequest[] {
+    return [...this.requestHistory];
+  }
+
+  /**
+   * Answer a request with the most recently registered matching route
+   * @param request The request to send
+   * @returns A promise that resolves to the Response
+   */
+  async send(request: TransportRequest): Promise<Response> {
+    this.requestHistory.push(request);
+    if (request.signal.aborted) {
+      throw abortError();
+    }
+
+    const route = [...this.routes].reverse().find(candidate => this.matches(candidate, request));
+    if (!route) {
+      throw new Error(`No route for ${request.method} ${request.url}`);
+    }
+
+    // Reject as soon as the signal aborts, even if the handler is still running
+    let onAbort: () => void = () => undefined;
+    const aborted = new Promise<never>((_, reject) => {
+      onAbort = () => reject(abortError());
+      request.signal.addEventListener('abort', onAbort);
+    });
+    try {
+      const result = await Promise.race([Promise.resolve(route.handler(request)), aborted]);
+      return isResponse(result) ? result : toResponse(result, request.url);
+    } finally {
+      request.signal.removeEventListener('abort', onAbort);
+    }
+  }
+
+  private matches(route: MemoryRoute, request: TransportRequest): boolean {
+    if (route.method !== '*' && route.method !== request.method) {
+      return false;
+    }
+    if (route.url instanceof RegExp) {
+      return route.url.test(request.url);
+    }
+
+    const path = request.url.replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]+/i, '') || '/';
+    return route.url === request.url || route.url === path || route.url === path.split('?')[0];
+  }
+}
+
+function toResponse(response: MemoryResponse, url: string): Response {
+  const headers = { ...response.headers };
+  const hasContentType = Object.keys(headers).some(name => name.toLowerCase() === 'content-type');
+  let body = response.body;
+  if (body !== undefined && body !== null && !isNativeBody(body)) {
+    body = JSON.stringify(body);
+    if (!hasContentType) {
+      headers['content-type'] = 'application/json';
+    }
+  }
+  return createResponse(body ?? null, response.status ?? 200, headers, url);
+}
+
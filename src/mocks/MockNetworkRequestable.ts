@@ -1,19 +1,38 @@
 import { HTTPMethod } from '../types';
-import { NetworkRequestable } from '../core/NetworkRequestable';
+import {
+  AbortSignalPolyfill,
+  NetworkRequestable,
+  NetworkResponse,
+  RequestConfig,
+  generateCacheKey,
+  resolveRequestConfig,
+  throwIfCancelled
+} from '../core/NetworkRequestable';
+import { PathParams, expandPath, isPathTemplate } from '../core/PathTemplate';
+import { QueryParams } from '../core/QueryString';
+import { RequestBody } from '../core/Serializers';
+import { ResponseType } from '../core/ResponseDecoder';
+
+/**
+ * A request recorded by MockNetworkRequestable
+ */
+export interface MockRequestRecord {
+  endpoint: string;
+  method: HTTPMethod;
+  body?: RequestBody;
+  headers?: Record<string, string>;
+  config: RequestConfig;
+}
 
 /**
  * Mock implementation of NetworkRequestable for testing
  */
 export class MockNetworkRequestable implements NetworkRequestable {
   private mockResponses: Map<string, any> = new Map();
+  private mockRawResponses: Map<string, NetworkResponse<any>> = new Map();
   private mockErrors: Map<string, Error> = new Map();
   private mockSequences: Map<string, Array<{ success: boolean; response?: any; error?: Error }>> = new Map();
-  private requestHistory: Array<{
-    endpoint: string;
-    method: HTTPMethod;
-    body?: Record<string, any>;
-    headers?: Record<string, string>;
-  }> = [];
+  private requestHistory: MockRequestRecord[] = [];
 
   /**
    * Mock a successful response for a specific request
@@ -21,31 +40,55 @@ export class MockNetworkRequestable implements NetworkRequestable {
    * @param method The HTTP method
    * @param response The response to return
    * @param body Optional request body to match
+   * @param query Optional query parameters to match
    */
   mockResponse<T>(
     endpoint: string,
     method: HTTPMethod,
     response: T,
-    body?: Record<string, any>
+    body?: RequestBody,
+    query?: QueryParams
   ): void {
-    const key = this.generateKey(endpoint, method, body);
+    const key = this.generateKey(endpoint, method, body, query);
     this.mockResponses.set(key, response);
   }
 
+  /**
+   * Mock a full response envelope for a specific request, for tests that
+   * need status codes or headers from requestRaw
+   * @param endpoint The API endpoint
+   * @param method The HTTP method
+   * @param response The envelope to return; omitted fields get defaults
+   * @param body Optional request body to match
+   * @param query Optional query parameters to match
+   */
+  mockRawResponse<T>(
+    endpoint: string,
+    method: HTTPMethod,
+    response: Partial<NetworkResponse<T>> & { data: T },
+    body?: RequestBody,
+    query?: QueryParams
+  ): void {
+    const key = this.generateKey(endpoint, method, body, query);
+    this.mockRawResponses.set(key, { ...this.envelope(endpoint, response.data), ...response });
+  }
+
   /**
    * Mock an error for a specific request
    * @param endpoint The API endpoint
    * @param method The HTTP method
    * @param error The error to throw
    * @param body Optional request body to match
+   * @param query Optional query parameters to match
    */
   mockError(
     endpoint: string,
     method: HTTPMethod,
     error: Error,
-    body?: Record<string, any>
+    body?: RequestBody,
+    query?: QueryParams
   ): void {
-    const key = this.generateKey(endpoint, method, body);
+    const key = this.generateKey(endpoint, method, body, query);
     this.mockErrors.set(key, error);
   }
 
@@ -55,14 +98,16 @@ export class MockNetworkRequestable implements NetworkRequestable {
    * @param method The HTTP method
    * @param sequence Array of responses/errors to return in sequence
    * @param body Optional request body to match
+   * @param query Optional query parameters to match
    */
   mockResponseSequence(
     endpoint: string,
     method: HTTPMethod,
     sequence: Array<{ success: boolean; response?: any; error?: Error }>,
-    body?: Record<string, any>
+    body?: RequestBody,
+    query?: QueryParams
   ): void {
-    const key = this.generateKey(endpoint, method, body);
+    const key = this.generateKey(endpoint, method, body, query);
     this.mockSequences.set(key, [...sequence]);
   }
 
@@ -71,6 +116,7 @@ export class MockNetworkRequestable implements NetworkRequestable {
    */
   reset(): void {
     this.mockResponses.clear();
+    this.mockRawResponses.clear();
     this.mockErrors.clear();
     this.mockSequences.clear();
     this.requestHistory = [];
@@ -79,34 +125,67 @@ export class MockNetworkRequestable implements NetworkRequestable {
   /**
    * Get the request history
    */
-  getRequestHistory(): Array<{
-    endpoint: string;
-    method: HTTPMethod;
-    body?: Record<string, any>;
-    headers?: Record<string, string>;
-  }> {
+  getRequestHistory(): MockRequestRecord[] {
     return [...this.requestHistory];
   }
 
   /**
    * Make a mock network request
    * @param endpoint The API endpoint
-   * @param method The HTTP method
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
    * @param body Optional request body
    * @param responseType The expected response type
    * @param headers Optional request headers
+   * @param signal Optional signal; an already aborted signal rejects with NetworkError.cancelled()
    * @returns A promise that resolves to the response data
    */
-  async request<T>(endpoint: string, method: HTTPMethod, body?: any, responseType?: new () => T, headers?: Record<string, string>): Promise<T> {
+  async request<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: any,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<T> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    const response = await this.requestRaw<T>(endpoint, config);
+    return response.data;
+  }
+
+  /**
+   * Make a mock network request and resolve with the full response envelope.
+   * Responses mocked with mockResponse are wrapped in a 200 envelope.
+   * @param endpoint The API endpoint
+   * @param methodOrConfig The HTTP method, or a RequestConfig object
+   * @param body Optional request body
+   * @param responseType The expected response type
+   * @param headers Optional request headers
+   * @param signal Optional signal; an already aborted signal rejects with NetworkError.cancelled()
+   * @returns A promise that resolves to the full response envelope
+   */
+  async requestRaw<T>(
+    endpoint: string,
+    methodOrConfig?: HTTPMethod | RequestConfig<T>,
+    body?: any,
+    responseType?: ResponseType<T>,
+    headers?: Record<string, string>,
+    signal?: AbortSignalPolyfill
+  ): Promise<NetworkResponse<T>> {
+    const config = resolveRequestConfig(methodOrConfig, body, responseType, headers, signal);
+    const { method } = config;
+
     // Record request in history
     this.requestHistory.push({
       endpoint,
       method,
-      body,
-      headers: headers || {}
+      body: config.body,
+      headers: config.headers,
+      config
     });
 
-    const key = this.generateKey(endpoint, method, body);
+    throwIfCancelled(config.signal);
+
+    const key = this.matchKey(endpoint, method, config.body, config.query, config.params);
 
     // Check if there's a sequence for this request
     if (this.mockSequences.has(key)) {
@@ -115,7 +194,7 @@ export class MockNetworkRequestable implements NetworkRequestable {
         const nextItem = sequence.shift();
         if (nextItem) {
           if (nextItem.success) {
-            return nextItem.response;
+            return this.envelope(endpoint, nextItem.response);
           } else {
             throw nextItem.error;
           }
@@ -128,23 +207,74 @@ export class MockNetworkRequestable implements NetworkRequestable {
       throw this.mockErrors.get(key);
     }
 
+    // Check if there's a mocked envelope for this request
+    if (this.mockRawResponses.has(key)) {
+      return this.mockRawResponses.get(key) as NetworkResponse<T>;
+    }
+
     // Check if there's a mocked response for this request
     if (this.mockResponses.has(key)) {
-      return this.mockResponses.get(key);
+      return this.envelope(endpoint, this.mockResponses.get(key));
     }
 
     // If no mock is found, throw an error
     throw new Error(`No mock found for ${method} ${endpoint}`);
   }
 
+  /**
+   * Wrap mocked data in a successful response envelope
+   */
+  private envelope<T>(endpoint: string, data: T): NetworkResponse<T> {
+    return {
+      status: 200,
+      headers: {},
+      data,
+      url: endpoint,
+      duration: 0
+    };
+  }
+
+  /**
+   * Find the key of the mock for a request. For endpoint templates, mocks
+   * registered for the expanded path win over mocks registered for the
+   * template. Mocks registered with matching query parameters win, otherwise
+   * mocks registered without query parameters apply.
+   */
+  private matchKey(
+    endpoint: string,
+    method: HTTPMethod,
+    body?: RequestBody,
+    query?: QueryParams,
+    params?: PathParams
+  ): string {
+    const endpoints = [endpoint];
+    if (params && isPathTemplate(endpoint)) {
+      try {
+        endpoints.unshift(expandPath(endpoint, params));
+      } catch (e) {
+        // Missing parameters: only the template can match
+      }
+    }
+
+    const candidates: string[] = [];
+    endpoints.forEach(candidate => {
+      candidates.push(this.generateKey(candidate, method, body, query));
+      candidates.push(this.generateKey(candidate, method, body));
+    });
+
+    const mocks = [this.mockSequences, this.mockErrors, this.mockRawResponses, this.mockResponses];
+    return candidates.find(key => mocks.some(map => map.has(key))) ?? candidates[candidates.length - 1];
+  }
+
   /**
    * Generate a key for the mock maps
    */
   private generateKey(
     endpoint: string,
     method: HTTPMethod,
-    body?: Record<string, any>
+    body?: RequestBody,
+    query?: QueryParams
   ): string {
-    return `${method}:${endpoint}:${body ? JSON.stringify(body) : ''}`;
+    return generateCacheKey(endpoint, method, body, query);
   }
 }
@@ -0,0 +1,125 @@
+import { PreparedRequest } from '../core/Transport';
+import { encodeQueryComponent } from '../core/QueryString';
+
+/**
+ * Signs a request after serialization, when its final URL, headers and body are known
+ */
+export interface RequestSigner {
+  /**
+   * Sign a request
+   * @param request The serialized request
+   * @returns The request with the signature added
+   */
+  sign(request: PreparedRequest): Promise<PreparedRequest>;
+}
+
+/**
+ * Build a canonical request in the SigV4 layout: method, path, sorted query,
+ * signed headers with their values, the signed header names and the payload hash,
+ * one per line. Query keys and values are sorted and RFC 3986 encoded; header
+ * names are lower-cased and values trimmed.
+ * @param request The serialized request
+ * @param signedHeaders The names of the headers to sign; 'host' is taken from the URL if not set
+ * @param payloadHash The hex SHA-256 of the body, or a placeholder such as UNSIGNED-PAYLOAD
+ * @param doubleEncodePath Encode the already encoded path again, as AWS services other than S3 expect (default: false)
+ * @returns The canonical request and the signed header list
+ */
+export function createCanonicalRequest(
+  request: PreparedRequest,
+  signedHeaders: string[],
+  payloadHash: string,
+  doubleEncodePath: boolean = false
+): { canonicalRequest: string; signedHeaders: string } {
+  const { host, path, query } = splitURL(request.url);
+  const names = Array.from(new Set(signedHeaders.map(name => name.toLowerCase()))).sort();
+  const headers = lowerCaseHeaders(request.headers);
+  if (headers.host === undefined) {
+    headers.host = host;
+  }
+
+  const canonicalPath = doubleEncodePath ? path.split('/').map(encodeQueryComponent).join('/') : path;
+  const canonicalHeaders = names.map(name => `${name}:${(headers[name] ?? '').trim().replace(/\s+/g, ' ')}\n`).join('');
+  const signedHeaderList = names.join(';');
+
+  return {
+    canonicalRequest: [
+      request.method.toUpperCase(),
+      canonicalPath,
+      canonicalQuery(query),
+      canonicalHeaders,
+      signedHeaderList,
+      payloadHash
+    ].join('\n'),
+    signedHeaders: signedHeaderList
+  };
+}
+
+/**
+ * Remove headers by name, regardless of case
+ */
+export function withoutHeaders(headers: Record<string, string>, names: string[]): Record<string, string> {
+  const remove = names.map(name => name.toLowerCase());
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    if (!remove.includes(name.toLowerCase())) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Sort and encode the query string
+ */
+function canonicalQuery(query: string): string {
+  return query
+    .split('&')
+    .filter(pair => pair !== '')
+    .map(pair => {
+      const separator = pair.indexOf('=');
+      const key = separator === -1 ? pair : pair.slice(0, separator);
+      const value = separator === -1 ? '' : pair.slice(separator + 1);
+      return [encodeQueryComponent(safeDecode(key)), encodeQueryComponent(safeDecode(value))];
+    })
+    // Byte order, not locale order
+    .sort(([a, x], [b, y]) => (a < b ? -1 : a > b ? 1 : x < y ? -1 : x > y ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch (e) {
+    return value;
+  }
+}
+
+/**
+ * Combine headers by lower-cased name
+ */
+function lowerCaseHeaders(headers: Record<string, string>): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const [name, value] of Object.entries(headers)) {
+    const lower = name.toLowerCase();
+    result[lower] = result[lower] !== undefined ? `${result[lower]},${value}` : value;
+  }
+  return result;
+}
+
+/**
+ * Split a URL into the Host header value (without a default port), path and query
+ */
+function splitURL(url: string): { host: string; path: string; query: string } {
+  const match = url.match(/^([A-Za-z][A-Za-z0-9+.-]*):\/\/(?:[^@/?#]*@)?([^/?#]*)([^?#]*)(?:\?([^#]*))?/);
+  if (!match) {
+    throw new Error(`Cannot sign a request to ${url}: the URL is not absolute`);
+  }
+  const scheme = match[1].toLowerCase();
+  const defaultPort = scheme === 'https' ? ':443' : scheme === 'http' ? ':80' : undefined;
+  let host = match[2].toLowerCase();
+  if (defaultPort && host.endsWith(defaultPort)) {
+    host = host.slice(0, -defaultPort.length);
+  }
+  return { host, path: match[3] || '/', query: match[4] ?? '' };
+}
@@ -0,0 +1,139 @@
+import { PreparedRequest } from '../core/Transport';
+import { CryptoProvider, defaultCryptoProvider } from '../crypto/CryptoProvider';
+import { toHex, utf8Encode } from '../crypto/sha256';
+import { RequestSigner, createCanonicalRequest, withoutHeaders } from './RequestSigner';
+import { bodyBytes } from '../core/Serializers';
+
+/**
+ * AWS access keys
+ */
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  /** Session token of temporary credentials, e.g. from STS or Cognito */
+  sessionToken?: string;
+}
+
+/**
+ * SigV4Signer settings
+ */
+export interface SigV4SignerOptions {
+  /** The credentials, or a function providing them, e.g. to renew temporary credentials */
+  credentials: AwsCredentials | (() => AwsCredentials | Promise<AwsCredentials>);
+  /** The region, e.g. 'us-east-1' */
+  region: string;
+  /** The signing name of the service, e.g. 's3' or 'execute-api' */
+  service: string;
+  /** Hash and MAC implementation (default: WebCrypto, or plain JavaScript where unavailable) */
+  crypto?: CryptoProvider;
+  /** Current time in ms since the epoch; pass one corrected for clock skew if device clocks drift (default: Date.now) */
+  now?: () => number;
+  /** Sign the request without its body, sending UNSIGNED-PAYLOAD (default: only for bodies that cannot be read up front) */
+  unsignedPayload?: boolean;
+  /** Send the payload hash as X-Amz-Content-Sha256, which S3 requires (default: true) */
+  contentSha256Header?: boolean;
+  /** Encode the path a second time, as every service except S3 expects (default: true unless service is 's3') */
+  doubleEncodePath?: boolean;
+}
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+// Headers that proxies and clients may change or add, so they are never signed
+const UNSIGNABLE_HEADERS = [
+  'authorization',
+  'cache-control',
+  'connection',
+  'expect',
+  'from',
+  'keep-alive',
+  'max-forwards',
+  'pragma',
+  'referer',
+  'te',
+  'trailer',
+  'transfer-encoding',
+  'upgrade',
+  'user-agent',
+  'x-amzn-trace-id'
+];
+
+/**
+ * Signs requests with AWS Signature Version 4, for AWS services, S3-compatible
+ * storage and API Gateway. Adds the Authorization and X-Amz-Date headers, the
+ * payload hash as X-Amz-Content-Sha256 and X-Amz-Security-Token for temporary
+ * credentials. Every header sent is signed, except ones intermediaries change.
+ */
+export class SigV4Signer implements RequestSigner {
+  private options: SigV4SignerOptions;
+  private crypto: CryptoProvider;
+
+  /**
+   * Create a new SigV4Signer
+   * @param options Credentials, region, service and signing settings
+   */
+  constructor(options: SigV4SignerOptions) {
+    this.options = options;
+    this.crypto = options.crypto ?? defaultCryptoProvider();
+  }
+
+  /**
+   * Sign a request
+   * @param request The serialized request
+   * @returns The request with the signature headers
+   */
+  async sign(request: PreparedRequest): Promise<PreparedRequest> {
+    const { region, service } = this.options;
+    const credentials =
+      typeof this.options.credentials === 'function' ? await this.options.credentials() : this.options.credentials;
+    const amzDate = new Date((this.options.now ?? Date.now)()).toISOString().replace(/[:-]|\.\d{3}/g, '');
+    const date = amzDate.slice(0, 8);
+
+    const bytes = this.options.unsignedPayload ? undefined : await bodyBytes(request.body);
+    const payloadHash = bytes ? toHex(await this.crypto.sha256(bytes)) : 'UNSIGNED-PAYLOAD';
+
+    // Replace any signature headers from an earlier attempt
+    const headers = withoutHeaders(request.headers, [
+      'authorization',
+      'x-amz-date',
+      'x-amz-content-sha256',
+      'x-amz-security-token'
+    ]);
+    headers['X-Amz-Date'] = amzDate;
+    if (this.options.contentSha256Header !== false) {
+      headers['X-Amz-Content-Sha256'] = payloadHash;
+    }
+    if (credentials.sessionToken) {
+      headers['X-Amz-Security-Token'] = credentials.sessionToken;
+    }
+
+    const names = ['host', ...Object.keys(headers).filter(name => !UNSIGNABLE_HEADERS.includes(name.toLowerCase()))];
+    const { canonicalRequest, signedHeaders } = createCanonicalRequest(
+      { ...request, headers },
+      names,
+      payloadHash,
+      this.options.doubleEncodePath ?? service !== 's3'
+    );
+
+    const scope = `${date}/${region}/${service}/aws4_request`;
+    const stringToSign = [ALGORITHM, amzDate, scope, toHex(await this.crypto.sha256(utf8Encode(canonicalRequest)))].join(
+      '\n'
+    );
+    const signingKey = await this.signingKey(credentials.secretAccessKey, date);
+    const signature = toHex(await this.crypto.hmacSha256(signingKey, utf8Encode(stringToSign)));
+
+    headers['Authorization'] =
+      `${ALGORITHM} Credential=${credentials.accessKeyId}/${scope}, SignedHeaders=${signedHeaders}, Signature=${signature}`;
+    return { ...request, headers };
+  }
+
+  /**
+   * Derive the key for a day, region and service from the secret
+   */
+  private async signingKey(secret: string, date: string): Promise<Uint8Array> {
+    let key = utf8Encode(`AWS4${secret}`);
+    for (const part of [date, this.options.region, this.options.service, 'aws4_request']) {
+      key = await this.crypto.hmacSha256(key, utf8Encode(part));
+    }
+    return key;
+  }
+}
@@ -0,0 +1,395 @@
+import { HTTPMethod, NetworkError, NetworkErrorType } from '../types';
+import { NetworkRequestable, NetworkResponse, RequestContext } from '../core/NetworkRequestable';
+import { TransferProgress } from '../core/Transport';
+import { Sha256 } from '../crypto/sha256';
+
+/**
+ * Lifecycle of a download
+ */
+export type DownloadState = 'downloading' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * Receives the downloaded bytes, e.g. to write them to a file
+ */
+export interface DownloadSink {
+  /** Append a chunk; chunks arrive in order */
+  write(chunk: Uint8Array): void | Promise<void>;
+  /** Discard everything written so far, when the server sends the whole file again */
+  reset(): void | Promise<void>;
+}
+
+/**
+ * Sink that keeps the download in memory
+ */
+export class MemorySink implements DownloadSink {
+  private chunks: Uint8Array[] = [];
+
+  write(chunk: Uint8Array): void {
+    this.chunks.push(chunk);
+  }
+
+  reset(): void {
+    this.chunks = [];
+  }
+
+  /**
+   * Get the bytes written so far
+   */
+  getData(): Uint8Array {
+    const data = new Uint8Array(this.chunks.reduce((size, chunk) => size + chunk.length, 0));
+    let offset = 0;
+    this.chunks.forEach(chunk => {
+      data.set(chunk, offset);
+      offset += chunk.length;
+    });
+    return data;
+  }
+}
+
+/**
+ * Download settings
+ */
+export interface DownloadOptions {
+  /** Bytes requested per Range request (default: 1 MiB) */
+  chunkSize: number;
+  /** Expected size in bytes; a mismatch fails the download */
+  expectedSize?: number;
+  /** Expected SHA-256 digest in hex; a mismatch fails the download */
+  sha256?: string;
+  /** Additional request headers */
+  headers?: Record<string, string>;
+  /** Per-request settings for decorators */
+  context?: RequestContext;
+  /** Receives the bytes (default: a MemorySink) */
+  sink?: DownloadSink;
+  /** Called as bytes arrive */
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+/**
+ * Default download settings
+ */
+export const DEFAULT_DOWNLOAD_OPTIONS: DownloadOptions = {
+  chunkSize: 1024 * 1024
+};
+
+/**
+ * Outcome of a completed download
+ */
+export interface DownloadResult {
+  /** Size in bytes */
+  size: number;
+  /** The downloaded bytes, if the sink is a MemorySink */
+  data?: Uint8Array;
+  /** SHA-256 digest in hex, if a digest was expected */
+  sha256?: string;
+  /** The validator (ETag or Last-Modified) the download was resumed with */
+  validator?: string;
+}
+
+/**
+ * A single download. Each chunk is a Range request through the client, so
+ * authentication and retries come from its decorators. Pausing aborts the
+ * chunk in flight; resuming requests the remaining bytes with If-Range, and
+ * starts over if the server reports that the file changed.
+ */
+export class DownloadTask {
+  /** Resolves when the download completes; rejects on failure or cancellation */
+  readonly promise: Promise<DownloadResult>;
+  private client: NetworkRequestable;
+  private endpoint: string;
+  private options: DownloadOptions;
+  private currentState: DownloadState = 'downloading';
+  private received = 0;
+  private total?: number;
+  private validator?: string;
+  private hash?: Sha256;
+  private sink: DownloadSink;
+  private controller?: AbortController;
+  private resumeWaiter?: () => void;
+
+  /**
+   * Start a download
+   * @param client The client making the requests
+   * @param endpoint The API endpoint of the file
+   * @param options Download settings
+   */
+  constructor(client: NetworkRequestable, endpoint: string, options: DownloadOptions) {
+    this.client = client;
+    this.endpoint = endpoint;
+    this.options = options;
+    this.sink = options.sink ?? new MemorySink();
+    this.hash = options.sha256 ? new Sha256() : undefined;
+    this.promise = this.run();
+  }
+
+  /** The current state */
+  get state(): DownloadState {
+    return this.currentState;
+  }
+
+  /** Bytes received so far */
+  get bytesReceived(): number {
+    return this.received;
+  }
+
+  /** Total size in bytes, once known */
+  get totalBytes(): number | undefined {
+    return this.total ?? this.options.expectedSize;
+  }
+
+  /**
+   * Pause the download, aborting the chunk in flight
+   */
+  pause(): void {
+    if (this.currentState === 'downloading') {
+      this.currentState = 'paused';
+      this.controller?.abort();
+    }
+  }
+
+  /**
+   * Resume a paused download
+   */
+  resume(): void {
+    if (this.currentState === 'paused') {
+      this.currentState = 'downloading';
+      this.wake();
+    }
+  }
+
+  /**
+   * Cancel the download; the promise rejects with NetworkError.cancelled()
+   */
+  cancel(): void {
+    if (this.currentState === 'downloading' || this.currentState === 'paused') {
+      this.currentState = 'cancelled';
+      this.controller?.abort();
+      this.wake();
+    }
+  }
+
+  private async run(): Promise<DownloadResult> {
+    try {
+      let done = false;
+      while (!done) {
+        await this.waitWhilePaused();
+        done = await this.fetchChunk();
+      }
+
+      this.verify();
+      this.currentState = 'completed';
+      return {
+        size: this.received,
+        data: this.sink instanceof MemorySink ? this.sink.getData() : undefined,
+        sha256: this.hash?.hexDigest(),
+        validator: this.validator
+      };
+    } catch (error) {
+      if (this.currentState !== 'cancelled') {
+        this.currentState = 'failed';
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Request the next chunk
+   * @returns Whether the download is complete
+   */
+  private async fetchChunk(): Promise<boolean> {
+    const start = this.received;
+    const limit = start + this.options.chunkSize;
+    const end = (this.total !== undefined ? Math.min(limit, this.total) : limit) - 1;
+    const headers: Record<string, string> = { ...this.options.headers, Range: `bytes=${start}-${end}` };
+    if (start > 0 && this.validator) {
+      headers['If-Range'] = this.validator;
+    }
+
+    let response: NetworkResponse<ArrayBuffer>;
+    this.controller = new AbortController();
+    try {
+      response = await this.client.requestRaw<ArrayBuffer>(this.endpoint, {
+        method: HTTPMethod.GET,
+        headers,
+        responseFormat: 'arrayBuffer',
+        signal: this.controller.signal,
+        onDownloadProgress: progress => this.report(start + progress.loaded),
+        // Range responses must never be served from or stored in a cache
+        context: { ...this.options.context, skipCache: true }
+      });
+    } catch (error) {
+      if (this.currentState === 'cancelled') {
+        throw NetworkError.cancelled();
+      }
+      // Pausing aborts the chunk in flight; it is requested again on resume
+      const aborted = error instanceof NetworkError && error.type === NetworkErrorType.CANCELLED;
+      if (this.currentState === 'paused' && aborted) {
+        return false;
+      }
+      // Nothing left to send: the previous chunk ended exactly at the end of the file
+      if (error instanceof NetworkError && error.statusCode === 416 && start > 0 && this.total === undefined) {
+        return true;
+      }
+      throw error;
+    } finally {
+      this.controller = undefined;
+    }
+
+    const bytes = new Uint8Array(response.data ?? new ArrayBuffer(0));
+    const partial = response.status === 206;
+    if (partial) {
+      const range = parseContentRange(response.headers['content-range']);
+      if (!range || range.start !== start) {
+        throw NetworkError.integrityError(
+          `expected a range starting at byte ${start}, received ${response.headers['content-range'] ?? 'none'}`
+        );
+      }
+      this.total = range.total ?? this.total;
+    } else {
+      // The server ignored the range or the file changed: the body is the whole file
+      if (start > 0) {
+        await this.sink.reset();
+        this.hash = this.options.sha256 ? new Sha256() : undefined;
+        this.received = 0;
+      }
+      this.total = bytes.length;
+    }
+    this.validator = validatorOf(response.headers) ?? this.validator;
+
+    await this.sink.write(bytes);
+    this.hash?.update(bytes);
+    this.received += bytes.length;
+    this.report(this.received);
+
+    if (!partial) {
+      return true;
+    }
+    return this.total !== undefined ? this.received >= this.total : bytes.length < end - start + 1;
+  }
+
+  private verify(): void {
+    const { expectedSize, sha256 } = this.options;
+    if (expectedSize !== undefined && this.received !== expectedSize) {
+      throw NetworkError.integrityError(`expected ${expectedSize} bytes, received ${this.received}`);
+    }
+    if (this.total !== undefined && this.received !== this.total) {
+      throw NetworkError.integrityError(`expected ${this.total} bytes, received ${this.received}`);
+    }
+    if (sha256 && this.hash) {
+      const actual = this.hash.hexDigest();
+      if (actual !== sha256.toLowerCase()) {
+        throw NetworkError.integrityError(`expected SHA-256 ${sha256.toLowerCase()}, received ${actual}`);
+      }
+    }
+  }
+
+  private report(loaded: number): void {
+    this.options.onProgress?.({ loaded, total: this.totalBytes });
+  }
+
+  private waitWhilePaused(): Promise<void> {
+    if (this.currentState === 'cancelled') {
+      return Promise.reject(NetworkError.cancelled());
+    }
+    if (this.currentState !== 'paused') {
+      return Promise.resolve();
+    }
+    return new Promise<void>(resolve => {
+      this.resumeWaiter = resolve;
+    }).then(() => this.waitWhilePaused());
+  }
+
+  private wake(): void {
+    const waiter = this.resumeWaiter;
+    this.resumeWaiter = undefined;
+    waiter?.();
+  }
+}
+
+/**
+ * Starts and tracks downloads made through a NetworkRequestable
+ */
+export class DownloadManager {
+  private client: NetworkRequestable;
+  private options: DownloadOptions;
+  private tasks = new Set<DownloadTask>();
+
+  /**
+   * Create a new DownloadManager
+   * @param client The client making the requests, typically with auth and retry decorators
+   * @param options Default download settings
+   */
+  constructor(client: NetworkRequestable, options: Partial<DownloadOptions> = {}) {
+    this.client = client;
+    this.options = { ...DEFAULT_DOWNLOAD_OPTIONS, ...options };
+  }
+
+  /**
+   * Start a download
+   * @param endpoint The API endpoint of the file
+   * @param options Settings for this download, overriding the defaults
+   * @returns The running download
+   */
+  download(endpoint: string, options: Partial<DownloadOptions> = {}): DownloadTask {
+    const task = new DownloadTask(this.client, endpoint, { ...this.options, ...options });
+    this.tasks.add(task);
+    const forget = () => {
+      this.tasks.delete(task);
+    };
+    task.promise.then(forget, forget);
+    return task;
+  }
+
+  /**
+   * Get the downloads that have not finished yet
+   */
+  getTasks(): DownloadTask[] {
+    return Array.from(this.tasks);
+  }
+
+  /**
+   * Pause all running downloads
+   */
+  pauseAll(): void {
+    this.tasks.forEach(task => task.pause());
+  }
+
+  /**
+   * Resume all paused downloads
+   */
+  resumeAll(): void {
+    this.tasks.forEach(task => task.resume());
+  }
+
+  /**
+   * Cancel all downloads
+   */
+  cancelAll(): void {
+    this.tasks.forEach(task => task.cancel());
+  }
+}
+
+/**
+ * Parse a Content-Range header such as bytes 0-99/1000 or bytes 0-99/*
+ */
+export function parseContentRange(value: string | undefined): { start: number; end: number; total?: number } | undefined {
+  const match = value?.match(/^bytes\s+(\d+)-(\d+)\/(\d+|\*)$/i);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    start: Number(match[1]),
+    end: Number(match[2]),
+    total: match[3] === '*' ? undefined : Number(match[3])
+  };
+}
+
+// If-Range needs a strong ETag; weak ones fall back to Last-Modified
+function validatorOf(headers: Record<string, string>): string | undefined {
+  const etag = headers['etag'];
+  if (etag && !etag.startsWith('W/')) {
+    return etag;
+  }
+  return headers['last-modified'];
+}
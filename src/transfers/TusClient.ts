@@ -0,0 +1,495 @@
+import { HTTPMethod, NetworkError, NetworkErrorType } from '../types';
+import { NetworkRequestable, NetworkResponse, RequestConfig, RequestContext } from '../core/NetworkRequestable';
+import { TransferProgress } from '../core/Transport';
+import { bodyBytes } from '../core/Serializers';
+import { resolveURL } from '../core/URL';
+import { delay } from '../decorators/RetryDecorator';
+import { base64Encode } from '../crypto/base64';
+import { sha256, toHex } from '../crypto/sha256';
+
+/**
+ * The tus protocol version sent in the Tus-Resumable header
+ */
+export const TUS_VERSION = '1.0.0';
+
+/**
+ * Lifecycle of an upload
+ */
+export type TusUploadState = 'uploading' | 'paused' | 'completed' | 'failed' | 'terminated';
+
+/**
+ * Data to upload. Blobs are read one chunk at a time; implement UploadSource
+ * to read chunks from elsewhere, e.g. a file on disk.
+ */
+export interface UploadSource {
+  /** Size in bytes */
+  readonly size: number;
+  /** Stable identity of the data, e.g. its file URI, used in the default fingerprint */
+  readonly id?: string;
+  /** Read the bytes from start (inclusive) to end (exclusive) */
+  slice(start: number, end: number): Blob | Uint8Array | Promise<Blob | Uint8Array>;
+}
+
+/**
+ * Key-value storage for upload URLs. AsyncStorage satisfies this interface,
+ * so uploads can be resumed after an app restart.
+ */
+export interface UploadUrlStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+/**
+ * Storage that keeps upload URLs in memory, for the lifetime of the app
+ */
+export class MemoryUrlStorage implements UploadUrlStorage {
+  private items = new Map<string, string>();
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, value);
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key);
+  }
+}
+
+/**
+ * Upload settings
+ */
+export interface TusUploadOptions {
+  /** Bytes sent per PATCH request (default: 1 MiB) */
+  chunkSize: number;
+  /** Times a failed chunk is re-sent after checking the offset with HEAD (default: 3) */
+  chunkRetries: number;
+  /** Delay before re-sending a failed chunk, in milliseconds (default: 1000) */
+  retryDelay: number;
+  /** Upload-Metadata sent when the upload is created, e.g. { filename: 'clip.mp4' } */
+  metadata?: Record<string, string>;
+  /**
+   * Key the upload URL is stored under (default: derived from the endpoint, size,
+   * metadata and the identity of the data; see UploadSource.id)
+   */
+  fingerprint?: string;
+  /** Additional request headers */
+  headers?: Record<string, string>;
+  /** Per-request settings for decorators */
+  context?: RequestContext;
+  /** Called as bytes are uploaded */
+  onProgress?: (progress: TransferProgress) => void;
+}
+
+// Bytes hashed to identify data without an id or file name
+const FINGERPRINT_SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Default upload settings
+ */
+export const DEFAULT_TUS_OPTIONS: TusUploadOptions = {
+  chunkSize: 1024 * 1024,
+  chunkRetries: 3,
+  retryDelay: 1000
+};
+
+/**
+ * Outcome of a completed upload
+ */
+export interface TusUploadResult {
+  /** The upload URL on the tus server */
+  url: string;
+  /** Size in bytes */
+  size: number;
+}
+
+/**
+ * A single tus upload. The upload URL is stored as soon as the server creates
+ * it, so a later upload of the same data (even after an app restart) asks the
+ * server for its offset with HEAD and continues from there.
+ */
+export class TusUpload {
+  /** Resolves when the upload completes; rejects on failure or termination */
+  readonly promise: Promise<TusUploadResult>;
+  private client: NetworkRequestable;
+  private endpoint: string;
+  private source: UploadSource;
+  private storage: UploadUrlStorage;
+  private options: TusUploadOptions;
+  private fingerprint?: string;
+  private currentState: TusUploadState = 'uploading';
+  private uploadUrl?: string;
+  private offset = 0;
+  private needsSync = false;
+  private failures = 0;
+  private controller?: AbortController;
+  private resumeWaiter?: () => void;
+
+  /**
+   * Start an upload
+   * @param client The client making the requests
+   * @param endpoint The tus creation endpoint
+   * @param source The data to upload
+   * @param storage Where upload URLs are stored
+   * @param options Upload settings
+   */
+  constructor(
+    client: NetworkRequestable,
+    endpoint: string,
+    source: UploadSource,
+    storage: UploadUrlStorage,
+    options: TusUploadOptions
+  ) {
+    this.client = client;
+    this.endpoint = endpoint;
+    this.source = source;
+    this.storage = storage;
+    this.options = options;
+    this.promise = this.run();
+  }
+
+  /** The current state */
+  get state(): TusUploadState {
+    return this.currentState;
+  }
+
+  /** The upload URL, once the server has created the upload */
+  get url(): string | undefined {
+    return this.uploadUrl;
+  }
+
+  /** Bytes the server has confirmed */
+  get bytesUploaded(): number {
+    return this.offset;
+  }
+
+  /** Total size in bytes */
+  get totalBytes(): number {
+    return this.source.size;
+  }
+
+  /**
+   * Pause the upload, aborting the request in flight or the wait before a retry
+   */
+  pause(): void {
+    if (this.currentState === 'uploading') {
+      this.currentState = 'paused';
+      this.controller?.abort();
+    }
+  }
+
+  /**
+   * Resume a paused upload from the offset the server reports
+   */
+  resume(): void {
+    if (this.currentState === 'paused') {
+      this.currentState = 'uploading';
+      this.wake();
+    }
+  }
+
+  /**
+   * Stop the upload and delete it from the server; the promise rejects with NetworkError.cancelled()
+   */
+  async terminate(): Promise<void> {
+    if (this.currentState !== 'uploading' && this.currentState !== 'paused') {
+      return;
+    }
+    this.currentState = 'terminated';
+    this.controller?.abort();
+    this.wake();
+    await this.promise.catch(() => undefined);
+
+    if (this.uploadUrl) {
+      await this.client.requestRaw(this.uploadUrl, this.config(HTTPMethod.DELETE));
+    }
+    if (this.fingerprint) {
+      await this.storage.removeItem(this.fingerprint);
+    }
+  }
+
+  private async run(): Promise<TusUploadResult> {
+    try {
+      const fingerprint =
+        this.options.fingerprint ?? (await defaultFingerprint(this.endpoint, this.source, this.options.metadata));
+      this.fingerprint = fingerprint;
+      let located = false;
+      while (!located || this.offset < this.source.size) {
+        await this.waitWhilePaused();
+        try {
+          if (located) {
+            await this.sendChunk();
+          } else {
+            await this.locate(fingerprint);
+            located = true;
+          }
+        } catch (error) {
+          // Pausing aborts the request in flight; the server may have kept part of a chunk
+          const aborted = error instanceof NetworkError && error.type === NetworkErrorType.CANCELLED;
+          if (this.currentState !== 'paused' || !aborted) {
+            throw error;
+          }
+          this.needsSync = located;
+        }
+      }
+
+      await this.storage.removeItem(fingerprint);
+      this.currentState = 'completed';
+      return { url: this.uploadUrl as string, size: this.source.size };
+    } catch (error) {
+      if (this.currentState === 'terminated') {
+        throw NetworkError.cancelled();
+      }
+      this.currentState = 'failed';
+      throw error;
+    }
+  }
+
+  /**
+   * Continue a stored upload, or create a new one if there is none or the server forgot it
+   */
+  private async locate(fingerprint: string): Promise<void> {
+    const stored = await this.storage.getItem(fingerprint);
+    if (stored) {
+      this.uploadUrl = stored;
+      try {
+        await this.sync();
+        return;
+      } catch (error) {
+        const gone = error instanceof NetworkError && [403, 404, 410].includes(error.statusCode ?? 0);
+        if (!gone) {
+          throw error;
+        }
+        await this.storage.removeItem(fingerprint);
+      }
+    }
+
+    const headers: Record<string, string> = { 'Upload-Length': String(this.source.size) };
+    if (this.options.metadata) {
+      headers['Upload-Metadata'] = encodeMetadata(this.options.metadata);
+    }
+    const response = await this.send(this.endpoint, this.config(HTTPMethod.POST, headers));
+    const location = response.headers['location'];
+    if (!location) {
+      throw NetworkError.custom('tus server did not return a Location for the new upload');
+    }
+    this.uploadUrl = resolveURL(location, response.url);
+    this.offset = 0;
+    await this.storage.setItem(fingerprint, this.uploadUrl);
+  }
+
+  /**
+   * Ask the server how many bytes it has
+   */
+  private async sync(): Promise<void> {
+    const response = await this.send(
+      this.uploadUrl as string,
+      this.config(HTTPMethod.HEAD, { 'Cache-Control': 'no-store' })
+    );
+    this.offset = readOffset(response);
+    this.needsSync = false;
+    this.report(this.offset);
+  }
+
+  private async sendChunk(): Promise<void> {
+    if (this.needsSync) {
+      await this.sync();
+      if (this.offset >= this.source.size) {
+        return;
+      }
+    }
+
+    const start = this.offset;
+    const chunk = await this.source.slice(start, Math.min(start + this.options.chunkSize, this.source.size));
+    try {
+      const response = await this.send(this.uploadUrl as string, {
+        ...this.config(HTTPMethod.PATCH, {
+          'Upload-Offset': String(start),
+          'Content-Type': 'application/offset+octet-stream'
+        }),
+        body: chunk,
+        // Only ask for upload progress when it is reported, as it may need a different transport
+        onUploadProgress: this.options.onProgress ? progress => this.report(start + progress.loaded) : undefined,
+        // A retried PATCH would repeat a stale Upload-Offset; failed chunks re-sync with HEAD instead
+        context: { ...this.options.context, skipCache: true, retry: false }
+      });
+      const offset = readOffset(response);
+      if (offset <= start) {
+        throw NetworkError.custom(`tus server did not accept the chunk at offset ${start}`);
+      }
+      this.offset = offset;
+      this.failures = 0;
+      this.report(offset);
+    } catch (error) {
+      if (this.failures < this.options.chunkRetries && isRetryable(error)) {
+        this.failures += 1;
+        this.needsSync = true;
+        await this.wait(this.options.retryDelay);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  private async send(endpoint: string, config: RequestConfig<string>): Promise<NetworkResponse<string>> {
+    this.controller = new AbortController();
+    try {
+      return await this.client.requestRaw<string>(endpoint, { ...config, signal: this.controller.signal });
+    } finally {
+      this.controller = undefined;
+    }
+  }
+
+  /**
+   * Wait before re-sending a chunk; pausing or terminating ends the wait
+   */
+  private async wait(ms: number): Promise<void> {
+    this.controller = new AbortController();
+    try {
+      await delay(ms, this.controller.signal);
+    } finally {
+      this.controller = undefined;
+    }
+  }
+
+  private config(method: HTTPMethod, headers: Record<string, string> = {}): RequestConfig<string> {
+    return {
+      method,
+      headers: { ...this.options.headers, 'Tus-Resumable': TUS_VERSION, ...headers },
+      responseFormat: 'text',
+      context: { ...this.options.context, skipCache: true }
+    };
+  }
+
+  private report(loaded: number): void {
+    this.options.onProgress?.({ loaded, total: this.source.size });
+  }
+
+  private waitWhilePaused(): Promise<void> {
+    if (this.currentState === 'terminated') {
+      return Promise.reject(NetworkError.cancelled());
+    }
+    if (this.currentState !== 'paused') {
+      return Promise.resolve();
+    }
+    return new Promise<void>(resolve => {
+      this.resumeWaiter = resolve;
+    }).then(() => this.waitWhilePaused());
+  }
+
+  private wake(): void {
+    const waiter = this.resumeWaiter;
+    this.resumeWaiter = undefined;
+    waiter?.();
+  }
+}
+
+/**
+ * Client for resumable uploads with the tus 1.0 protocol (https://tus.io)
+ */
+export class TusClient {
+  private client: NetworkRequestable;
+  private storage: UploadUrlStorage;
+  private options: TusUploadOptions;
+
+  /**
+   * Create a new TusClient
+   * @param client The client making the requests, typically with auth decorators
+   * @param storage Where upload URLs are stored (default: in memory)
+   * @param options Default upload settings
+   */
+  constructor(
+    client: NetworkRequestable,
+    storage: UploadUrlStorage = new MemoryUrlStorage(),
+    options: Partial<TusUploadOptions> = {}
+  ) {
+    this.client = client;
+    this.storage = storage;
+    this.options = { ...DEFAULT_TUS_OPTIONS, ...options };
+  }
+
+  /**
+   * Start or resume an upload
+   * @param endpoint The tus creation endpoint
+   * @param data The data to upload
+   * @param options Settings for this upload, overriding the defaults
+   * @returns The running upload
+   */
+  upload(
+    endpoint: string,
+    data: Blob | ArrayBuffer | Uint8Array | UploadSource,
+    options: Partial<TusUploadOptions> = {}
+  ): TusUpload {
+    return new TusUpload(this.client, endpoint, toUploadSource(data), this.storage, { ...this.options, ...options });
+  }
+}
+
+/**
+ * Encode an Upload-Metadata header: comma-separated keys with base64 values
+ */
+export function encodeMetadata(metadata: Record<string, string>): string {
+  return Object.entries(metadata)
+    .map(([key, value]) => (value ? `${key} ${base64Encode(value)}` : key))
+    .join(',');
+}
+
+function toUploadSource(data: Blob | ArrayBuffer | Uint8Array | UploadSource): UploadSource {
+  if (data instanceof ArrayBuffer) {
+    return toUploadSource(new Uint8Array(data));
+  }
+  if (data instanceof Uint8Array) {
+    return { size: data.length, slice: (start, end) => data.subarray(start, end) };
+  }
+  return data;
+}
+
+/**
+ * Build the storage key of an upload. The data is identified by UploadSource.id,
+ * the name and modification time of a File, or else a hash of its first bytes,
+ * so different files of the same size never share an upload.
+ */
+async function defaultFingerprint(
+  endpoint: string,
+  source: UploadSource,
+  metadata: Record<string, string> = {}
+): Promise<string> {
+  return `tus::${endpoint}::${source.size}::${await sourceIdentity(source)}::${encodeMetadata(metadata)}`;
+}
+
+async function sourceIdentity(source: UploadSource): Promise<string> {
+  if (source.id) {
+    return source.id;
+  }
+  const file = source as { name?: unknown; lastModified?: unknown };
+  if (typeof file.name === 'string' && typeof file.lastModified === 'number') {
+    return `${file.name}::${file.lastModified}`;
+  }
+  const sample = await bodyBytes(await source.slice(0, Math.min(FINGERPRINT_SAMPLE_SIZE, source.size)));
+  if (!sample) {
+    throw NetworkError.custom('Cannot read the upload data to fingerprint it; set a fingerprint or UploadSource.id');
+  }
+  return toHex(sha256(sample));
+}
+
+function readOffset(response: NetworkResponse<unknown>): number {
+  const offset = Number(response.headers['upload-offset']);
+  if (response.headers['upload-offset'] === undefined || !Number.isInteger(offset) || offset < 0) {
+    throw NetworkError.custom(`tus server returned an invalid Upload-Offset: ${response.headers['upload-offset']}`);
+  }
+  return offset;
+}
+
+// Connection problems, timeouts, server errors and offset conflicts are worth re-syncing for
+function isRetryable(error: unknown): boolean {
+  if (!(error instanceof NetworkError)) {
+    return false;
+  }
+  if (error.type === NetworkErrorType.NETWORK_FAILURE || error.type === NetworkErrorType.TIMEOUT) {
+    return true;
+  }
+  const status = error.statusCode ?? 0;
+  return error.type === NetworkErrorType.HTTP_ERROR && (status === 409 || status === 423 || status >= 500);
+}
@@ -0,0 +1,84 @@
+import { ProgressCallback, Transport, TransportRequest, createResponse } from '../core/Transport';
+import { headersToRecord } from '../core/NetworkRequestable';
+
+/**
+ * Transport using the global fetch. Upload progress is not supported, so
+ * BaseNetworkRequestable sends requests with onUploadProgress through its
+ * uploadTransport; download progress is reported where fetch exposes the
+ * response body as a stream.
+ */
+export class FetchTransport implements Transport {
+  /**
+   * False in browsers (including react-native-web), where manual redirects are
+   * opaque, and in React Native, whose fetch ignores the redirect mode and always
+   * follows redirects. There the 'manual' and 'error' policies cannot be enforced.
+   */
+  readonly manualRedirects: boolean;
+  readonly uploadProgress = false;
+  private fetchFn?: typeof fetch;
+
+  /**
+   * Create a new FetchTransport
+   * @param fetchFn The fetch implementation (default: the global fetch at the time of sending)
+   * @param manualRedirects Whether fetch exposes the Location of manual redirects (default: true outside browsers and React Native)
+   */
+  constructor(fetchFn?: typeof fetch, manualRedirects: boolean = !followsRedirectsItself()) {
+    this.fetchFn = fetchFn;
+    this.manualRedirects = manualRedirects;
+  }
+
+  /**
+   * Send a request with fetch
+   * @param request The request to send
+   * @returns A promise that resolves to the Response
+   */
+  async send(request: TransportRequest): Promise<Response> {
+    const fetchFn = this.fetchFn ?? fetch;
+    const response = await fetchFn(request.url, {
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      signal: request.signal as AbortSignal,
+      redirect: request.redirect
+    });
+    if (!request.onDownloadProgress || typeof response.body?.getReader !== 'function') {
+      return response;
+    }
+    return trackDownload(response, request.onDownloadProgress);
+  }
+}
+
+/**
+ * Check whether fetch hides manual redirects: browsers return them opaque, and
+ * React Native (which defines window but not document) follows them regardless
+ */
+function followsRedirectsItself(): boolean {
+  const isReactNative = typeof navigator !== 'undefined' && navigator.product === 'ReactNative';
+  const isBrowser = typeof window !== 'undefined' && typeof document !== 'undefined';
+  return isReactNative || isBrowser;
+}
+
+/**
+ * Wrap a response so reading its body reports progress
+ */
+function trackDownload(response: Response, onProgress: ProgressCallback): Response {
+  const reader = (response.body as ReadableStream<Uint8Array>).getReader();
+  const total = Number(response.headers.get('content-length')) || undefined;
+  let loaded = 0;
+  const body = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.close();
+        return;
+      }
+      loaded += value.length;
+      onProgress({ loaded, total });
+      controller.enqueue(value);
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+  return createResponse(body, response.status, headersToRecord(response.headers), response.url, response.statusText);
+}
@@ -0,0 +1,104 @@
+import { Transport, TransportRequest, abortError, createResponse } from '../core/Transport';
+
+/**
+ * XHRTransport settings
+ */
+export interface XHRTransportOptions {
+  /** How the response body is read (default: blob) */
+  responseType?: 'blob' | 'arraybuffer' | 'text';
+  /** Send cookies with cross-origin requests */
+  withCredentials?: boolean;
+  /** Create the XMLHttpRequest (default: new XMLHttpRequest()) */
+  createXHR?: () => XMLHttpRequest;
+}
+
+/**
+ * Transport using XMLHttpRequest, which reports upload and download progress.
+ * XMLHttpRequest always follows redirects itself, so only the final URL is known.
+ */
+export class XHRTransport implements Transport {
+  readonly manualRedirects = false;
+  private options: XHRTransportOptions;
+
+  /**
+   * Create a new XHRTransport
+   * @param options Transport settings
+   */
+  constructor(options: XHRTransportOptions = {}) {
+    this.options = options;
+  }
+
+  /**
+   * Send a request with XMLHttpRequest
+   * @param request The request to send
+   * @returns A promise that resolves to the Response
+   */
+  send(request: TransportRequest): Promise<Response> {
+    return new Promise((resolve, reject) => {
+      if (request.signal.aborted) {
+        reject(abortError());
+        return;
+      }
+
+      const xhr = this.options.createXHR ? this.options.createXHR() : new XMLHttpRequest();
+      const onAbort = () => xhr.abort();
+      const settle = (callback: () => void) => {
+        request.signal.removeEventListener('abort', onAbort);
+        callback();
+      };
+
+      xhr.open(request.method, request.url, true);
+      Object.keys(request.headers).forEach(name => xhr.setRequestHeader(name, request.headers[name]));
+      xhr.responseType = this.options.responseType ?? 'blob';
+      xhr.withCredentials = this.options.withCredentials ?? false;
+
+      // Report progress
+      const { onUploadProgress, onDownloadProgress } = request;
+      if (onUploadProgress && xhr.upload) {
+        xhr.upload.onprogress = event =>
+          onUploadProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : undefined });
+      }
+      if (onDownloadProgress) {
+        xhr.onprogress = event =>
+          onDownloadProgress({ loaded: event.loaded, total: event.lengthComputable ? event.total : undefined });
+      }
+
+      xhr.onload = () =>
+        settle(() => {
+          try {
+            resolve(createResponse(
+              xhr.response ?? null,
+              xhr.status,
+              parseResponseHeaders(xhr.getAllResponseHeaders()),
+              xhr.responseURL || request.url,
+              xhr.statusText
+            ));
+          } catch (error) {
+            reject(error);
+          }
+        });
+      xhr.onerror = () => settle(() => reject(new TypeError('Network request failed')));
+      xhr.ontimeout = () => settle(() => reject(new TypeError('Network request timed out')));
+      xhr.onabort = () => settle(() => reject(abortError()));
+
+      request.signal.addEventListener('abort', onAbort);
+      xhr.send((request.body ?? null) as XMLHttpRequestBodyInit | null);
+    });
+  }
+}
+
+/**
+ * Parse the result of getAllResponseHeaders into a record with lower-case keys
+ */
+export function parseResponseHeaders(raw: string): Record<string, string> {
+  const headers: Record<string, string> = {};
+  raw.split(/\r?\n/).forEach(line => {
+    const index = line.indexOf(':');
+    if (index > 0) {
+      const name = line.slice(0, index).trim().toLowerCase();
+      const value = line.slice(index + 1).trim();
+      headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+    }
+  });
+  return headers;
+}
@@ -22,7 +22,77 @@ export enum NetworkErrorType {
   UNAUTHORIZED = 'UNAUTHORIZED',
   CUSTOM = 'CUSTOM',
   TIMEOUT = 'TIMEOUT',
-  NETWORK_FAILURE = 'NETWORK_FAILURE'
+  NETWORK_FAILURE = 'NETWORK_FAILURE',
+  CANCELLED = 'CANCELLED',
+  INTEGRITY_ERROR = 'INTEGRITY_ERROR',
+  REDIRECT_ERROR = 'REDIRECT_ERROR'
+}
+
+/**
+ * The request an error belongs to. Sensitive headers are redacted.
+ */
+export interface NetworkErrorRequest {
+  method: HTTPMethod;
+  url: string;
+  headers: Record<string, string>;
+}
+
+/**
+ * RFC 7807 problem details, parsed from application/problem+json error bodies
+ */
+export interface ProblemDetails {
+  type?: string;
+  title?: string;
+  status?: number;
+  detail?: string;
+  instance?: string;
+  /** Extension members */
+  [key: string]: any;
+}
+
+/**
+ * Additional information attached to a NetworkError
+ */
+export interface NetworkErrorDetails {
+  /** The request that failed */
+  request?: NetworkErrorRequest;
+  /** Response headers, keyed by lower-case header name */
+  responseHeaders?: Record<string, string>;
+  /** Parsed error response body */
+  body?: unknown;
+  /** RFC 7807 problem details, if the body is application/problem+json */
+  problem?: ProblemDetails;
+  /** The underlying error */
+  cause?: unknown;
+  /** Number of attempts made, set by RetryDecorator */
+  attempts?: number;
+}
+
+/**
+ * Header names whose values are replaced by REDACTED in error metadata
+ */
+export const REDACTED_HEADERS = ['authorization', 'proxy-authorization', 'cookie', 'set-cookie', 'x-api-key'];
+
+/**
+ * Replacement value for redacted headers
+ */
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Copy headers with the values of sensitive headers redacted
+ * @param headers The headers
+ * @param sensitive Lower-case names of the headers to redact (default: REDACTED_HEADERS)
+ * @returns The redacted headers
+ */
+export function redactHeaders(
+  headers: Record<string, string>,
+  sensitive: string[] = REDACTED_HEADERS
+): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  Object.keys(headers).forEach(name => {
+    redacted[name] = sensitive.includes(name.toLowerCase()) ? REDACTED : headers[name];
+  });
+  return redacted;
 }
 
 /**
@@ -31,12 +101,54 @@ export enum NetworkErrorType {
 export class NetworkError extends Error {
   type: NetworkErrorType;
   statusCode?: number;
+  request?: NetworkErrorRequest;
+  responseHeaders?: Record<string, string>;
+  body?: unknown;
+  problem?: ProblemDetails;
+  cause?: unknown;
+  attempts?: number;
   
-  constructor(type: NetworkErrorType, message: string, statusCode?: number) {
+  constructor(type: NetworkErrorType, message: string, statusCode?: number, details: NetworkErrorDetails = {}) {
     super(message);
     this.name = 'NetworkError';
     this.type = type;
     this.statusCode = statusCode;
+    this.withDetails(details);
+  }
+
+  /**
+   * Attach additional information to the error. Undefined values are ignored.
+   * @param details The details to attach
+   * @returns The error itself
+   */
+  withDetails(details: NetworkErrorDetails): this {
+    const target: NetworkErrorDetails = this;
+    (Object.keys(details) as (keyof NetworkErrorDetails)[]).forEach(key => copyDetail(target, details, key));
+    return this;
+  }
+
+  /**
+   * Serialize the error for logging and crash reporting
+   */
+  toJSON(): Record<string, any> {
+    const cause = this.cause instanceof NetworkError
+      ? this.cause.toJSON()
+      : this.cause instanceof Error
+        ? { name: this.cause.name, message: this.cause.message }
+        : this.cause;
+    return {
+      name: this.name,
+      type: this.type,
+      message: this.message,
+      statusCode: this.statusCode,
+      request: this.request,
+      response: this.responseHeaders !== undefined || this.body !== undefined
+        ? { headers: this.responseHeaders && redactHeaders(this.responseHeaders), body: this.body }
+        : undefined,
+      problem: this.problem,
+      attempts: this.attempts,
+      cause
+    };
   }
   
   static invalidURL(url: string): NetworkError {
@@ -63,11 +175,34 @@ export class NetworkError extends Error {
     return new NetworkError(NetworkErrorType.CUSTOM, message);
   }
   
-  static timeout(): NetworkError {
-    return new NetworkError(NetworkErrorType.TIMEOUT, 'Request timed out');
+  static timeout(message: string = 'Request timed out'): NetworkError {
+    return new NetworkError(NetworkErrorType.TIMEOUT, message);
+  }
+  
+  static cancelled(): NetworkError {
+    return new NetworkError(NetworkErrorType.CANCELLED, 'Request was cancelled');
+  }
+  
+  static integrityError(message: string): NetworkError {
+    return new NetworkError(NetworkErrorType.INTEGRITY_ERROR, `Integrity check failed: ${message}`);
+  }
+  
+  static redirectError(message: string, statusCode?: number): NetworkError {
+    return new NetworkError(NetworkErrorType.REDIRECT_ERROR, `Redirect error: ${message}`, statusCode);
   }
   
   static networkFailure(message: string): NetworkError {
     return new NetworkError(NetworkErrorType.NETWORK_FAILURE, `Network failure: ${message}`);
   }
 }
+
+// Generic over the key, so the value keeps its type
+function copyDetail<K extends keyof NetworkErrorDetails>(
+  target: NetworkErrorDetails,
+  details: NetworkErrorDetails,
+  key: K
+): void {
+  if (details[key] !== undefined) {
+    target[key] = details[key];
+  }
+}
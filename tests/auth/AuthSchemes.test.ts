@@ -0,0 +1,165 @@
+import {
+  apiKeyAuth,
+  authSchemesByPrefix,
+  basicAuth,
+  bearerAuth,
+  tokenAuth
+} from '../../src/auth/AuthSchemes';
+import { BaseNetworkRequestable } from '../../src/core/BaseNetworkRequestable';
+import { NetworkClientBuilder } from '../../src/core/NetworkClientBuilder';
+import { AuthenticatedDecorator } from '../../src/decorators/AuthenticatedDecorator';
+import { MemoryTransport } from '../../src/mocks/MemoryTransport';
+import { MockNetworkRequestable } from '../../src/mocks/MockNetworkRequestable';
+import { HTTPMethod, NetworkErrorType } from '../../src/types';
+import { holdTimers } from '../setup';
+
+describe('AuthSchemes', () => {
+  const config = { method: HTTPMethod.GET, headers: { Accept: 'application/json' } };
+
+  it('should add tokens with a prefix', () => {
+    // Assertions
+    expect(bearerAuth().apply(config, 'abc').headers).toEqual({ Accept: 'application/json', Authorization: 'Bearer abc' });
+    expect(bearerAuth().apply(config, 'Bearer abc').headers['Authorization']).toBe('Bearer abc');
+    expect(tokenAuth('Token').apply(config, 'xyz').headers['Authorization']).toBe('Token xyz');
+    expect(tokenAuth('Token', 'X-Auth').apply(config, 'xyz').headers['X-Auth']).toBe('Token xyz');
+    expect(tokenAuth('Token', 'X-Auth').headerName).toBe('X-Auth');
+  });
+
+  it('should encode Basic credentials', async () => {
+    // Setup
+    const fixed = basicAuth('aladdin', 'open sesame');
+
+    // Assertions
+    expect(await fixed.credential!()).toBe('aladdin:open sesame');
+    expect(fixed.apply(config, 'aladdin:open sesame').headers['Authorization']).toBe(
+      'Basic YWxhZGRpbjpvcGVuIHNlc2FtZQ=='
+    );
+    expect(basicAuth().credential).toBeUndefined();
+    expect(basicAuth().apply(config, 'zoë:pässword').headers['Authorization']).toBe(
+      `Basic ${Buffer.from('zoë:pässword').toString('base64')}`
+    );
+  });
+
+  it('should place API keys in a header or the query string', () => {
+    // Setup
+    const header = apiKeyAuth('X-API-Key');
+    const query = apiKeyAuth('api_key', 'query', 'k-1');
+
+    // Assertions
+    expect(header.apply(config, 'k-0').headers['X-API-Key']).toBe('k-0');
+    expect(header.headerName).toBe('X-API-Key');
+    const withQuery = query.apply({ ...config, query: { page: 2 } }, 'k-1');
+    expect(withQuery.query).toEqual({ page: 2, api_key: 'k-1' });
+    expect(withQuery.headers).toEqual(config.headers);
+    expect(query.headerName).toBeUndefined();
+    expect(query.queryName).toBe('api_key');
+  });
+
+  it('should choose schemes by the longest matching endpoint prefix', () => {
+    // Setup
+    const legacy = basicAuth('app', 'secret');
+    const admin = tokenAuth('Token');
+    const select = authSchemesByPrefix({ '/legacy/': legacy, '/legacy/admin/': admin });
+
+    // Assertions
+    expect(select('/legacy/orders')).toBe(legacy);
+    expect(select('/legacy/admin/users')).toBe(admin);
+    expect(select('/v2/orders').apply(config, 't').headers['Authorization']).toBe('Bearer t');
+  });
+
+  describe('with AuthenticatedDecorator', () => {
+    let transport: MemoryTransport;
+    let client: BaseNetworkRequestable;
+    let tokenProvider: jest.Mock;
+
+    holdTimers();
+
+    beforeEach(() => {
+      transport = new MemoryTransport().on('*', /.*/, { body: { ok: true } });
+      client = new BaseNetworkRequestable('https://api.example.com', {}, 30000, { transport });
+      tokenProvider = jest.fn(() => 'user-token');
+    });
+
+    it('should authenticate each backend with its own scheme', async () => {
+      // Setup
+      const decorator = new AuthenticatedDecorator(
+        client,
+        tokenProvider,
+        () => true,
+        authSchemesByPrefix({
+          '/legacy/': basicAuth('app', 'secret'),
+          '/maps/': apiKeyAuth('key', 'query', 'maps-key'),
+          '/partners/': apiKeyAuth('X-API-Key', 'header', 'partner-key')
+        })
+      );
+
+      // Make requests
+      await decorator.request('/v2/me');
+      await decorator.request('/legacy/orders');
+      await decorator.request('/maps/tiles', { query: { z: 3 } });
+      await decorator.request('/partners/quotes');
+
+      // Assertions
+      const sent = transport.getRequestHistory();
+      expect(sent[0].headers['Authorization']).toBe('Bearer user-token');
+      expect(sent[1].headers['Authorization']).toBe(`Basic ${Buffer.from('app:secret').toString('base64')}`);
+      expect(sent[2].url).toBe('https://api.example.com/maps/tiles?z=3&key=maps-key');
+      expect(sent[2].headers['Authorization']).toBeUndefined();
+      expect(sent[3].headers['X-API-Key']).toBe('partner-key');
+      // Schemes with their own credential do not need the user's token
+      expect(tokenProvider).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let a request choose its scheme', async () => {
+      // Setup
+      const decorator = new AuthenticatedDecorator(client, tokenProvider, () => true);
+
+      // Make request
+      await decorator.request('/v2/export', { context: { authScheme: tokenAuth('Token') } });
+
+      // Assertions
+      expect(transport.getRequestHistory()[0].headers['Authorization']).toBe('Token user-token');
+    });
+
+    it('should not refresh credentials owned by the scheme on 401', async () => {
+      // Setup
+      transport.on('*', /.*/, { status: 401 });
+      const refreshToken = jest.fn(async () => 'new-token');
+      const decorator = new AuthenticatedDecorator(
+        client,
+        tokenProvider,
+        () => true,
+        apiKeyAuth('X-API-Key', 'header', 'revoked-key'),
+        { refreshToken }
+      );
+
+      // Assertions
+      await expect(decorator.request('/partners/quotes')).rejects.toMatchObject({ type: NetworkErrorType.UNAUTHORIZED });
+      expect(refreshToken).not.toHaveBeenCalled();
+      expect(transport.getRequestHistory()).toHaveLength(1);
+    });
+  });
+
+  it('should vary builder caches by the header the scheme sets', async () => {
+    // Setup
+    let key = 'key-a';
+    const mockNetworkRequestable = new MockNetworkRequestable();
+    mockNetworkRequestable.mockResponse('/quotes', HTTPMethod.GET, { ok: true });
+    const client = new NetworkClientBuilder()
+      .client(mockNetworkRequestable)
+      .withCache()
+      .withAuth(() => key, () => true, apiKeyAuth('X-API-Key'))
+      .build();
+
+    // Make requests with two keys
+    await client.request('/quotes');
+    key = 'key-b';
+    await client.request('/quotes');
+
+    // Verify each key was sent
+    expect(mockNetworkRequestable.getRequestHistory().map(record => record.headers?.['X-API-Key'])).toEqual([
+      'key-a',
+      'key-b'
+    ]);
+  });
+});
@@ -0,0 +1,320 @@
+import { createHash } from 'crypto';
+import { OAuth2Client, createCodeChallenge, createCodeVerifier } from '../../src/auth/OAuth2Client';
+import { BaseNetworkRequestable } from '../../src/core/BaseNetworkRequestable';
+import { parseQuery } from '../../src/core/QueryString';
+import { AuthenticatedDecorator } from '../../src/decorators/AuthenticatedDecorator';
+import { MemoryTransport } from '../../src/mocks/MemoryTransport';
+import { TransportRequest } from '../../src/core/Transport';
+import { NetworkError, NetworkErrorType } from '../../src/types';
+import { holdTimers } from '../setup';
+
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+
+const config = {
+  clientId: 'mobile-app',
+  authorizationEndpoint: 'https://auth.example.com/authorize',
+  tokenEndpoint: 'https://auth.example.com/token',
+  revocationEndpoint: 'https://auth.example.com/revoke',
+  redirectUri: 'myapp://oauth/callback',
+  scopes: ['openid', 'profile']
+};
+
+/**
+ * Read a form-encoded request body
+ */
+const formOf = (request: TransportRequest): Record<string, string> =>
+  Object.fromEntries(new URLSearchParams(String(request.body)));
+
+describe('OAuth2Client', () => {
+  let transport: MemoryTransport;
+  let client: BaseNetworkRequestable;
+  // Authorization server state
+  let challenges: Record<string, string>;
+  let refreshTokens: Set<string>;
+  let rotate: boolean;
+  let issued: number;
+  let revoked: string[];
+
+  holdTimers();
+
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    challenges = {};
+    refreshTokens = new Set();
+    rotate = true;
+    issued = 0;
+    revoked = [];
+
+    const issue = (withRefreshToken: boolean) => {
+      issued++;
+      const body: Record<string, any> = { access_token: `access-${issued}`, token_type: 'Bearer', expires_in: 3600 };
+      if (withRefreshToken) {
+        body.refresh_token = `refresh-${issued}`;
+        refreshTokens.add(body.refresh_token);
+      }
+      return { body };
+    };
+    const invalidGrant = { status: 400, body: { error: 'invalid_grant' } };
+
+    transport = new MemoryTransport()
+      .on('POST', 'https://auth.example.com/token', request => {
+        const form = formOf(request);
+        switch (form.grant_type) {
+          case 'authorization_code': {
+            // PKCE: the verifier must hash to the challenge sent with the authorization request
+            const challenge = createHash('sha256').update(form.code_verifier).digest('base64url');
+            if (challenges[form.code] !== challenge || form.redirect_uri !== config.redirectUri) {
+              return invalidGrant;
+            }
+            delete challenges[form.code];
+            return issue(true);
+          }
+          case 'refresh_token':
+            // Rotated refresh tokens are single-use
+            if (!refreshTokens.delete(form.refresh_token)) {
+              return invalidGrant;
+            }
+            if (!rotate) {
+              refreshTokens.add(form.refresh_token);
+            }
+            return issue(rotate);
+          case 'client_credentials':
+            return request.headers['Authorization'] === `Basic ${Buffer.from('service:s3cret').toString('base64')}`
+              ? issue(false)
+              : { status: 401, body: { error: 'invalid_client' } };
+          default:
+            return { status: 400, body: { error: 'unsupported_grant_type' } };
+        }
+      })
+      .on('POST', 'https://auth.example.com/revoke', request => {
+        revoked.push(formOf(request).token);
+        return { status: 200 };
+      });
+    client = new BaseNetworkRequestable('https://api.example.com', {}, 30000, { transport });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  /**
+   * Run the authorization-code flow as far as the redirect back to the app
+   */
+  const authorize = (oauth: OAuth2Client) => {
+    const request = oauth.createAuthorizationRequest();
+    const params = parseQuery(request.url);
+    challenges['code-1'] = params.code_challenge;
+    return { request, callbackUrl: `${config.redirectUri}?code=code-1&state=${params.state}` };
+  };
+
+  it('should create PKCE verifiers and S256 challenges', () => {
+    // Setup
+    const verifier = createCodeVerifier(length => new Uint8Array(length).fill(1));
+
+    // Assertions
+    expect(verifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(createCodeChallenge(verifier)).toBe(createHash('sha256').update(verifier).digest('base64url'));
+    // RFC 7636 appendix B
+    expect(createCodeChallenge('dBjftJeZ4CVP-mB92K27uhbUJU1p1r_wW1gFWFOEjXk')).toBe(
+      'E9Melhoa2OwvFrEMTJguCHaoeK1t8URWbuGJSstw-cM'
+    );
+  });
+
+  it('should build the authorization URL', () => {
+    // Setup
+    const oauth = new OAuth2Client(client, config);
+
+    // Make request
+    const request = oauth.createAuthorizationRequest({ prompt: 'login' });
+    const params = parseQuery(request.url);
+
+    // Assertions
+    expect(request.url.startsWith('https://auth.example.com/authorize?')).toBe(true);
+    expect(params).toEqual({
+      response_type: 'code',
+      client_id: 'mobile-app',
+      redirect_uri: 'myapp://oauth/callback',
+      scope: 'openid profile',
+      state: request.state,
+      code_challenge: request.codeChallenge,
+      code_challenge_method: 'S256',
+      prompt: 'login'
+    });
+    expect(request.codeChallenge).toBe(createCodeChallenge(request.codeVerifier));
+    expect(oauth.createAuthorizationRequest().state).not.toBe(request.state);
+    expect(() => new OAuth2Client(client, { clientId: 'x', tokenEndpoint: '/token' }).createAuthorizationRequest()).toThrow(
+      NetworkError
+    );
+  });
+
+  it('should exchange the authorization code for tokens', async () => {
+    // Setup
+    const oauth = new OAuth2Client(client, config);
+    const { request, callbackUrl } = authorize(oauth);
+
+    // Make request
+    const tokens = await oauth.exchangeCode(callbackUrl, request);
+
+    // Assertions
+    expect(tokens).toEqual(
+      expect.objectContaining({ accessToken: 'access-1', refreshToken: 'refresh-1', expiresAt: NOW + 3600000 })
+    );
+    expect(await oauth.tokenProvider()).toBe('access-1');
+    const sent = transport.getRequestHistory()[0];
+    expect(sent.headers['Content-Type']).toBe('application/x-www-form-urlencoded');
+    expect(sent.headers['Authorization']).toBeUndefined();
+    expect(formOf(sent)).toEqual(
+      expect.objectContaining({ grant_type: 'authorization_code', code: 'code-1', client_id: 'mobile-app' })
+    );
+  });
+
+  it('should reject callbacks that do not complete the authorization request', async () => {
+    // Setup
+    const oauth = new OAuth2Client(client, config);
+    const { request } = authorize(oauth);
+    const { state } = request;
+
+    // Assertions
+    await expect(oauth.exchangeCode(`${config.redirectUri}?code=code-1&state=forged`, request)).rejects.toThrow(
+      'OAuth state does not match the authorization request'
+    );
+    await expect(
+      oauth.exchangeCode(`${config.redirectUri}?error=access_denied&error_description=Denied&state=${state}`, request)
+    ).rejects.toThrow('OAuth authorization failed: access_denied: Denied');
+    await expect(oauth.exchangeCode(`${config.redirectUri}?state=${state}`, request)).rejects.toThrow(
+      'OAuth callback has no authorization code'
+    );
+    await expect(
+      oauth.exchangeCode(`${config.redirectUri}?code=code-1&state=${state}`, { ...request, codeVerifier: 'wrong' })
+    ).rejects.toMatchObject({ type: NetworkErrorType.HTTP_ERROR });
+    expect(transport.getRequestHistory()).toHaveLength(1);
+  });
+
+  it('should reject malformed redirect URLs with a NetworkError', async () => {
+    // Setup
+    const oauth = new OAuth2Client(client, config);
+    const { request } = authorize(oauth);
+
+    // Make request
+    const error = await oauth.exchangeCode(`${config.redirectUri}?code=%&state=${request.state}`, request).catch(e => e);
+
+    // Assertions
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toMatchObject({ type: NetworkErrorType.CUSTOM, message: 'Invalid redirect URL' });
+    expect(error.cause).toBeInstanceOf(URIError);
+    expect(transport.getRequestHistory()).toHaveLength(0);
+  });
+
+  it('should rotate refresh tokens', async () => {
+    // Setup
+    const oauth = new OAuth2Client(client, config);
+    const { request, callbackUrl } = authorize(oauth);
+    await oauth.exchangeCode(callbackUrl, request);
+
+    // Make requests
+    const [first, second] = await Promise.all([oauth.refresh(), oauth.refresh()]);
+
+    // Assertions
+    expect(first).toBe('access-2');
+    expect(second).toBe('access-2');
+    expect((await oauth.tokens.getTokens())?.refreshToken).toBe('refresh-2');
+    expect(refreshTokens).toEqual(new Set(['refresh-2']));
+
+    // A server that does not rotate returns no refresh token; the current one is kept
+    rotate = false;
+    expect(await oauth.refresh()).toBe('access-3');
+    expect((await oauth.tokens.getTokens())?.refreshToken).toBe('refresh-2');
+  });
+
+  it('should refresh before the access token expires', async () => {
+    // Setup
+    const oauth = new OAuth2Client(client, config);
+    const { request, callbackUrl } = authorize(oauth);
+    await oauth.exchangeCode(callbackUrl, request);
+
+    // Assertions
+    (Date.now as jest.Mock).mockReturnValue(NOW + 3590000);
+    expect(await oauth.tokenProvider()).toBe('access-2');
+    expect(formOf(transport.getRequestHistory()[1])).toEqual(
+      expect.objectContaining({ grant_type: 'refresh_token', refresh_token: 'refresh-1' })
+    );
+  });
+
+  it('should get and renew client-credentials tokens', async () => {
+    // Setup
+    const oauth = new OAuth2Client(client, {
+      clientId: 'service',
+      clientSecret: 's3cret',
+      tokenEndpoint: 'https://auth.example.com/token',
+      scopes: ['reports:read']
+    });
+
+    // Make request
+    const tokens = await oauth.clientCredentials();
+
+    // Assertions
+    expect(tokens.accessToken).toBe('access-1');
+    expect(formOf(transport.getRequestHistory()[0])).toEqual({ grant_type: 'client_credentials', scope: 'reports:read' });
+    // Without a refresh token, the grant is repeated
+    (Date.now as jest.Mock).mockReturnValue(NOW + 3600000);
+    expect(await oauth.tokenProvider()).toBe('access-2');
+    expect(transport.getRequestHistory()).toHaveLength(2);
+  });
+
+  it('should sign out when the session cannot be renewed', async () => {
+    // Setup
+    const onAuthFailure = jest.fn();
+    const oauth = new OAuth2Client(client, config, { onAuthFailure });
+    await oauth.tokens.setTokens({ accessToken: 'access-0', refreshToken: 'revoked' });
+
+    // Assertions
+    await expect(oauth.refresh()).rejects.toMatchObject({ type: NetworkErrorType.HTTP_ERROR });
+    expect(onAuthFailure).toHaveBeenCalledTimes(1);
+
+    await oauth.tokens.setTokens('access-0');
+    await expect(oauth.refresh()).rejects.toMatchObject({ type: NetworkErrorType.UNAUTHORIZED });
+  });
+
+  it('should revoke and remove the tokens', async () => {
+    // Setup
+    const oauth = new OAuth2Client(client, config);
+    const { request, callbackUrl } = authorize(oauth);
+    await oauth.exchangeCode(callbackUrl, request);
+
+    // Make request
+    await oauth.revoke();
+
+    // Assertions
+    expect(revoked).toEqual(['refresh-1', 'access-1']);
+    expect(await oauth.tokens.getTokens()).toBeUndefined();
+
+    // Tokens are removed even if the server cannot be reached
+    await oauth.tokens.setTokens('access-9');
+    transport.on('POST', 'https://auth.example.com/revoke', { status: 503 });
+    await expect(oauth.revoke()).rejects.toBeInstanceOf(NetworkError);
+    expect(await oauth.tokens.getTokens()).toBeUndefined();
+  });
+
+  it('should refresh through AuthenticatedDecorator when the API rejects the token', async () => {
+    // Setup
+    const api = new AuthenticatedDecorator(client, () => oauth.tokenProvider(), () => true, 'Authorization', {
+      refreshToken: () => oauth.authOptions.refreshToken!()
+    });
+    // Token requests go through the authenticated client without a bearer token
+    const oauth = new OAuth2Client(api, config);
+    const { request, callbackUrl } = authorize(oauth);
+    await oauth.exchangeCode(callbackUrl, request);
+    transport.on('GET', 'https://api.example.com/me', sent =>
+      sent.headers['Authorization'] === 'Bearer access-2' ? { body: { name: 'Ada' } } : { status: 401 }
+    );
+
+    // Make request
+    const me = await api.request<{ name: string }>('/me');
+
+    // Assertions
+    expect(me).toEqual({ name: 'Ada' });
+    const tokenRequests = transport.getRequestHistory().filter(sent => sent.url === config.tokenEndpoint);
+    expect(tokenRequests).toHaveLength(2);
+    expect(tokenRequests.every(sent => sent.headers['Authorization'] === undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,196 @@
+import { TokenManager, TokenStorage, decodeJwt, jwtExpiry } from '../../src/auth/TokenManager';
+import { AuthenticatedDecorator } from '../../src/decorators/AuthenticatedDecorator';
+import { MockNetworkRequestable } from '../../src/mocks/MockNetworkRequestable';
+import { HTTPMethod, NetworkError, NetworkErrorType } from '../../src/types';
+
+const NOW = Date.parse('2024-06-01T12:00:00Z');
+
+/**
+ * Create an unsigned JWT expiring at the given time
+ */
+const jwt = (exp: number, claims: Record<string, any> = {}): string => {
+  const encode = (value: object) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  return `${encode({ alg: 'none' })}.${encode({ sub: 'user', exp: exp / 1000, ...claims })}.`;
+};
+
+describe('TokenManager', () => {
+  let refresh: jest.Mock;
+  let onAuthFailure: jest.Mock;
+  let now: jest.SpyInstance;
+
+  beforeEach(() => {
+    now = jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    refresh = jest.fn(async () => ({ accessToken: jwt(NOW + 3600000), refreshToken: 'refresh-2' }));
+    onAuthFailure = jest.fn();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should decode JWT claims', () => {
+    const token = jwt(NOW, { name: 'Zoë' });
+    expect(decodeJwt(token)).toEqual({ sub: 'user', exp: NOW / 1000, name: 'Zoë' });
+    expect(jwtExpiry(`Bearer ${token}`)).toBe(NOW);
+    expect(decodeJwt('opaque-token')).toBeUndefined();
+    expect(jwtExpiry(jwt(NOW).split('.')[0] + '.e30.')).toBeUndefined();
+  });
+
+  it('should refresh the token within the refresh window before it expires', async () => {
+    // Setup
+    const manager = new TokenManager({ refresh, refreshWindow: 30000 });
+    const first = jwt(NOW + 60000);
+    await manager.setTokens({ accessToken: first, refreshToken: 'refresh-1' });
+
+    // Assertions
+    expect(await manager.getToken()).toBe(first);
+    expect(refresh).not.toHaveBeenCalled();
+    now.mockReturnValue(NOW + 31000);
+    expect(await manager.getToken()).toBe(jwt(NOW + 3600000));
+    expect(refresh).toHaveBeenCalledWith(expect.objectContaining({ accessToken: first, refreshToken: 'refresh-1' }));
+    expect((await manager.getTokens())?.refreshToken).toBe('refresh-2');
+  });
+
+  it('should accept explicit expiries', async () => {
+    // Setup
+    const manager = new TokenManager({ refresh });
+
+    // Assertions
+    await manager.setTokens({ accessToken: 'opaque', expiresIn: 3600 });
+    expect((await manager.getTokens())?.expiresAt).toBe(NOW + 3600000);
+    await manager.setTokens({ accessToken: jwt(NOW + 3600000), expiresAt: NOW + 30000 });
+    expect(manager.expiresWithin(60000)).toBe(true);
+    await manager.setTokens('opaque');
+    expect(manager.expiresWithin(Infinity)).toBe(false);
+  });
+
+  it('should compare expiry against the server clock', async () => {
+    // Setup: the device clock is five minutes behind the server
+    const manager = new TokenManager({ refresh });
+    await manager.setTokens(jwt(NOW + 120000));
+    expect(await manager.getToken()).toBe(jwt(NOW + 120000));
+
+    // Sync the clock from a response served by a cache 10 seconds after it was generated
+    const headers = new Headers({ date: new Date(NOW + 290000).toUTCString(), age: '10' });
+    manager.responseInterceptor({ headers } as Response, { url: '/', method: HTTPMethod.GET, headers: {} });
+
+    // Assertions
+    expect(manager.getClockSkew()).toBe(300000);
+    expect(manager.expiresWithin(0)).toBe(true);
+    expect(await manager.getToken()).toBe(jwt(NOW + 3600000));
+  });
+
+  it('should queue token requests behind a refresh in flight', async () => {
+    // Setup
+    let release: () => void = () => undefined;
+    refresh.mockImplementation(async () => {
+      await new Promise<void>(resolve => {
+        release = resolve;
+      });
+      return { accessToken: 'new' };
+    });
+    const manager = new TokenManager({ refresh });
+    await manager.setTokens(jwt(NOW + 1000));
+
+    // Ask for tokens while the refresh is pending
+    const tokens = Promise.all([manager.getToken(), manager.getToken(), manager.refresh()]);
+    await new Promise(resolve => setImmediate(resolve));
+    release();
+
+    // Assertions
+    expect(await tokens).toEqual(['new', 'new', 'new']);
+    expect(refresh).toHaveBeenCalledTimes(1);
+  });
+
+  it('should keep a valid token when a proactive refresh fails', async () => {
+    // Setup
+    refresh.mockRejectedValue(NetworkError.networkFailure('offline'));
+    const manager = new TokenManager({ refresh, onAuthFailure });
+    await manager.setTokens(jwt(NOW + 1000));
+
+    // Assertions
+    expect(await manager.getToken()).toBe(jwt(NOW + 1000));
+    expect(onAuthFailure).not.toHaveBeenCalled();
+  });
+
+  it('should report a failed refresh of an expired token once', async () => {
+    // Setup
+    const failure = NetworkError.httpError(400);
+    refresh.mockRejectedValue(failure);
+    const manager = new TokenManager({ refresh, onAuthFailure });
+    await manager.setTokens(jwt(NOW - 1000));
+
+    // Make concurrent requests for the token
+    const results = await Promise.allSettled([manager.getToken(), manager.getToken(), manager.refresh()]);
+
+    // Assertions
+    expect(results).toEqual([
+      { status: 'rejected', reason: failure },
+      { status: 'rejected', reason: failure },
+      { status: 'rejected', reason: failure }
+    ]);
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(onAuthFailure).toHaveBeenCalledTimes(1);
+    expect(onAuthFailure).toHaveBeenCalledWith(failure);
+  });
+
+  it('should persist tokens', async () => {
+    // Setup
+    const items: Record<string, string> = {};
+    const storage: TokenStorage = {
+      getItem: async key => items[key] ?? null,
+      setItem: async (key, value) => {
+        items[key] = value;
+      },
+      removeItem: async key => {
+        delete items[key];
+      }
+    };
+    await new TokenManager({ storage }).setTokens({ accessToken: 'stored', refreshToken: 'r', expiresIn: 60 });
+
+    // Make a new manager, as after an app restart
+    const restored = new TokenManager({ storage });
+
+    // Assertions
+    expect(await restored.getToken()).toBe('stored');
+    expect(await restored.getTokens()).toEqual({ accessToken: 'stored', refreshToken: 'r', expiresAt: NOW + 60000 });
+    await restored.clear();
+    expect(items).toEqual({});
+    expect(await restored.getToken()).toBeUndefined();
+  });
+
+  it('should authenticate requests and refresh through the manager on 401', async () => {
+    // Setup
+    const mockNetworkRequestable = new MockNetworkRequestable();
+    mockNetworkRequestable.mockResponseSequence('/me', HTTPMethod.GET, [
+      { success: false, error: NetworkError.unauthorized() },
+      { success: true, response: { id: 1 } }
+    ]);
+    const manager = new TokenManager({ refresh });
+    await manager.setTokens('revoked');
+    const client = new AuthenticatedDecorator(
+      mockNetworkRequestable,
+      manager.tokenProvider,
+      () => true,
+      'Authorization',
+      manager.authOptions
+    );
+
+    // Make request
+    const result = await client.request('/me');
+
+    // Assertions
+    expect(result).toEqual({ id: 1 });
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(mockNetworkRequestable.getRequestHistory().map(record => record.headers?.['Authorization'])).toEqual([
+      'Bearer revoked',
+      `Bearer ${jwt(NOW + 3600000)}`
+    ]);
+  });
+
+  it('should reject a refresh without a refresh function', async () => {
+    const manager = new TokenManager({ onAuthFailure });
+    await expect(manager.refresh()).rejects.toMatchObject({ type: NetworkErrorType.UNAUTHORIZED });
+    expect(onAuthFailure).toHaveBeenCalledTimes(1);
+  });
+});
@@ -1,5 +1,12 @@
 import { BaseNetworkRequestable } from '../../src/core/BaseNetworkRequestable';
 import { HTTPMethod, NetworkError, NetworkErrorType } from '../../src/types';
+import { MultipartBody } from '../../src/core/Multipart';
+import { TransportRequest, abortError, createResponse } from '../../src/core/Transport';
+import { MemoryTransport } from '../../src/mocks/MemoryTransport';
+import { CookieJar } from '../../src/core/CookieJar';
+import { EnvironmentRegistry } from '../../src/core/Environments';
+import { authenticated } from '../../src/decorators/AuthenticatedDecorator';
+import { holdTimers } from '../setup';
 
 // Use the global createMockResponse function defined in jest.setup.js
 declare global {
@@ -127,16 +134,12 @@ describe('BaseNetworkRequestable', () => {
     (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('Network failure'));
     
     // Make request and expect error
-    await expect(
-      networkRequestable.request('/users', HTTPMethod.GET)
-    ).rejects.toThrow(NetworkError);
-    
-    try {
-      await networkRequestable.request('/users', HTTPMethod.GET);
-    } catch (error) {
-      expect(error).toBeInstanceOf(NetworkError);
-      expect((error as NetworkError).type).toBe(NetworkErrorType.CUSTOM);
-    }
+    const error = await networkRequestable.request('/users', HTTPMethod.GET).catch(e => e);
+
+    // Assertions
+    expect(error).toBeInstanceOf(NetworkError);
+    expect((error as NetworkError).type).toBe(NetworkErrorType.NETWORK_FAILURE);
+    expect((error as NetworkError).message).toBe('Network failure: Network failure');
   });
 
   it('should handle timeouts', async () => {
@@ -211,6 +214,22 @@ describe('BaseNetworkRequestable', () => {
     );
   });
 
+  it('should send absolute endpoint URLs as is', async () => {
+    // Mock fetch response
+    (global.fetch as jest.Mock).mockResolvedValueOnce(
+      createMockResponse(200, { ok: true })
+    );
+
+    // Make request
+    await networkRequestable.request('https://uploads.example.com/files/abc', { query: { part: 2 } });
+
+    // Assertions
+    expect(global.fetch).toHaveBeenCalledWith(
+      'https://uploads.example.com/files/abc?part=2',
+      expect.any(Object)
+    );
+  });
+
   it('should normalize the base URL', () => {
     // Create client with trailing slash in base URL
     const clientWithTrailingSlash = new BaseNetworkRequestable(baseURL + '/');
@@ -232,4 +251,1013 @@ describe('BaseNetworkRequestable', () => {
       expect.any(Object)
     );
   });
+
+  it('should resolve requestRaw with the full response envelope', async () => {
+    // Mock data
+    const mockData = { id: 1, name: 'Test User' };
+    
+    // Mock fetch response
+    (global.fetch as jest.Mock).mockResolvedValueOnce(
+      createMockResponse(200, mockData, { 'X-RateLimit-Remaining': '42' })
+    );
+    
+    // Make request
+    const response = await networkRequestable.requestRaw('/users/1', HTTPMethod.GET);
+    
+    // Assertions
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual(mockData);
+    expect(response.url).toBe('https://api.example.com/users/1');
+    expect(response.headers).toEqual(expect.objectContaining({
+      'content-type': 'application/json',
+      'x-ratelimit-remaining': '42'
+    }));
+    expect(response.duration).toBeGreaterThanOrEqual(0);
+  });
+
+  describe('request config', () => {
+    it('should accept a RequestConfig object', async () => {
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        createMockResponse(201, { id: 1 })
+      );
+      
+      // Make request
+      const result = await networkRequestable.request('/users', {
+        method: HTTPMethod.POST,
+        body: { name: 'Test' },
+        headers: { 'X-Custom-Header': 'Custom Value' }
+      });
+      
+      // Assertions
+      expect(result).toEqual({ id: 1 });
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.example.com/users',
+        expect.objectContaining({
+          method: 'POST',
+          headers: expect.objectContaining({ 'X-Custom-Header': 'Custom Value' }),
+          body: JSON.stringify({ name: 'Test' })
+        })
+      );
+    });
+
+    it('should default to GET and append query parameters', async () => {
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        createMockResponse(200, [])
+      );
+      
+      // Make request
+      await networkRequestable.request('/search', {
+        query: { q: 'a&b', page: 2, tag: ['x', 'y'], empty: undefined }
+      });
+      
+      // Assertions
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.example.com/search?q=a%26b&page=2&tag=x&tag=y',
+        expect.objectContaining({ method: 'GET' })
+      );
+    });
+
+    it('should serialize query parameters with the configured array format', async () => {
+      // Create client with brackets as the default array format
+      const client = new BaseNetworkRequestable(baseURL, {}, 30000, {
+        query: { arrayFormat: 'brackets' }
+      });
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce(createMockResponse(200, []))
+        .mockResolvedValueOnce(createMockResponse(200, []));
+      
+      // Make requests with the default and a per-request format
+      await client.request('/search?sort=asc', { query: { tag: ['x', 'y'], filter: { name: 'a b' } } });
+      await client.request('/search', { query: { tag: ['x', 'y'] }, queryOptions: { arrayFormat: 'comma' } });
+      
+      // Assertions
+      expect((global.fetch as jest.Mock).mock.calls[0][0]).toBe(
+        'https://api.example.com/search?sort=asc&tag[]=x&tag[]=y&filter[name]=a%20b'
+      );
+      expect((global.fetch as jest.Mock).mock.calls[1][0]).toBe(
+        'https://api.example.com/search?tag=x,y'
+      );
+    });
+
+    it('should expand path parameters and expose the route to interceptors', async () => {
+      // Record the route seen by interceptors
+      const routes: Array<string | undefined> = [];
+      networkRequestable.addRequestInterceptor(request => {
+        routes.push(request.route);
+      });
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(200, {}));
+      
+      // Make request
+      await networkRequestable.request('/users/:id/files/{name}', {
+        params: { id: 42, name: 'a/b.txt' }
+      });
+      
+      // Assertions
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.example.com/users/42/files/a%2Fb.txt',
+        expect.any(Object)
+      );
+      expect(routes).toEqual(['/users/:id/files/{name}']);
+    });
+
+    it('should reject templates with missing path parameters', async () => {
+      // Make request and expect error
+      await expect(
+        networkRequestable.request('/users/:id', { params: {} })
+      ).rejects.toMatchObject({ type: NetworkErrorType.INVALID_URL });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should use the per-request timeout', async () => {
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        createMockResponse(200, {})
+      );
+      
+      // Make request
+      await networkRequestable.request('/slow-endpoint', { timeout: 120000 });
+      
+      // Assertions
+      expect(global.setTimeout).toHaveBeenCalledWith(expect.any(Function), 120000);
+    });
+  });
+
+  describe('request bodies', () => {
+    const sentRequest = () => (global.fetch as jest.Mock).mock.calls[0][1];
+
+    beforeEach(() => {
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(200, {}));
+    });
+
+    it('should form-encode objects when the request asks for form-urlencoded', async () => {
+      // Make request
+      await networkRequestable.request('/oauth/token', {
+        method: HTTPMethod.POST,
+        headers: { 'content-type': 'application/x-www-form-urlencoded' },
+        body: { grant_type: 'password', username: 'ann' }
+      });
+
+      // Assertions
+      expect(sentRequest().body).toBe('grant_type=password&username=ann');
+      expect(sentRequest().headers).toEqual({
+        'Accept': 'application/json',
+        'content-type': 'application/x-www-form-urlencoded'
+      });
+    });
+
+    it('should send strings as plain text', async () => {
+      // Make request
+      await networkRequestable.request('/notes', { method: HTTPMethod.POST, body: 'hello' });
+
+      // Assertions
+      expect(sentRequest().body).toBe('hello');
+      expect(sentRequest().headers['Content-Type']).toBe('text/plain');
+    });
+
+    it('should send binary bodies as they are', async () => {
+      // Setup
+      const bytes = new Uint8Array([1, 2, 3]);
+
+      // Make request
+      await networkRequestable.request('/upload', { method: HTTPMethod.PUT, body: bytes.buffer });
+
+      // Assertions
+      expect(sentRequest().body).toBe(bytes.buffer);
+      expect(sentRequest().headers['Content-Type']).toBe('application/octet-stream');
+    });
+
+    it('should keep an explicit Content-Type for native bodies', async () => {
+      // Make request
+      await networkRequestable.request('/upload', {
+        method: HTTPMethod.PUT,
+        headers: { 'Content-Type': 'image/png' },
+        body: new Uint8Array([1])
+      });
+
+      // Assertions
+      expect(sentRequest().headers['Content-Type']).toBe('image/png');
+    });
+
+    it('should use the client default Content-Type for objects', async () => {
+      // Setup
+      const client = new BaseNetworkRequestable(baseURL, { 'Content-Type': 'application/x-www-form-urlencoded' });
+
+      // Make request
+      await client.request('/login', { method: HTTPMethod.POST, body: { user: 'ann' } });
+
+      // Assertions
+      expect(sentRequest().body).toBe('user=ann');
+    });
+
+    it('should use custom serializers', async () => {
+      // Setup
+      networkRequestable.registerSerializer({
+        contentType: 'application/x-msgpack',
+        serialize: () => new Uint8Array([0x80])
+      });
+
+      // Make request
+      await networkRequestable.request('/events', {
+        method: HTTPMethod.POST,
+        headers: { 'Content-Type': 'application/x-msgpack' },
+        body: {}
+      });
+
+      // Assertions
+      expect(sentRequest().body).toEqual(new Uint8Array([0x80]));
+      expect(sentRequest().headers['Content-Type']).toBe('application/x-msgpack');
+    });
+
+    it('should reject objects with a Content-Type that has no serializer', async () => {
+      // Make request and expect error
+      await expect(networkRequestable.request('/events', {
+        method: HTTPMethod.POST,
+        headers: { 'Content-Type': 'application/x-protobuf' },
+        body: { id: 1 }
+      })).rejects.toMatchObject({ type: NetworkErrorType.CUSTOM });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should pass multipart bodies and upload progress to the transport', async () => {
+      // Setup
+      const transport = { send: jest.fn().mockResolvedValue(createMockResponse(201, { id: 1 })) };
+      const client = new BaseNetworkRequestable(baseURL, {}, 30000, { transport });
+      const onUploadProgress = jest.fn();
+      const body = new MultipartBody().append('caption', 'Beach');
+
+      // Make request
+      await client.request('/photos', { method: HTTPMethod.POST, body, onUploadProgress });
+
+      // Assertions
+      const request = transport.send.mock.calls[0][0];
+      expect(request.body).toBeInstanceOf(FormData);
+      expect(request.body.get('caption')).toBe('Beach');
+      expect(request.headers).toEqual({ 'Accept': 'application/json' });
+      expect(request.onUploadProgress).toBe(onUploadProgress);
+    });
+
+    it('should send requests with upload progress through the upload transport', async () => {
+      // Setup
+      const uploadTransport = { send: jest.fn().mockResolvedValue(createMockResponse(201, { id: 1 })) };
+      const client = new BaseNetworkRequestable(baseURL, {}, 30000, { uploadTransport });
+      const onUploadProgress = jest.fn();
+
+      // Make requests with and without upload progress
+      const tracked = await client.request('/photos', { method: HTTPMethod.POST, body: { id: 1 }, onUploadProgress });
+      const untracked = await client.request('/photos', { method: HTTPMethod.POST, body: { id: 2 } });
+
+      // Assertions
+      expect(tracked).toEqual({ id: 1 });
+      expect(untracked).toEqual({});
+      expect(uploadTransport.send).toHaveBeenCalledTimes(1);
+      expect(uploadTransport.send.mock.calls[0][0].onUploadProgress).toBe(onUploadProgress);
+      expect(global.fetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject upload progress when no transport can report it', async () => {
+      // Make request and expect error, as there is no XMLHttpRequest here
+      await expect(networkRequestable.request('/photos', {
+        method: HTTPMethod.POST,
+        body: { id: 1 },
+        onUploadProgress: jest.fn()
+      })).rejects.toMatchObject({ type: NetworkErrorType.CUSTOM });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should serialize the body after request interceptors', async () => {
+      // Setup
+      networkRequestable.addRequestInterceptor(request => ({
+        ...request,
+        body: { ...(request.body as Record<string, any>), signed: true }
+      }));
+
+      // Make request
+      await networkRequestable.request('/users', { method: HTTPMethod.POST, body: { name: 'Ann' } });
+
+      // Assertions
+      expect(sentRequest().body).toBe(JSON.stringify({ name: 'Ann', signed: true }));
+    });
+  });
+
+  describe('response formats', () => {
+    it('should resolve with undefined for 204 responses', async () => {
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      // Make request
+      const response = await networkRequestable.requestRaw('/users/1', HTTPMethod.DELETE);
+
+      // Assertions
+      expect(response.status).toBe(204);
+      expect(response.data).toBeUndefined();
+    });
+
+    it('should not read the body of HEAD responses', async () => {
+      // Mock fetch response
+      const mockResponse = createMockResponse(200, { ignored: true });
+      (global.fetch as jest.Mock).mockResolvedValueOnce(mockResponse);
+
+      // Make request
+      const result = await networkRequestable.request('/files/1', HTTPMethod.HEAD);
+
+      // Assertions
+      expect(result).toBeUndefined();
+      expect(mockResponse.json).not.toHaveBeenCalled();
+    });
+
+    it('should keep text responses as text', async () => {
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        new Response('123', { headers: { 'Content-Type': 'text/plain' } })
+      );
+
+      // Make request
+      const result = await networkRequestable.request('/count', HTTPMethod.GET);
+
+      // Assertions
+      expect(result).toBe('123');
+    });
+
+    it('should resolve binary content types with a Blob', async () => {
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        new Response(new Uint8Array([0x25, 0x50, 0x44, 0x46]), { headers: { 'Content-Type': 'application/pdf' } })
+      );
+
+      // Make request
+      const result = await networkRequestable.request<Blob>('/invoices/1.pdf', HTTPMethod.GET);
+
+      // Assertions
+      expect(result).toBeInstanceOf(Blob);
+      expect(result.size).toBe(4);
+    });
+
+    it('should use the requested response format', async () => {
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        new Response(new Uint8Array([1, 2, 3]), { headers: { 'Content-Type': 'application/json' } })
+      );
+
+      // Make request
+      const result = await networkRequestable.request<ArrayBuffer>('/raw', { responseFormat: 'arrayBuffer' });
+
+      // Assertions
+      expect(Array.from(new Uint8Array(result))).toEqual([1, 2, 3]);
+    });
+
+    it('should parse responses with registered parsers', async () => {
+      // Setup
+      networkRequestable.registerParser({
+        format: 'csv',
+        contentTypes: ['text/csv'],
+        parse: async response => (await response.text()).trim().split('\n').map(line => line.split(','))
+      });
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        new Response('id,name\n1,Ann\n', { headers: { 'Content-Type': 'text/csv' } })
+      );
+
+      // Make request
+      const result = await networkRequestable.request('/export', HTTPMethod.GET);
+
+      // Assertions
+      expect(result).toEqual([['id', 'name'], ['1', 'Ann']]);
+    });
+
+    it('should reject unknown response formats', async () => {
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(200, {}));
+
+      // Make request and expect error
+      await expect(networkRequestable.request('/export', { responseFormat: 'xml' }))
+        .rejects.toMatchObject({ type: NetworkErrorType.CUSTOM });
+    });
+  });
+
+  describe('response validation', () => {
+    it('should resolve with the decoded body', async () => {
+      // Setup
+      class User {
+        constructor(public id: number) {}
+
+        static decode(data: any): User {
+          return new User(data.id);
+        }
+      }
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(200, { id: 7 }));
+
+      // Make request
+      const result = await networkRequestable.request('/users/7', { responseType: User });
+
+      // Assertions
+      expect(result).toBeInstanceOf(User);
+      expect(result.id).toBe(7);
+    });
+
+    it('should reject payloads that do not match the schema', async () => {
+      // Setup
+      const schema = {
+        parse: (data: any) => {
+          if (typeof data.id !== 'number') {
+            throw Object.assign(new Error('Validation failed'), {
+              issues: [{ path: ['id'], message: 'Expected number, received string' }]
+            });
+          }
+          return data;
+        }
+      };
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(200, { id: '7' }));
+
+      // Make request and expect error
+      await expect(networkRequestable.request('/users/7', { responseType: schema })).rejects.toMatchObject({
+        type: NetworkErrorType.DECODING_ERROR,
+        message: 'Decoding error: id: Expected number, received string'
+      });
+    });
+
+    it('should not decode bodiless responses', async () => {
+      // Setup
+      const schema = { parse: jest.fn() };
+      (global.fetch as jest.Mock).mockResolvedValueOnce(new Response(null, { status: 204 }));
+
+      // Make request
+      await networkRequestable.request('/users/7', { method: HTTPMethod.DELETE, responseType: schema });
+
+      // Assertions
+      expect(schema.parse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('error details', () => {
+    it('should attach the error body, response headers and redacted request', async () => {
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        new Response(JSON.stringify({ errors: { email: 'is invalid' } }), {
+          status: 422,
+          headers: { 'Content-Type': 'application/json', 'X-Request-Id': 'abc', 'Set-Cookie': 'session=abc' }
+        })
+      );
+
+      // Make request and expect error
+      const error: NetworkError = await networkRequestable
+        .request('/users', {
+          method: HTTPMethod.POST,
+          body: { email: 'x' },
+          headers: { Authorization: 'Bearer secret' }
+        })
+        .catch(e => e);
+
+      // Assertions
+      expect(error.type).toBe(NetworkErrorType.HTTP_ERROR);
+      expect(error.statusCode).toBe(422);
+      expect(error.body).toEqual({ errors: { email: 'is invalid' } });
+      expect(error.responseHeaders).toMatchObject({ 'x-request-id': 'abc', 'set-cookie': '[REDACTED]' });
+      expect(error.request).toEqual({
+        method: HTTPMethod.POST,
+        url: 'https://api.example.com/users',
+        headers: expect.objectContaining({ Authorization: '[REDACTED]', 'Content-Type': 'application/json' })
+      });
+      expect(error.problem).toBeUndefined();
+    });
+
+    it('should parse RFC 7807 problem details', async () => {
+      // Mock fetch response
+      const problem = { type: 'https://example.com/probs/out-of-credit', title: 'Out of credit', status: 403, balance: 30 };
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        new Response(JSON.stringify(problem), {
+          status: 403,
+          headers: { 'Content-Type': 'application/problem+json' }
+        })
+      );
+
+      // Make request and expect error
+      const error: NetworkError = await networkRequestable.request('/purchases', HTTPMethod.POST).catch(e => e);
+
+      // Assertions
+      expect(error.problem).toEqual(problem);
+      expect(error.problem?.title).toBe('Out of credit');
+    });
+
+    it('should keep 401 errors unauthorized and ignore unreadable bodies', async () => {
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(new Response('', { status: 401 }));
+
+      // Make request and expect error
+      const error: NetworkError = await networkRequestable.request('/me', HTTPMethod.GET).catch(e => e);
+
+      // Assertions
+      expect(error.type).toBe(NetworkErrorType.UNAUTHORIZED);
+      expect(error.body).toBeUndefined();
+      expect(error.request?.url).toBe('https://api.example.com/me');
+    });
+
+    it('should keep the underlying error as cause', async () => {
+      // Mock fetch failure
+      const failure = new TypeError('Network request failed');
+      (global.fetch as jest.Mock).mockRejectedValueOnce(failure);
+
+      // Make request and expect error
+      const error: NetworkError = await networkRequestable.request('/users', HTTPMethod.GET).catch(e => e);
+
+      // Assertions
+      expect(error.cause).toBe(failure);
+      expect(error.toJSON()).toMatchObject({
+        type: NetworkErrorType.NETWORK_FAILURE,
+        request: { method: HTTPMethod.GET, url: 'https://api.example.com/users' },
+        cause: { name: 'TypeError', message: 'Network request failed' }
+      });
+    });
+  });
+
+  describe('timeouts', () => {
+    let timers: { callback: () => void; ms: number }[];
+    const flush = () => new Promise(resolve => setImmediate(resolve));
+    const fire = (ms: number) => timers.filter(timer => timer.ms === ms).forEach(timer => timer.callback());
+
+    beforeEach(() => {
+      // Hold timers until the test fires them
+      timers = [];
+      (global.setTimeout as unknown as jest.Mock).mockImplementation((callback: () => void, ms: number) => {
+        timers.push({ callback, ms });
+        return timers.length;
+      });
+    });
+
+    afterEach(() => {
+      (global.setTimeout as unknown as jest.Mock).mockImplementation((callback: () => void) => {
+        callback();
+        return 123;
+      });
+      jest.restoreAllMocks();
+    });
+
+    it('should time out while the response body is being read', async () => {
+      // Mock a response whose body never arrives
+      (global.fetch as jest.Mock).mockResolvedValueOnce({
+        ...createMockResponse(200, {}),
+        json: () => new Promise(() => undefined)
+      });
+
+      // Make request
+      const promise = networkRequestable.request('/slow-endpoint', { timeout: 5000 });
+      await flush();
+      fire(5000);
+
+      // Assertions
+      await expect(promise).rejects.toMatchObject({ type: NetworkErrorType.TIMEOUT, message: 'Request timed out' });
+    });
+
+    it('should clear the timer when fetch rejects', async () => {
+      // Mock network failure
+      (global.fetch as jest.Mock).mockRejectedValueOnce(new Error('Network failure'));
+
+      // Make request
+      await expect(networkRequestable.request('/users')).rejects.toThrow(NetworkError);
+
+      // Assertions
+      expect(global.clearTimeout).toHaveBeenCalledWith(1);
+    });
+
+    it('should time out when no progress arrives within the idle timeout', async () => {
+      // Setup a transport that reports some progress, then stalls
+      const transport = {
+        send: jest.fn((request: TransportRequest) => {
+          request.onDownloadProgress?.({ loaded: 1024 });
+          return new Promise<Response>((resolve, reject) => {
+            request.signal.addEventListener('abort', () => reject(abortError()));
+          });
+        })
+      };
+      const client = new BaseNetworkRequestable(baseURL, {}, 30000, { transport, idleTimeout: 500 });
+
+      // Make request
+      const onDownloadProgress = jest.fn();
+      const promise = client.request('/large-file', { onDownloadProgress });
+      await flush();
+
+      // Assertions
+      expect(onDownloadProgress).toHaveBeenCalledWith({ loaded: 1024 });
+      expect(timers.filter(timer => timer.ms === 500)).toHaveLength(2);
+      timers[timers.length - 1].callback();
+      await expect(promise).rejects.toMatchObject({
+        type: NetworkErrorType.TIMEOUT,
+        message: 'Request timed out: no data received for 500ms'
+      });
+    });
+
+    it('should cut the timeout short at the request deadline', async () => {
+      // Setup
+      jest.spyOn(Date, 'now').mockReturnValue(1000);
+      (global.fetch as jest.Mock).mockResolvedValueOnce(createMockResponse(200, {}));
+
+      // Make request
+      await networkRequestable.request('/users', { totalTimeout: 2000 });
+
+      // Assertions
+      expect(global.setTimeout).toHaveBeenCalledWith(expect.any(Function), 2000);
+    });
+
+    it('should not send the request once the deadline has passed', async () => {
+      // Make request
+      await expect(
+        networkRequestable.request('/users', { deadline: Date.now() - 1 })
+      ).rejects.toMatchObject({ type: NetworkErrorType.TIMEOUT, message: 'Request deadline exceeded' });
+
+      // Assertions
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('redirects', () => {
+    let transport: MemoryTransport;
+    let client: BaseNetworkRequestable;
+
+    holdTimers();
+
+    beforeEach(() => {
+      transport = new MemoryTransport()
+        .on(HTTPMethod.GET, '/old', { status: 301, headers: { location: '/new' } })
+        .on(HTTPMethod.GET, '/new', { status: 302, headers: { location: 'https://api.example.com/final' } })
+        .on(HTTPMethod.GET, '/final', { body: { id: 1 } });
+      client = new BaseNetworkRequestable(baseURL, {}, 30000, { transport });
+    });
+
+    it('should follow redirects and expose the chain and final URL', async () => {
+      // Make request
+      const response = await client.requestRaw('/old', { headers: { Authorization: 'Bearer token123' } });
+
+      // Assertions
+      expect(response.data).toEqual({ id: 1 });
+      expect(response.url).toBe('https://api.example.com/final');
+      expect(response.redirects).toEqual(['https://api.example.com/old', 'https://api.example.com/new']);
+      expect(transport.getRequestHistory().every(request => request.headers['Authorization'] === 'Bearer token123')).toBe(true);
+    });
+
+    it('should drop authentication headers on cross-origin redirects', async () => {
+      // Setup
+      transport
+        .on(HTTPMethod.GET, '/download', { status: 302, headers: { location: 'https://cdn.example.com/file.bin' } })
+        .on(HTTPMethod.GET, 'https://cdn.example.com/file.bin', { body: 'file contents' });
+      const authenticatedClient = authenticated(client, () => 'token123', () => true);
+
+      // Make request
+      await authenticatedClient.request('/download', { headers: { 'X-Request-Id': 'abc' } });
+
+      // Assertions
+      const [first, second] = transport.getRequestHistory();
+      expect(first.headers['Authorization']).toBe('Bearer token123');
+      expect(second.url).toBe('https://cdn.example.com/file.bin');
+      expect(second.headers['Authorization']).toBeUndefined();
+      expect(second.headers['X-Request-Id']).toBe('abc');
+    });
+
+    it('should switch to GET without a body after a 303', async () => {
+      // Setup
+      transport.on(HTTPMethod.POST, '/orders', { status: 303, headers: { location: '/orders/7' } });
+      transport.on(HTTPMethod.GET, '/orders/7', { body: { id: 7 } });
+
+      // Make request
+      const result = await client.request('/orders', { method: HTTPMethod.POST, body: { item: 'book' } });
+
+      // Assertions
+      expect(result).toEqual({ id: 7 });
+      const redirected = transport.getRequestHistory()[1];
+      expect(redirected.method).toBe(HTTPMethod.GET);
+      expect(redirected.body).toBeUndefined();
+      expect(redirected.headers['Content-Type']).toBeUndefined();
+    });
+
+    it('should resolve with the redirect when the policy is manual', async () => {
+      // Make request
+      const response = await client.requestRaw('/old', { redirect: 'manual' });
+
+      // Assertions
+      expect(response.status).toBe(301);
+      expect(response.headers['location']).toBe('/new');
+      expect(response.data).toBeUndefined();
+      expect(transport.getRequestHistory()).toHaveLength(1);
+    });
+
+    it('should reject redirects when the policy is error', async () => {
+      const noRedirects = new BaseNetworkRequestable(baseURL, {}, 30000, { transport, redirect: 'error' });
+      await expect(noRedirects.request('/old')).rejects.toMatchObject({
+        type: NetworkErrorType.REDIRECT_ERROR,
+        statusCode: 301,
+        message: 'Redirect error: 301 redirect to /new is not allowed'
+      });
+    });
+
+    it('should stop after the maximum number of redirects', async () => {
+      // Setup
+      transport.on(HTTPMethod.GET, '/loop', { status: 302, headers: { location: '/loop' } });
+
+      // Make request and expect error
+      await expect(client.request('/loop', { maxRedirects: 3 })).rejects.toMatchObject({
+        type: NetworkErrorType.REDIRECT_ERROR,
+        message: 'Redirect error: more than 3 redirects'
+      });
+      expect(transport.getRequestHistory()).toHaveLength(4);
+    });
+
+    it('should let the transport follow redirects when it cannot expose their Location', async () => {
+      // Setup a browser-like transport that answers manual redirects opaquely
+      transport.manualRedirects = false;
+      transport.on(HTTPMethod.POST, '/checkout', request =>
+        request.redirect === 'manual'
+          ? opaqueRedirect()
+          : createResponse('{"id":7}', 200, { 'content-type': 'application/json' }, 'https://api.example.com/orders/7')
+      );
+
+      // Make request
+      const response = await client.requestRaw('/checkout', { method: HTTPMethod.POST, body: { item: 'book' } });
+
+      // Assertions
+      expect(response.data).toEqual({ id: 7 });
+      expect(response.redirects).toEqual(['https://api.example.com/checkout']);
+      const posts = transport.getRequestHistory().filter(request => request.method === HTTPMethod.POST);
+      expect(posts).toHaveLength(1);
+      expect(posts[0].redirect).toBe('follow');
+    });
+
+    it('should never send a request again after an opaque redirect', async () => {
+      // Setup
+      transport.on(HTTPMethod.POST, '/checkout', () => opaqueRedirect());
+
+      // Make request and expect error
+      await expect(
+        client.request('/checkout', { method: HTTPMethod.POST, body: { item: 'book' } })
+      ).rejects.toMatchObject({ type: NetworkErrorType.REDIRECT_ERROR });
+
+      // Assertions
+      const posts = transport.getRequestHistory().filter(request => request.method === HTTPMethod.POST);
+      expect(posts).toHaveLength(1);
+    });
+
+    it('should resolve with an opaque redirect when the policy is manual', async () => {
+      // Setup
+      transport.on(HTTPMethod.POST, '/checkout', () => opaqueRedirect());
+
+      // Make request
+      const response = await client.requestRaw('/checkout', { method: HTTPMethod.POST, redirect: 'manual' });
+
+      // Assertions
+      expect(response.status).toBe(0);
+      expect(transport.getRequestHistory()).toHaveLength(1);
+    });
+
+    it('should report redirects followed by the transport', async () => {
+      // Setup a transport that follows redirects itself, like XHR
+      const following = {
+        send: jest.fn(async () => createResponse('{"id":1}', 200, { 'content-type': 'application/json' }, 'https://api.example.com/final'))
+      };
+      const followingClient = new BaseNetworkRequestable(baseURL, {}, 30000, { transport: following });
+
+      // Make request
+      const response = await followingClient.requestRaw('/old');
+
+      // Assertions
+      expect(response.url).toBe('https://api.example.com/final');
+      expect(response.redirects).toEqual(['https://api.example.com/old']);
+    });
+  });
+
+  describe('services', () => {
+    holdTimers();
+
+    it('should send requests to the named service of the active environment', async () => {
+      // Setup
+      const environments = new EnvironmentRegistry(
+        {
+          staging: { api: 'https://api.staging.example.com/', auth: 'https://auth.staging.example.com' },
+          prod: { api: 'https://api.example.com/v1', auth: 'https://auth.example.com' }
+        },
+        'prod'
+      );
+      const transport = new MemoryTransport().on('*', /.*/, { body: { ok: true } });
+      const client = new BaseNetworkRequestable(environments, {}, 30000, { transport });
+
+      // Make requests
+      await client.request('/users');
+      await client.request('/token', { method: HTTPMethod.POST, service: 'auth' });
+      environments.setEnvironment('staging');
+      await client.request('users');
+
+      // Assertions
+      expect(transport.getRequestHistory().map(request => request.url)).toEqual([
+        'https://api.example.com/v1/users',
+        'https://auth.example.com/token',
+        'https://api.staging.example.com/users'
+      ]);
+    });
+
+    it('should reject a service that is not configured', async () => {
+      // Setup
+      const transport = new MemoryTransport().on('*', /.*/, { body: { ok: true } });
+      const client = new BaseNetworkRequestable(baseURL, {}, 30000, { transport });
+
+      // Make request and verify
+      await expect(client.request('/token', { service: 'auth' })).rejects.toMatchObject({
+        type: NetworkErrorType.INVALID_URL
+      });
+      expect(transport.getRequestHistory()).toHaveLength(0);
+    });
+  });
+
+  describe('cookies', () => {
+    holdTimers();
+
+    it('should store Set-Cookie headers and send the cookies with later requests', async () => {
+      // Setup
+      const cookieJar = new CookieJar();
+      const transport = new MemoryTransport()
+        .on(HTTPMethod.POST, '/login', { headers: { 'set-cookie': 'session=abc; Path=/; HttpOnly' }, body: { ok: true } })
+        .on(HTTPMethod.GET, '/profile', { body: { name: 'Ada' } });
+      const client = new BaseNetworkRequestable(baseURL, {}, 30000, { transport, cookieJar });
+
+      // Make requests
+      await client.request('/login', { method: HTTPMethod.POST, body: { user: 'ada' } });
+      await client.request('/profile', { headers: { Cookie: 'theme=dark' } });
+
+      // Assertions
+      const [login, profile] = transport.getRequestHistory();
+      expect(login.headers['Cookie']).toBeUndefined();
+      expect(profile.headers['Cookie']).toBe('theme=dark; session=abc');
+      await cookieJar.clear();
+      await client.request('/profile');
+      expect(transport.getRequestHistory()[2].headers['Cookie']).toBeUndefined();
+    });
+
+    it('should apply cookies set by a redirect to the next hop', async () => {
+      // Setup
+      const cookieJar = new CookieJar();
+      const transport = new MemoryTransport()
+        .on(HTTPMethod.GET, '/sso', { status: 302, headers: { location: '/home', 'set-cookie': 'sso=1' } })
+        .on(HTTPMethod.GET, '/home', { body: 'welcome' });
+      const client = new BaseNetworkRequestable(baseURL, {}, 30000, { transport, cookieJar });
+
+      // Make request
+      await client.request('/sso');
+
+      // Assertions
+      expect(transport.getRequestHistory()[1].headers['Cookie']).toBe('sso=1');
+    });
+  });
+
+  describe('cancellation', () => {
+    const abortError = () => Object.assign(new Error('The operation was aborted'), { name: 'AbortError' });
+
+    it('should not call fetch when the signal is already aborted', async () => {
+      // Abort before the request starts
+      const controller = new AbortController();
+      controller.abort();
+      
+      // Make request and expect error
+      await expect(
+        networkRequestable.request('/users', HTTPMethod.GET, undefined, undefined, {}, controller.signal)
+      ).rejects.toMatchObject({ type: NetworkErrorType.CANCELLED });
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should abort the in-flight fetch when the signal is aborted', async () => {
+      // Keep the timeout from firing so only the caller can abort
+      (global.setTimeout as unknown as jest.Mock).mockImplementationOnce(() => 0);
+      
+      // Mock a fetch that only settles when aborted
+      (global.fetch as jest.Mock).mockImplementationOnce((url: string, options: RequestInit) =>
+        new Promise((resolve, reject) => {
+          options.signal!.addEventListener('abort', () => reject(abortError()));
+        })
+      );
+      
+      // Make request and abort it
+      const controller = new AbortController();
+      const promise = networkRequestable.request('/users', HTTPMethod.GET, undefined, undefined, {}, controller.signal);
+      controller.abort();
+      
+      // Assertions
+      await expect(promise).rejects.toMatchObject({ type: NetworkErrorType.CANCELLED });
+    });
+
+    it('should report a timeout when the request is aborted without the caller signal', async () => {
+      // Mock an aborted fetch
+      (global.fetch as jest.Mock).mockRejectedValueOnce(abortError());
+      
+      // Make request and expect error
+      await expect(
+        networkRequestable.request('/users', HTTPMethod.GET, undefined, undefined, {}, new AbortController().signal)
+      ).rejects.toMatchObject({ type: NetworkErrorType.TIMEOUT });
+    });
+  });
+
+  describe('interceptors', () => {
+    it('should let request interceptors rewrite the URL, headers and body', async () => {
+      // Register interceptors
+      networkRequestable.addRequestInterceptor(request => ({
+        ...request,
+        url: `${request.url}?locale=en`,
+        headers: { ...request.headers, 'Accept-Language': 'en-US' }
+      }));
+      networkRequestable.addRequestInterceptor(async request => ({
+        ...request,
+        body: { ...request.body, deviceId: 'device-1' }
+      }));
+      
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        createMockResponse(200, { ok: true })
+      );
+      
+      // Make request
+      await networkRequestable.request('/users', HTTPMethod.POST, { name: 'Test' });
+      
+      // Assertions
+      expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.example.com/users?locale=en',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'Accept-Language': 'en-US' }),
+          body: JSON.stringify({ name: 'Test', deviceId: 'device-1' })
+        })
+      );
+    });
+
+    it('should short-circuit when a request interceptor returns a response', async () => {
+      // Register interceptors
+      const skipped = jest.fn();
+      networkRequestable.addRequestInterceptor(() => createMockResponse(200, { cached: true }));
+      networkRequestable.addRequestInterceptor(skipped);
+      
+      // Make request
+      const result = await networkRequestable.request('/users', HTTPMethod.GET);
+      
+      // Assertions
+      expect(result).toEqual({ cached: true });
+      expect(skipped).not.toHaveBeenCalled();
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should let response interceptors replace the response before parsing', async () => {
+      // Unwrap the { data } envelope returned by the API
+      networkRequestable.addResponseInterceptor(async response => {
+        const envelope = await response.json();
+        return createMockResponse(response.status, envelope.data);
+      });
+      
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        createMockResponse(200, { data: { id: 1 } })
+      );
+      
+      // Make request
+      const result = await networkRequestable.request('/users/1', HTTPMethod.GET);
+      
+      // Assertions
+      expect(result).toEqual({ id: 1 });
+    });
+
+    it('should surface errors thrown by interceptors', async () => {
+      // Reject every response
+      networkRequestable.addResponseInterceptor(() => {
+        throw NetworkError.custom('Rejected by interceptor');
+      });
+      
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        createMockResponse(200, { id: 1 })
+      );
+      
+      // Make request and expect error
+      await expect(
+        networkRequestable.request('/users/1', HTTPMethod.GET)
+      ).rejects.toThrow('Rejected by interceptor');
+    });
+
+    it('should stop calling an interceptor once it is removed', async () => {
+      // Register and remove an interceptor
+      const interceptor = jest.fn();
+      const remove = networkRequestable.addRequestInterceptor(interceptor);
+      remove();
+      
+      // Mock fetch response
+      (global.fetch as jest.Mock).mockResolvedValueOnce(
+        createMockResponse(200, { id: 1 })
+      );
+      
+      // Make request
+      await networkRequestable.request('/users/1', HTTPMethod.GET);
+      
+      // Assertions
+      expect(interceptor).not.toHaveBeenCalled();
+    });
+  });
 });
+
+/**
+ * A redirect as browser fetch resolves it with redirect 'manual': status 0 and no Location
+ */
+function opaqueRedirect(): Response {
+  const response = createResponse(null, 200, {}, '');
+  Object.defineProperty(response, 'type', { value: 'opaqueredirect' });
+  Object.defineProperty(response, 'status', { value: 0 });
+  return response;
+}
@@ -0,0 +1,142 @@
+import { CookieJar, CookieStorage, getSetCookies } from '../../src/core/CookieJar';
+
+class MemoryStorage implements CookieStorage {
+  items: Record<string, string> = {};
+
+  getItem(key: string): string | null {
+    return this.items[key] ?? null;
+  }
+
+  setItem(key: string, value: string): void {
+    this.items[key] = value;
+  }
+
+  removeItem(key: string): void {
+    delete this.items[key];
+  }
+}
+
+describe('CookieJar', () => {
+  let jar: CookieJar;
+
+  beforeEach(() => {
+    jar = new CookieJar();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should send cookies to matching paths, longest path first', async () => {
+    // Setup
+    await jar.setCookies(['session=abc; Path=/', 'cart=1; Path=/shop'], 'https://api.example.com/login');
+
+    // Assertions
+    expect(await jar.getCookieHeader('https://api.example.com/shop/items')).toBe('cart=1; session=abc');
+    expect(await jar.getCookieHeader('https://api.example.com/shopping')).toBe('session=abc');
+    expect(await jar.getCookieHeader('https://other.example.com/')).toBeUndefined();
+  });
+
+  it('should default the path to the directory of the response URL', async () => {
+    await jar.setCookies(['token=1'], 'https://api.example.com/v1/auth/login');
+    expect((await jar.getCookies())[0].path).toBe('/v1/auth');
+    expect(await jar.getCookieHeader('https://api.example.com/v1/users')).toBeUndefined();
+    expect(await jar.getCookieHeader('https://api.example.com/v1/auth/refresh')).toBe('token=1');
+  });
+
+  it('should share Domain cookies with subdomains but keep host-only cookies on the host', async () => {
+    // Setup
+    await jar.setCookies(['shared=1; Domain=.example.com', 'own=2'], 'https://api.example.com/');
+
+    // Assertions
+    expect(await jar.getCookieHeader('https://cdn.example.com/')).toBe('shared=1');
+    expect(await jar.getCookieHeader('https://api.example.com/')).toBe('shared=1; own=2');
+  });
+
+  it('should ignore cookies for domains the response does not belong to', async () => {
+    await jar.setCookies(['evil=1; Domain=attacker.com', 'sub=1; Domain=cdn.api.example.com'], 'https://api.example.com/');
+    expect(await jar.getCookies()).toEqual([]);
+  });
+
+  it('should reject Domain attributes that are public suffixes', async () => {
+    // Setup
+    await jar.setCookies(['tld=1; Domain=com'], 'https://api.example.com/');
+    await jar.setCookies(['registry=1; Domain=co.uk'], 'https://api.example.co.uk/');
+
+    // Assertions
+    expect(await jar.getCookies()).toEqual([]);
+    expect(await jar.getCookieHeader('https://other.com/')).toBeUndefined();
+    expect(await jar.getCookieHeader('https://shop.co.uk/')).toBeUndefined();
+  });
+
+  it('should keep a public suffix cookie host-only when the host is the suffix', async () => {
+    // Setup
+    await jar.setCookies(['local=1; Domain=localhost'], 'http://localhost/');
+
+    // Assertions
+    expect(await jar.getCookies()).toMatchObject([{ domain: 'localhost', hostOnly: true }]);
+    expect(await jar.getCookieHeader('http://localhost/')).toBe('local=1');
+    expect(await jar.getCookieHeader('http://api.localhost/')).toBeUndefined();
+  });
+
+  it('should send secure cookies over https only', async () => {
+    // Setup
+    await jar.setCookies(['id=1; Secure'], 'https://api.example.com/');
+    await jar.setCookies(['insecure=1; Secure'], 'http://api.example.com/');
+
+    // Assertions
+    expect(await jar.getCookieHeader('https://api.example.com/')).toBe('id=1');
+    expect(await jar.getCookieHeader('http://api.example.com/')).toBeUndefined();
+  });
+
+  it('should replace, expire and delete cookies', async () => {
+    // Setup
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.parse('2024-01-01T00:00:00Z'));
+    await jar.setCookies(['a=1', 'b=1; Max-Age=60', 'c=1'], 'https://api.example.com/');
+    await jar.setCookies(['a=2', 'c=; Expires=Thu, 01 Jan 1970 00:00:00 GMT'], 'https://api.example.com/');
+
+    // Assertions
+    expect(await jar.getCookieHeader('https://api.example.com/')).toBe('a=2; b=1');
+    now.mockReturnValue(Date.parse('2024-01-01T00:01:01Z'));
+    expect(await jar.getCookieHeader('https://api.example.com/')).toBe('a=2');
+  });
+
+  it('should remove cookies by name and clear all', async () => {
+    // Setup
+    await jar.setCookies(['a=1', 'b=1'], 'https://api.example.com/');
+
+    // Make changes
+    await jar.removeCookie('a', 'api.example.com');
+    expect(await jar.getCookieHeader('https://api.example.com/')).toBe('b=1');
+    await jar.clear();
+
+    // Assertions
+    expect(await jar.getCookies()).toEqual([]);
+  });
+
+  it('should persist cookies with an expiry', async () => {
+    // Setup
+    const storage = new MemoryStorage();
+    const first = new CookieJar({ storage });
+    await first.setCookies(['remember=1; Max-Age=3600', 'session=abc'], 'https://api.example.com/');
+
+    // Make request with a new jar, as after an app restart
+    const restored = new CookieJar({ storage });
+
+    // Assertions
+    expect(await restored.getCookieHeader('https://api.example.com/')).toBe('remember=1');
+    await restored.clear();
+    expect(JSON.parse(storage.items['react-native-advanced-network/cookies'])).toEqual([]);
+  });
+
+  it('should split combined Set-Cookie headers', () => {
+    // Setup
+    const headers = {
+      get: () => 'a=1; Expires=Wed, 21 Oct 2099 07:28:00 GMT; Path=/, b=2'
+    } as unknown as Headers;
+
+    // Assertions
+    expect(getSetCookies(headers)).toEqual(['a=1; Expires=Wed, 21 Oct 2099 07:28:00 GMT; Path=/', 'b=2']);
+    expect(getSetCookies(new Headers([['set-cookie', 'a=1'], ['set-cookie', 'b=2']]))).toEqual(['a=1', 'b=2']);
+  });
+});
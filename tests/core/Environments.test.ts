@@ -0,0 +1,73 @@
+import { EnvironmentRegistry, singleBaseURL } from '../../src/core/Environments';
+import { NetworkErrorType } from '../../src/types';
+
+describe('EnvironmentRegistry', () => {
+  let registry: EnvironmentRegistry;
+
+  beforeEach(() => {
+    registry = new EnvironmentRegistry(
+      {
+        staging: { api: 'https://api.staging.example.com', auth: 'https://auth.staging.example.com' },
+        prod: { api: 'https://api.example.com', auth: 'https://auth.example.com' }
+      },
+      'prod'
+    );
+  });
+
+  it('should resolve services in the active environment', () => {
+    expect(registry.getEnvironment()).toBe('prod');
+    expect(registry.getEnvironments()).toEqual(['staging', 'prod']);
+    expect(registry.baseURL()).toBe('https://api.example.com');
+    expect(registry.baseURL('auth')).toBe('https://auth.example.com');
+  });
+
+  it('should switch environments and notify listeners', () => {
+    // Setup
+    const listener = jest.fn();
+    const remove = registry.onChange(listener);
+
+    // Switch environments
+    registry.setEnvironment('staging');
+    registry.setEnvironment('staging');
+
+    // Assertions
+    expect(registry.baseURL('auth')).toBe('https://auth.staging.example.com');
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith('staging', 'prod');
+    remove();
+    registry.setEnvironment('prod');
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should register environments at runtime', () => {
+    registry.register('local', { api: 'http://10.0.2.2:8080' });
+    registry.setEnvironment('local');
+    expect(registry.baseURL()).toBe('http://10.0.2.2:8080');
+    expect(registry.getServices()).toEqual({ api: 'http://10.0.2.2:8080' });
+  });
+
+  it('should reject unknown environments and services', () => {
+    expect(() => registry.setEnvironment('qa')).toThrow('Unknown environment "qa"');
+    expect(registry.getEnvironment()).toBe('prod');
+    expect(() => registry.baseURL('cdn')).toThrow(
+      expect.objectContaining({ type: NetworkErrorType.INVALID_URL })
+    );
+  });
+
+  it('should use the configured default service', () => {
+    const withDefault = new EnvironmentRegistry({ prod: { main: 'https://example.com' } }, 'prod', {
+      defaultService: 'main'
+    });
+    expect(withDefault.baseURL()).toBe('https://example.com');
+  });
+});
+
+describe('singleBaseURL', () => {
+  it('should only resolve requests that name no service', () => {
+    const provider = singleBaseURL('https://api.example.com');
+    expect(provider.baseURL()).toBe('https://api.example.com');
+    expect(() => provider.baseURL('auth')).toThrow(
+      expect.objectContaining({ type: NetworkErrorType.INVALID_URL })
+    );
+  });
+});
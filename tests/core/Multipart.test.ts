@@ -0,0 +1,57 @@
+import { MultipartBody } from '../../src/core/Multipart';
+import { NetworkErrorType } from '../../src/types';
+
+describe('MultipartBody', () => {
+  it('should build FormData with fields and Blob files', async () => {
+    // Setup
+    const body = new MultipartBody()
+      .append('title', 'Holiday')
+      .append('count', 2)
+      .appendFile('photo', { blob: new Blob(['abc'], { type: 'image/png' }), name: 'a.png', type: 'image/png' });
+
+    // Make request
+    const formData = body.toFormData();
+
+    // Assertions
+    expect(formData.get('title')).toBe('Holiday');
+    expect(formData.get('count')).toBe('2');
+    const file = formData.get('photo') as File;
+    expect(file.name).toBe('a.png');
+    expect(await file.text()).toBe('abc');
+  });
+
+  it('should append URI files the way React Native expects', () => {
+    // Setup
+    const append = jest.spyOn(FormData.prototype, 'append').mockImplementation(() => undefined);
+    const body = new MultipartBody().appendFile('photo', {
+      uri: 'file:///tmp/a.jpg',
+      name: 'a.jpg',
+      type: 'image/jpeg'
+    });
+
+    // Make request
+    body.toFormData();
+
+    // Assertions
+    expect(append).toHaveBeenCalledWith('photo', { uri: 'file:///tmp/a.jpg', name: 'a.jpg', type: 'image/jpeg' });
+    append.mockRestore();
+  });
+
+  it('should create a new FormData every time', () => {
+    const body = new MultipartBody().append('a', '1');
+    expect(body.toFormData()).not.toBe(body.toFormData());
+  });
+
+  it('should reject files without a uri or a blob', () => {
+    expect(() => new MultipartBody().appendFile('photo', { name: 'a.jpg', type: 'image/jpeg' }))
+      .toThrow(expect.objectContaining({ type: NetworkErrorType.CUSTOM }));
+  });
+
+  it('should list the parts in order', () => {
+    const body = new MultipartBody().append('a', '1').append('b', true);
+    expect(body.getParts()).toEqual([
+      { kind: 'field', name: 'a', value: '1' },
+      { kind: 'field', name: 'b', value: 'true' }
+    ]);
+  });
+});
@@ -0,0 +1,145 @@
+import { NetworkClientBuilder } from '../../src/core/NetworkClientBuilder';
+import { BaseNetworkRequestable } from '../../src/core/BaseNetworkRequestable';
+import { AuthenticatedDecorator } from '../../src/decorators/AuthenticatedDecorator';
+import { CacheDecorator } from '../../src/decorators/CacheDecorator';
+import { MockNetworkRequestable } from '../../src/mocks/MockNetworkRequestable';
+import { MockCache } from '../../src/mocks/MockCache';
+import { apiKeyAuth, authSchemesByPrefix } from '../../src/auth/AuthSchemes';
+import { HTTPMethod, NetworkError } from '../../src/types';
+
+describe('NetworkClientBuilder', () => {
+  let mockNetworkRequestable: MockNetworkRequestable;
+  let warnings: string[];
+
+  beforeEach(() => {
+    mockNetworkRequestable = new MockNetworkRequestable();
+    warnings = [];
+  });
+
+  it('should compose decorators in the canonical order whatever order they are added in', () => {
+    // Setup
+    const client = new NetworkClientBuilder()
+      .client(mockNetworkRequestable)
+      .withFallback(() => new MockNetworkRequestable())
+      .withRetry()
+      .withCache()
+      .withAuth(() => 'token')
+      .onWarning(warning => warnings.push(warning))
+      .build();
+
+    // Assertions
+    expect(client.describe()).toBe('auth → cache → retry → fallback → base');
+    expect(client.chain[4].client).toBe(mockNetworkRequestable);
+    expect(client.getLayer('auth')).toBeInstanceOf(AuthenticatedDecorator);
+    expect(client.getLayer('cache')).toBeInstanceOf(CacheDecorator);
+    expect(client.warnings).toEqual([]);
+    expect(warnings).toEqual([]);
+  });
+
+  it('should create a base client from the base URL', () => {
+    const client = new NetworkClientBuilder().baseURL('https://api.example.com').timeout(5000).build();
+    expect(client.describe()).toBe('base');
+    expect(client.getLayer('base')).toBeInstanceOf(BaseNetworkRequestable);
+    expect(client.getLayer('retry')).toBeUndefined();
+  });
+
+  it('should keep cached responses of different users apart', async () => {
+    // Setup
+    let token = 'alice';
+    mockNetworkRequestable.mockResponse('/me', HTTPMethod.GET, { ok: true });
+    const client = new NetworkClientBuilder()
+      .client(mockNetworkRequestable)
+      .withCache()
+      .withAuth(() => token)
+      .build();
+
+    // Make requests as two users, then as the first again
+    await client.request('/me');
+    token = 'bob';
+    await client.request('/me');
+    token = 'alice';
+    await client.request('/me');
+
+    // Verify each user was fetched once, with their own token
+    expect(mockNetworkRequestable.getRequestHistory().map(record => record.headers?.['Authorization'])).toEqual([
+      'Bearer alice',
+      'Bearer bob'
+    ]);
+  });
+
+  it('should keep API keys sent in the query string out of cache keys', async () => {
+    // Setup
+    let key = 'key-alice';
+    const cache = new MockCache();
+    mockNetworkRequestable.mockResponse('/maps/tiles', HTTPMethod.GET, { tiles: [] });
+    const client = new NetworkClientBuilder()
+      .client(mockNetworkRequestable)
+      .withCache({ cache })
+      .withAuth(() => key, () => true, authSchemesByPrefix({ '/maps/': apiKeyAuth('api_key', 'query') }))
+      .build();
+
+    // Make requests with two keys, then with the first again
+    await client.request('/maps/tiles', { query: { z: 3 } });
+    key = 'key-bob';
+    await client.request('/maps/tiles', { query: { z: 3 } });
+    key = 'key-alice';
+    await client.request('/maps/tiles', { query: { z: 3 } });
+
+    // Verify each key was fetched once and no key is stored in a cache key
+    expect(mockNetworkRequestable.getRequestHistory().map(record => record.config.query?.api_key)).toEqual(['key-alice', 'key-bob']);
+    const cacheKeys = cache.getSetHistory().map(item => item.key);
+    expect(cacheKeys).toHaveLength(2);
+    cacheKeys.forEach(cacheKey => expect(cacheKey).not.toContain('key-'));
+  });
+
+  it('should retry through the fallback and pass per-request settings down the chain', async () => {
+    // Setup
+    const fallbackClient = new MockNetworkRequestable();
+    mockNetworkRequestable.mockError('/items', HTTPMethod.GET, NetworkError.networkFailure('offline'));
+    fallbackClient.mockResponse('/items', HTTPMethod.GET, ['from fallback']);
+    const client = new NetworkClientBuilder()
+      .client(mockNetworkRequestable)
+      .withRetry({ maxAttempts: 2 })
+      .withFallback(() => fallbackClient)
+      .build();
+
+    // Make requests
+    const result = await client.request('/items');
+    await expect(client.request('/items', { context: { skipFallback: true, retry: false } })).rejects.toThrow(
+      'Network failure: offline'
+    );
+
+    // Assertions
+    expect(result).toEqual(['from fallback']);
+    expect(mockNetworkRequestable.getRequestHistory()).toHaveLength(2);
+  });
+
+  it('should warn about risky orderings and settings', () => {
+    // Setup
+    const client = new NetworkClientBuilder()
+      .client(mockNetworkRequestable)
+      .withAuth(() => 'token')
+      .withCache({ methods: [HTTPMethod.GET, HTTPMethod.POST] })
+      .withFallback(() => new MockNetworkRequestable())
+      .order(['fallback', 'cache', 'auth'])
+      .onWarning(warning => warnings.push(warning))
+      .build();
+
+    // Assertions
+    expect(client.describe()).toBe('fallback → cache → auth → base');
+    expect(warnings).toEqual([
+      'cache wraps auth, so responses cached for one user are served to other users; put auth outside the cache',
+      'fallback wraps auth, so requests to the fallback client are sent without authentication',
+      'cache serves POST responses without sending the request'
+    ]);
+    expect(client.warnings).toEqual(warnings);
+  });
+
+  it('should reject incomplete configurations', () => {
+    expect(() => new NetworkClientBuilder().withRetry().build()).toThrow('needs a baseURL() or client()');
+    expect(() => new NetworkClientBuilder().order(['retry', 'retry'])).toThrow('lists a decorator twice');
+    expect(() =>
+      new NetworkClientBuilder().client(mockNetworkRequestable).withCache().withRetry().order(['retry']).build()
+    ).toThrow('missing configured decorators: cache');
+  });
+});
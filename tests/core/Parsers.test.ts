@@ -0,0 +1,85 @@
+import {
+  ParserRegistry,
+  ResponseParser,
+  blobParser,
+  jsonParser,
+  ndjsonParser,
+  textParser
+} from '../../src/core/Parsers';
+import { NetworkErrorType } from '../../src/types';
+
+describe('Parsers', () => {
+  describe('ndjsonParser', () => {
+    it('should parse one item per non-empty line', async () => {
+      const response = new Response('{"id":1}\r\n{"id":2}\n\n');
+      await expect(ndjsonParser.parse(response)).resolves.toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    it('should report the line of invalid JSON', async () => {
+      const response = new Response('{"id":1}\nnot json\n');
+      await expect(ndjsonParser.parse(response)).rejects.toMatchObject({
+        type: NetworkErrorType.DECODING_ERROR,
+        message: expect.stringContaining('line 2')
+      });
+    });
+  });
+
+  describe('jsonParser', () => {
+    it('should reject invalid JSON with a decoding error', async () => {
+      await expect(jsonParser.parse(new Response('{'))).rejects.toMatchObject({
+        type: NetworkErrorType.DECODING_ERROR
+      });
+    });
+  });
+
+  describe('ParserRegistry', () => {
+    let registry: ParserRegistry;
+
+    beforeEach(() => {
+      registry = new ParserRegistry();
+    });
+
+    it('should look up parsers by format name', () => {
+      expect(registry.get('json')).toBe(jsonParser);
+      expect(registry.get('xml')).toBeUndefined();
+    });
+
+    it('should pick parsers by content type', () => {
+      expect(registry.forContentType('application/json; charset=utf-8')).toBe(jsonParser);
+      expect(registry.forContentType('application/problem+json')).toBe(jsonParser);
+      expect(registry.forContentType('text/html')).toBe(textParser);
+      expect(registry.forContentType('image/png')).toBe(blobParser);
+      expect(registry.forContentType('application/pdf')).toBe(blobParser);
+      expect(registry.forContentType('application/x-ndjson')).toBe(ndjsonParser);
+      expect(registry.forContentType('application/xml')).toBeUndefined();
+    });
+
+    it('should prefer exact content types over wildcards', () => {
+      // Setup
+      const csv: ResponseParser = {
+        format: 'csv',
+        contentTypes: ['text/csv'],
+        parse: async response => (await response.text()).split('\n').map(line => line.split(','))
+      };
+      registry.register(csv);
+
+      // Assertions
+      expect(registry.forContentType('text/csv')).toBe(csv);
+      expect(registry.forContentType('text/plain')).toBe(textParser);
+    });
+
+    it('should use custom parsers for structured syntax suffixes', () => {
+      // Setup
+      const xml: ResponseParser = {
+        format: 'xml',
+        contentTypes: ['application/xml', 'text/xml'],
+        parse: response => response.text()
+      };
+      registry.register(xml);
+
+      // Assertions
+      expect(registry.forContentType('application/atom+xml')).toBe(xml);
+      expect(registry.forContentType('text/xml')).toBe(xml);
+    });
+  });
+});
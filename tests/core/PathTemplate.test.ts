@@ -0,0 +1,37 @@
+import { expandPath, isPathTemplate } from '../../src/core/PathTemplate';
+import { NetworkError, NetworkErrorType } from '../../src/types';
+
+describe('PathTemplate', () => {
+  it('should expand :name and {name} placeholders', () => {
+    expect(expandPath('/users/:id/posts/{postId}', { id: 42, postId: 'abc' })).toBe('/users/42/posts/abc');
+  });
+
+  it('should percent-encode parameter values', () => {
+    expect(expandPath('/files/:path', { path: 'docs/a b.pdf' })).toBe('/files/docs%2Fa%20b.pdf');
+  });
+
+  it('should expand placeholders inside a segment with braces', () => {
+    expect(expandPath('/reports/{year}-{month}.csv', { year: 2024, month: '01' })).toBe('/reports/2024-01.csv');
+  });
+
+  it('should not treat ports or colons inside a segment as placeholders', () => {
+    expect(expandPath('https://api.example.com:8080/time/12:30', {})).toBe('https://api.example.com:8080/time/12:30');
+  });
+
+  it('should throw NetworkError.invalidURL when a placeholder is missing', () => {
+    try {
+      expandPath('/users/:id/posts/{postId}', { id: 42 });
+      fail('Expected an error to be thrown');
+    } catch (error) {
+      expect(error).toBeInstanceOf(NetworkError);
+      expect((error as NetworkError).type).toBe(NetworkErrorType.INVALID_URL);
+      expect((error as NetworkError).message).toContain('postId');
+    }
+  });
+
+  it('should detect endpoint templates', () => {
+    expect(isPathTemplate('/users/:id')).toBe(true);
+    expect(isPathTemplate('/users/{id}')).toBe(true);
+    expect(isPathTemplate('/users/42')).toBe(false);
+  });
+});
@@ -0,0 +1,116 @@
+import {
+  appendQuery,
+  normalizeQuery,
+  parseQuery,
+  serializeQuery
+} from '../../src/core/QueryString';
+
+describe('QueryString', () => {
+  describe('serializeQuery', () => {
+    it('should serialize primitive values', () => {
+      expect(serializeQuery({ q: 'test', page: 2, active: true })).toBe('q=test&page=2&active=true');
+    });
+
+    it('should skip null and undefined values by default', () => {
+      expect(serializeQuery({ a: 1, b: null, c: undefined })).toBe('a=1');
+    });
+
+    it('should keep null values as empty strings when skipNulls is disabled', () => {
+      expect(serializeQuery({ a: 1, b: null, c: undefined }, { skipNulls: false })).toBe('a=1&b=');
+    });
+
+    it('should percent-encode keys and values per RFC 3986', () => {
+      expect(serializeQuery({ 'na me': "it's a&b=c (1)*" })).toBe(
+        'na%20me=it%27s%20a%26b%3Dc%20%281%29%2A'
+      );
+    });
+
+    it('should serialize Dates as ISO strings', () => {
+      expect(serializeQuery({ since: new Date(Date.UTC(2024, 0, 2)) })).toBe(
+        'since=2024-01-02T00%3A00%3A00.000Z'
+      );
+    });
+
+    it('should repeat keys for arrays by default', () => {
+      expect(serializeQuery({ a: [1, 2] })).toBe('a=1&a=2');
+    });
+
+    it('should support the brackets array format', () => {
+      expect(serializeQuery({ a: [1, 2] }, { arrayFormat: 'brackets' })).toBe('a[]=1&a[]=2');
+    });
+
+    it('should support the indices array format', () => {
+      expect(serializeQuery({ a: [1, 2] }, { arrayFormat: 'indices' })).toBe('a[0]=1&a[1]=2');
+    });
+
+    it('should support the comma array format', () => {
+      expect(serializeQuery({ a: [1, 'x,y'] }, { arrayFormat: 'comma' })).toBe('a=1,x%2Cy');
+    });
+
+    it('should serialize nested objects with bracket notation', () => {
+      expect(serializeQuery({ filter: { name: 'x', range: { min: 1 } } })).toBe(
+        'filter[name]=x&filter[range][min]=1'
+      );
+    });
+
+    it('should index objects inside arrays', () => {
+      expect(serializeQuery({ sort: [{ field: 'name' }, { field: 'age' }] }, { arrayFormat: 'brackets' })).toBe(
+        'sort[0][field]=name&sort[1][field]=age'
+      );
+    });
+
+    it('should sort keys when requested', () => {
+      expect(serializeQuery({ b: 1, a: { d: 1, c: 2 } }, { sort: true })).toBe('a[c]=2&a[d]=1&b=1');
+    });
+  });
+
+  describe('appendQuery', () => {
+    it('should append a query string to a URL', () => {
+      expect(appendQuery('https://api.example.com/users', { page: 1 })).toBe(
+        'https://api.example.com/users?page=1'
+      );
+    });
+
+    it('should extend an existing query string and keep the fragment', () => {
+      expect(appendQuery('https://api.example.com/users?sort=asc#top', { page: 1 })).toBe(
+        'https://api.example.com/users?sort=asc&page=1#top'
+      );
+    });
+
+    it('should leave the URL untouched when there is nothing to append', () => {
+      expect(appendQuery('https://api.example.com/users', { empty: undefined })).toBe(
+        'https://api.example.com/users'
+      );
+    });
+  });
+
+  describe('normalizeQuery', () => {
+    it('should sort keys and drop empty values at every level', () => {
+      const normalized = normalizeQuery({ b: [2, null], a: { d: undefined, c: 1 } });
+
+      expect(normalized).toEqual({ a: { c: 1 }, b: [2] });
+      expect(Object.keys(normalized!)).toEqual(['a', 'b']);
+    });
+
+    it('should keep null values when skipNulls is false', () => {
+      expect(normalizeQuery({ b: [2, null], a: null }, { skipNulls: false })).toEqual({ a: null, b: [2, null] });
+    });
+
+    it('should return undefined when no parameters remain', () => {
+      expect(normalizeQuery({ a: null })).toBeUndefined();
+      expect(normalizeQuery(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('parseQuery', () => {
+    it('should decode the parameters of a URL or query string', () => {
+      expect(parseQuery('myapp://callback?code=a%2Fb&state=x+y&empty&code=second#fragment')).toEqual({
+        code: 'a/b',
+        state: 'x y',
+        empty: ''
+      });
+      expect(parseQuery('?a=1')).toEqual({ a: '1' });
+      expect(parseQuery('https://example.com/')).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import { decodeResponse, decodeWith, describeDecodeError, formatPath } from '../../src/core/ResponseDecoder';
+import { NetworkError, NetworkErrorType } from '../../src/types';
+
+describe('ResponseDecoder', () => {
+  describe('decodeResponse', () => {
+    it('should return the data unchanged without a response type', () => {
+      const data = { id: 1 };
+      expect(decodeResponse(data)).toBe(data);
+    });
+
+    it('should treat plain classes as type hints', () => {
+      class User {
+        id = 0;
+      }
+      expect(decodeResponse({ id: 1 }, User)).toEqual({ id: 1 });
+    });
+
+    it('should use a static decode method', () => {
+      // Setup
+      class User {
+        constructor(public id: number) {}
+
+        static decode(data: any): User {
+          return new User(data.id);
+        }
+      }
+
+      // Make request
+      const result = decodeResponse({ id: 1 }, User);
+
+      // Assertions
+      expect(result).toBeInstanceOf(User);
+      expect(result.id).toBe(1);
+    });
+
+    it('should use a zod-compatible schema', () => {
+      // Setup
+      const schema = {
+        parse: jest.fn((data: any) => ({ ...data, parsed: true }))
+      };
+
+      // Assertions
+      expect(decodeResponse({ id: 1 }, schema)).toEqual({ id: 1, parsed: true });
+      expect(schema.parse).toHaveBeenCalledWith({ id: 1 });
+    });
+
+    it('should call decoder functions wrapped with decodeWith', () => {
+      expect(decodeResponse([1, 2], decodeWith(data => (data as number[]).length))).toBe(2);
+    });
+
+    it('should throw a decoding error listing the failing paths', () => {
+      // Setup
+      const schema = {
+        parse: () => {
+          const error = new Error('Validation failed') as any;
+          error.issues = [
+            { path: ['items', 0, 'id'], message: 'Expected number, received string' },
+            { path: [], message: 'Unrecognized key "extra"' }
+          ];
+          throw error;
+        }
+      };
+
+      // Make request and expect error
+      let caught: NetworkError | undefined;
+      try {
+        decodeResponse({}, schema);
+      } catch (error) {
+        caught = error as NetworkError;
+      }
+
+      // Assertions
+      expect(caught).toBeInstanceOf(NetworkError);
+      expect(caught?.type).toBe(NetworkErrorType.DECODING_ERROR);
+      expect(caught?.message).toBe(
+        'Decoding error: items[0].id: Expected number, received string; (root): Unrecognized key "extra"'
+      );
+    });
+
+    it('should re-throw NetworkErrors from decoders', () => {
+      const decoder = () => {
+        throw NetworkError.custom('Unsupported version');
+      };
+      expect(() => decodeResponse({}, decodeWith(decoder))).toThrow('Unsupported version');
+    });
+  });
+
+  describe('describeDecodeError', () => {
+    it('should include the path of errors carrying one', () => {
+      const error = Object.assign(new Error('must be a string'), { path: 'user.name' });
+      expect(describeDecodeError(error)).toBe('user.name: must be a string');
+    });
+
+    it('should use the message of plain errors', () => {
+      expect(describeDecodeError(new Error('bad payload'))).toBe('bad payload');
+    });
+  });
+
+  describe('formatPath', () => {
+    it('should format nested paths', () => {
+      expect(formatPath(['data', 'users', 2, 'email'])).toBe('data.users[2].email');
+      expect(formatPath([0, 'id'])).toBe('[0].id');
+      expect(formatPath([])).toBe('(root)');
+    });
+  });
+});
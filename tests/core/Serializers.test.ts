@@ -0,0 +1,97 @@
+import {
+  BodySerializer,
+  SerializerRegistry,
+  bodyBytes,
+  formSerializer,
+  jsonSerializer,
+  mediaTypeOf
+} from '../../src/core/Serializers';
+
+describe('Serializers', () => {
+  describe('mediaTypeOf', () => {
+    it('should strip parameters and lower-case the media type', () => {
+      expect(mediaTypeOf('Application/JSON; charset=utf-8')).toBe('application/json');
+    });
+  });
+
+  describe('formSerializer', () => {
+    it('should encode objects with bracket notation', () => {
+      expect(formSerializer.serialize({ grant_type: 'password', scope: ['a', 'b'], user: { name: 'A B' } }))
+        .toBe('grant_type=password&scope[]=a&scope[]=b&user[name]=A%20B');
+    });
+
+    it('should encode URLSearchParams as they are', () => {
+      expect(formSerializer.serialize(new URLSearchParams({ a: '1', b: '2' }))).toBe('a=1&b=2');
+    });
+  });
+
+  describe('SerializerRegistry', () => {
+    let registry: SerializerRegistry;
+
+    beforeEach(() => {
+      registry = new SerializerRegistry();
+    });
+
+    it('should look up serializers by content type', () => {
+      expect(registry.get('application/json; charset=utf-8')).toBe(jsonSerializer);
+      expect(registry.get('application/x-www-form-urlencoded')).toBe(formSerializer);
+      expect(registry.get('application/x-protobuf')).toBeUndefined();
+    });
+
+    it('should fall back to the base type for structured syntax suffixes', () => {
+      expect(registry.get('application/vnd.api+json')).toBe(jsonSerializer);
+    });
+
+    it('should pick serializers by body type', () => {
+      expect(registry.find({ a: 1 })?.contentType).toBe('application/json');
+      expect(registry.find([1, 2])?.contentType).toBe('application/json');
+      expect(registry.find('text')?.contentType).toBe('text/plain');
+      expect(registry.find(new ArrayBuffer(4))?.contentType).toBe('application/octet-stream');
+      expect(registry.find(new Uint8Array(4))?.contentType).toBe('application/octet-stream');
+      expect(registry.find(new URLSearchParams('a=1'))?.contentType).toBe('application/x-www-form-urlencoded');
+    });
+
+    it('should prefer custom serializers registered later', () => {
+      // Setup
+      class Message {
+        constructor(public id: number) {}
+      }
+      const protobuf: BodySerializer = {
+        contentType: 'application/x-protobuf',
+        canSerialize: body => body instanceof Message,
+        serialize: body => new Uint8Array([body.id])
+      };
+      registry.register(protobuf);
+
+      // Assertions
+      expect(registry.find(new Message(1))).toBe(protobuf);
+      expect(registry.find({ id: 1 })).toBe(jsonSerializer);
+      expect(registry.get('application/x-protobuf')).toBe(protobuf);
+    });
+
+    it('should replace serializers for the same content type', () => {
+      // Setup
+      const custom: BodySerializer = {
+        contentType: 'application/json',
+        serialize: body => JSON.stringify(body, null, 2)
+      };
+      registry.register(custom);
+
+      // Assertions
+      expect(registry.get('application/json')).toBe(custom);
+      expect(registry.find({ a: 1 })).toBeUndefined();
+    });
+  });
+
+  describe('bodyBytes', () => {
+    it('should read serialized bodies as bytes', async () => {
+      // Assertions
+      expect(Array.from((await bodyBytes(undefined))!)).toEqual([]);
+      expect(Array.from((await bodyBytes('hé'))!)).toEqual([0x68, 0xc3, 0xa9]);
+      expect(Array.from((await bodyBytes(new Uint8Array([1, 2, 3]).subarray(1)))!)).toEqual([2, 3]);
+      expect(Array.from((await bodyBytes(new URLSearchParams({ a: 'b c' })))!)).toEqual(Array.from(Buffer.from('a=b+c')));
+      expect(Array.from((await bodyBytes(new Blob(['xy'])))!)).toEqual([0x78, 0x79]);
+      expect(await bodyBytes(new FormData())).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { isAbsoluteURL, isSameOrigin, resolveURL } from '../../src/core/URL';
+
+describe('URL', () => {
+  it('should detect absolute URLs', () => {
+    expect(isAbsoluteURL('https://uploads.example.com/files/1')).toBe(true);
+    expect(isAbsoluteURL('/files/1')).toBe(false);
+    expect(isAbsoluteURL('files/1')).toBe(false);
+  });
+
+  it('should resolve URL references against a base URL', () => {
+    const base = 'https://api.example.com/v1/files?x=1';
+    expect(resolveURL('https://cdn.example.com/a', base)).toBe('https://cdn.example.com/a');
+    expect(resolveURL('//cdn.example.com/a', base)).toBe('https://cdn.example.com/a');
+    expect(resolveURL('/uploads/abc', base)).toBe('https://api.example.com/uploads/abc');
+    expect(resolveURL('abc', base)).toBe('https://api.example.com/v1/abc');
+    expect(resolveURL('abc', 'https://api.example.com')).toBe('https://api.example.com/abc');
+  });
+
+  it('should compare origins', () => {
+    expect(isSameOrigin('https://api.example.com/a', 'HTTPS://API.example.com/b?c=1')).toBe(true);
+    expect(isSameOrigin('https://api.example.com/a', 'https://cdn.example.com/a')).toBe(false);
+    expect(isSameOrigin('https://api.example.com/a', 'http://api.example.com/a')).toBe(false);
+    expect(isSameOrigin('https://api.example.com/a', 'https://api.example.com:8443/a')).toBe(false);
+  });
+});
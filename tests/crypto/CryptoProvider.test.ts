@@ -0,0 +1,34 @@
+import { createHash, createHmac } from 'crypto';
+import { defaultCryptoProvider, jsCryptoProvider, webCryptoProvider } from '../../src/crypto/CryptoProvider';
+import { toHex, utf8Encode } from '../../src/crypto/sha256';
+
+describe('CryptoProvider', () => {
+  const key = utf8Encode('secret');
+  const data = utf8Encode('héllo wörld');
+
+  it('should give the same results in plain JavaScript and WebCrypto', async () => {
+    // Setup
+    const expectedHash = createHash('sha256').update(data).digest('hex');
+    const expectedMac = createHmac('sha256', key).update(data).digest('hex');
+
+    // Assertions
+    for (const provider of [jsCryptoProvider, webCryptoProvider()]) {
+      expect(toHex(await provider.sha256(data))).toBe(expectedHash);
+      expect(toHex(await provider.hmacSha256(key, data))).toBe(expectedMac);
+    }
+  });
+
+  it('should fall back to plain JavaScript without WebCrypto', () => {
+    // Setup
+    const descriptor = Object.getOwnPropertyDescriptor(globalThis, 'crypto')!;
+    Object.defineProperty(globalThis, 'crypto', { value: undefined, configurable: true });
+
+    // Assertions
+    try {
+      expect(defaultCryptoProvider()).toBe(jsCryptoProvider);
+    } finally {
+      Object.defineProperty(globalThis, 'crypto', descriptor);
+    }
+    expect(defaultCryptoProvider()).not.toBe(jsCryptoProvider);
+  });
+});
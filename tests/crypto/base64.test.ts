@@ -0,0 +1,34 @@
+import { base64Decode, base64Encode, base64UrlEncode } from '../../src/crypto/base64';
+import { utf8Decode } from '../../src/crypto/sha256';
+
+describe('base64', () => {
+  it('should encode with padding', () => {
+    expect(base64Encode('')).toBe('');
+    expect(base64Encode('f')).toBe('Zg==');
+    expect(base64Encode('fo')).toBe('Zm8=');
+    expect(base64Encode('foo')).toBe('Zm9v');
+    expect(base64Encode('foobar')).toBe('Zm9vYmFy');
+  });
+
+  it('should encode strings as UTF-8 and bytes as is', () => {
+    expect(base64Encode('héllo 😀')).toBe(Buffer.from('héllo 😀', 'utf8').toString('base64'));
+    const bytes = new Uint8Array(256).map((_, index) => index);
+    expect(base64Encode(bytes)).toBe(Buffer.from(bytes).toString('base64'));
+    expect(base64Encode(bytes.buffer)).toBe(Buffer.from(bytes).toString('base64'));
+  });
+
+  it('should encode URL-safe base64 without padding', () => {
+    const bytes = new Uint8Array(256).map((_, index) => index);
+    expect(base64UrlEncode(bytes)).toBe(Buffer.from(bytes).toString('base64url'));
+    expect(base64UrlEncode('f')).toBe('Zg');
+  });
+
+  it('should decode standard and URL-safe base64, with or without padding', () => {
+    const bytes = new Uint8Array(256).map((_, index) => index);
+    expect(base64Decode(Buffer.from(bytes).toString('base64'))).toEqual(bytes);
+    expect(base64Decode(Buffer.from(bytes).toString('base64url'))).toEqual(bytes);
+    expect(utf8Decode(base64Decode('Zm9vYg'))).toBe('foob');
+    expect(utf8Decode(base64Decode(base64Encode('héllo 😀')))).toBe('héllo 😀');
+    expect(() => base64Decode('Zm9v!')).toThrow('Invalid base64 character "!"');
+  });
+});
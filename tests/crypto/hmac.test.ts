@@ -0,0 +1,26 @@
+import { createHmac } from 'crypto';
+import { hmacSha256 } from '../../src/crypto/hmac';
+import { toHex } from '../../src/crypto/sha256';
+
+describe('hmacSha256', () => {
+  it('should match the RFC 4231 test vectors', () => {
+    expect(toHex(hmacSha256(new Uint8Array(20).fill(0x0b), 'Hi There'))).toBe(
+      'b0344c61d8db38535ca8afceaf0bf12b881dc200c9833da726e9376c2e32cff7'
+    );
+    expect(toHex(hmacSha256('Jefe', 'what do ya want for nothing?'))).toBe(
+      '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+    );
+  });
+
+  it('should hash keys longer than a block', () => {
+    // Setup
+    const key = new Uint8Array(131).fill(0xaa);
+    const data = 'Test Using Larger Than Block-Size Key - Hash Key First';
+
+    // Assertions
+    expect(toHex(hmacSha256(key, data))).toBe(createHmac('sha256', key).update(data).digest('hex'));
+    expect(toHex(hmacSha256(key.buffer, data))).toBe(
+      '60e431591ee0b67f0d8a26aacbf5b77f8e0bc6213728c5140546040f0ee37f54'
+    );
+  });
+});
@@ -0,0 +1,44 @@
+import { createHash } from 'crypto';
+import { Sha256, sha256, toHex, utf8Encode } from '../../src/crypto/sha256';
+
+describe('sha256', () => {
+  it('should match the standard test vectors', () => {
+    expect(toHex(sha256(''))).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(toHex(sha256('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(toHex(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  it('should give the same digest for incremental updates of any size', () => {
+    // Setup
+    const data = new Uint8Array(1000).map((_, index) => (index * 31) % 256);
+    const expected = createHash('sha256').update(data).digest('hex');
+
+    // Assertions
+    [1, 7, 63, 64, 65, 500].forEach(chunkSize => {
+      const hash = new Sha256();
+      for (let offset = 0; offset < data.length; offset += chunkSize) {
+        hash.update(data.subarray(offset, offset + chunkSize));
+      }
+      expect(hash.hexDigest()).toBe(expected);
+    });
+  });
+
+  it('should UTF-8 encode strings', () => {
+    const text = 'héllo wörld 😀';
+    expect(Array.from(utf8Encode(text))).toEqual(Array.from(Buffer.from(text, 'utf8')));
+    expect(toHex(sha256(text))).toBe(createHash('sha256').update(text, 'utf8').digest('hex'));
+  });
+
+  it('should accept ArrayBuffers', () => {
+    expect(toHex(sha256(new Uint8Array([1, 2, 3]).buffer))).toBe(
+      createHash('sha256').update(Buffer.from([1, 2, 3])).digest('hex')
+    );
+  });
+
+  it('should not accept updates after the digest', () => {
+    const hash = new Sha256().update('a');
+    expect(hash.hexDigest()).toBe(hash.hexDigest());
+    expect(() => hash.update('b')).toThrow();
+  });
+});
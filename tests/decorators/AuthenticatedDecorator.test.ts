@@ -1,6 +1,9 @@
 import { AuthenticatedDecorator } from '../../src/decorators/AuthenticatedDecorator';
 import { HTTPMethod, NetworkError, NetworkErrorType } from '../../src/types';
 import { MockNetworkRequestable } from '../../src/mocks/MockNetworkRequestable';
+import { MemoryTransport } from '../../src/mocks/MemoryTransport';
+import { BaseNetworkRequestable } from '../../src/core/BaseNetworkRequestable';
+import { holdTimers } from '../setup';
 
 describe('AuthenticatedDecorator', () => {
   let mockNetworkRequestable: MockNetworkRequestable;
@@ -212,4 +215,190 @@ describe('AuthenticatedDecorator', () => {
     // but we can verify the result was returned correctly
     expect(result).toEqual(mockResponse);
   });
+  
+  it('should add authentication header to requestRaw', async () => {
+    // Setup
+    const endpoint = '/secure/data';
+    const token = 'test-token-123';
+    
+    // Configure mocks
+    needsAuth.mockReturnValue(true);
+    tokenProvider.mockReturnValue(token);
+    mockNetworkRequestable.mockRawResponse(endpoint, HTTPMethod.GET, {
+      data: { data: 'secure data' },
+      headers: { etag: '"v1"' }
+    });
+    
+    // Execute
+    const response = await authenticatedDecorator.requestRaw(endpoint, HTTPMethod.GET);
+    
+    // Verify
+    expect(response.headers.etag).toBe('"v1"');
+    expect(response.data).toEqual({ data: 'secure data' });
+    expect(mockNetworkRequestable.getRequestHistory()[0].headers).toEqual({
+      'Authorization': `Bearer ${token}`
+    });
+  });
+  
+  it('should skip authentication when the request context asks for it', async () => {
+    // Setup
+    const endpoint = '/secure/login';
+    
+    // Configure mocks
+    needsAuth.mockReturnValue(true);
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.POST, { ok: true });
+    
+    // Execute
+    await authenticatedDecorator.request(endpoint, {
+      method: HTTPMethod.POST,
+      context: { skipAuth: true }
+    });
+    
+    // Verify
+    expect(tokenProvider).not.toHaveBeenCalled();
+    expect(mockNetworkRequestable.getRequestHistory()[0].headers).toEqual({});
+  });
+  
+  it('should preserve the rest of the request config', async () => {
+    // Setup
+    const endpoint = '/secure/data';
+    const query = { page: 2 };
+    
+    // Configure mocks
+    needsAuth.mockReturnValue(true);
+    tokenProvider.mockReturnValue('test-token-123');
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.GET, { ok: true });
+    
+    // Execute
+    await authenticatedDecorator.request(endpoint, { query, timeout: 5000 });
+    
+    // Verify
+    const { config } = mockNetworkRequestable.getRequestHistory()[0];
+    expect(config.query).toEqual(query);
+    expect(config.timeout).toBe(5000);
+    expect(config.headers).toEqual({ 'Authorization': 'Bearer test-token-123' });
+  });
+
+  describe('token refresh', () => {
+    let token: string | null;
+    let transport: MemoryTransport;
+    let client: BaseNetworkRequestable;
+    let releaseRefresh: () => void;
+    let refreshToken: jest.Mock;
+    let onAuthFailure: jest.Mock;
+
+    holdTimers();
+
+    beforeEach(() => {
+      token = 'old';
+      // Only the current token is accepted
+      transport = new MemoryTransport().on('*', /.*/, request =>
+        request.headers['Authorization'] === 'Bearer new' ? { body: { ok: true } } : { status: 401 }
+      );
+      client = new BaseNetworkRequestable('https://api.example.com', {}, 30000, { transport });
+      const refreshed = new Promise<void>(resolve => {
+        releaseRefresh = resolve;
+      });
+      refreshToken = jest.fn(async () => {
+        await refreshed;
+        token = 'new';
+        return token;
+      });
+      onAuthFailure = jest.fn();
+    });
+
+    const createDecorator = () =>
+      new AuthenticatedDecorator(client, async () => token, () => true, 'Authorization', {
+        refreshToken,
+        onAuthFailure
+      });
+
+    it('should refresh the token once on 401 and replay the request', async () => {
+      // Setup
+      const decorator = createDecorator();
+      releaseRefresh();
+
+      // Make request
+      const result = await decorator.request('/me');
+
+      // Assertions
+      expect(result).toEqual({ ok: true });
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(transport.getRequestHistory().map(request => request.headers['Authorization'])).toEqual([
+        'Bearer old',
+        'Bearer new'
+      ]);
+    });
+
+    it('should share one refresh between concurrent 401s', async () => {
+      // Setup
+      const decorator = createDecorator();
+
+      // Make twenty requests, letting them all fail before the refresh completes
+      const results = Promise.all(Array.from({ length: 20 }, (_, index) => decorator.request(`/items/${index}`)));
+      await new Promise(resolve => setImmediate(resolve));
+      releaseRefresh();
+
+      // Assertions
+      expect(await results).toHaveLength(20);
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      const sent = transport.getRequestHistory().map(request => request.headers['Authorization']);
+      expect(sent.filter(header => header === 'Bearer old')).toHaveLength(20);
+      expect(await decorator.request('/later')).toEqual({ ok: true });
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+    });
+
+    it('should report a failed refresh once and reject every waiting request', async () => {
+      // Setup
+      const failure = NetworkError.httpError(400);
+      refreshToken.mockImplementation(async () => {
+        token = null;
+        throw failure;
+      });
+      const decorator = createDecorator();
+
+      // Make requests
+      const results = await Promise.allSettled([decorator.request('/a'), decorator.request('/b'), decorator.request('/c')]);
+
+      // Assertions
+      results.forEach(result => expect(result).toMatchObject({ status: 'rejected' }));
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(onAuthFailure).toHaveBeenCalledTimes(1);
+      expect(onAuthFailure).toHaveBeenCalledWith(failure);
+    });
+
+    it('should not refresh again when the replayed request is rejected', async () => {
+      // Setup
+      refreshToken.mockResolvedValue('also-rejected');
+      const decorator = createDecorator();
+
+      // Make request and verify
+      await expect(decorator.request('/me')).rejects.toMatchObject({ type: NetworkErrorType.UNAUTHORIZED });
+      expect(refreshToken).toHaveBeenCalledTimes(1);
+      expect(transport.getRequestHistory()).toHaveLength(2);
+    });
+
+    it('should treat a refresh without a token as an authentication failure', async () => {
+      // Setup
+      refreshToken.mockResolvedValue(null);
+      const decorator = createDecorator();
+
+      // Make request and verify
+      await expect(decorator.request('/me')).rejects.toMatchObject({ type: NetworkErrorType.UNAUTHORIZED });
+      expect(onAuthFailure).toHaveBeenCalledWith(expect.objectContaining({ type: NetworkErrorType.UNAUTHORIZED }));
+    });
+
+    it('should let 401s propagate without a refresh hook or when skipping auth', async () => {
+      // Setup
+      const withoutRefresh = new AuthenticatedDecorator(client, async () => token, () => true);
+      const decorator = createDecorator();
+
+      // Make requests and verify
+      await expect(withoutRefresh.request('/me')).rejects.toMatchObject({ type: NetworkErrorType.UNAUTHORIZED });
+      await expect(decorator.request('/me', { context: { skipAuth: true } })).rejects.toMatchObject({
+        type: NetworkErrorType.UNAUTHORIZED
+      });
+      expect(refreshToken).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -3,6 +3,7 @@ import { HTTPMethod } from '../../src/types';
 import { MockNetworkRequestable } from '../../src/mocks/MockNetworkRequestable';
 import { MockCache } from '../../src/mocks/MockCache';
 import { generateCacheKey } from '../../src/core/NetworkRequestable';
+import { EnvironmentRegistry } from '../../src/core/Environments';
 
 describe('CacheDecorator', () => {
   let mockNetworkRequestable: MockNetworkRequestable;
@@ -275,4 +276,241 @@ describe('CacheDecorator', () => {
     expect(cacheKeys.length).toBe(2);
     expect(cacheKeys[0]).not.toBe(cacheKeys[1]);
   });
+  
+  it('should key binary bodies by their contents and never cache unreadable bodies', async () => {
+    // Setup
+    const endpoint = '/upload';
+    cacheDecorator = new CacheDecorator(mockNetworkRequestable, mockCache, null, [HTTPMethod.POST]);
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.POST, { id: 1 }, new Uint8Array([1, 2, 3]));
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.POST, { id: 2 }, new Uint8Array([4, 5, 6]));
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.POST, { id: 3 });
+    
+    // Make requests with two different binary bodies of the same size, and with FormData twice
+    await cacheDecorator.request(endpoint, HTTPMethod.POST, new Uint8Array([1, 2, 3]));
+    await cacheDecorator.request(endpoint, HTTPMethod.POST, new Uint8Array([4, 5, 6]));
+    await cacheDecorator.request(endpoint, HTTPMethod.POST, new Uint8Array([1, 2, 3]));
+    await cacheDecorator.request(endpoint, HTTPMethod.POST, new FormData());
+    await cacheDecorator.request(endpoint, HTTPMethod.POST, new FormData());
+    
+    // Verify each binary body was sent once and FormData bypassed the cache
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(4);
+    const cacheKeys = mockCache.getSetHistory().map(item => item.key);
+    expect(cacheKeys).toHaveLength(2);
+    expect(cacheKeys[0]).not.toBe(cacheKeys[1]);
+  });
+
+  it('should key null query values separately when nulls are sent', async () => {
+    // Setup
+    const endpoint = '/users';
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.GET, []);
+    
+    // Make requests with and without a null parameter
+    await cacheDecorator.request(endpoint, { query: { manager: null }, queryOptions: { skipNulls: false } });
+    await cacheDecorator.request(endpoint, { queryOptions: { skipNulls: false } });
+    
+    // Verify both were fetched
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(2);
+  });
+
+  it('should cache requestRaw envelopes separately from data', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    const cacheKey = generateCacheKey(endpoint, HTTPMethod.GET);
+    
+    // Configure mock
+    mockNetworkRequestable.mockRawResponse(endpoint, HTTPMethod.GET, {
+      data: { id: 1 },
+      headers: { etag: '"v1"' }
+    });
+    
+    // Make the same raw request twice
+    const response1 = await cacheDecorator.requestRaw(endpoint, HTTPMethod.GET);
+    const response2 = await cacheDecorator.requestRaw(endpoint, HTTPMethod.GET);
+    
+    // Verify
+    expect(response1.headers.etag).toBe('"v1"');
+    expect(response2).toEqual(response1);
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(1);
+    
+    // Verify the envelope did not end up under the data cache key
+    const cacheKeys = mockCache.getSetHistory().map(item => item.key);
+    expect(cacheKeys).toEqual([`raw:${cacheKey}`]);
+    
+    // Verify invalidation removes both entries
+    cacheDecorator.invalidateCache(endpoint, HTTPMethod.GET);
+    expect(mockCache.getRemoveHistory()).toEqual([cacheKey, `raw:${cacheKey}`]);
+  });
+  
+  it('should bypass the cache when the request context asks for it', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.GET, { id: 1 });
+    
+    // Make the same request twice, skipping the cache
+    await cacheDecorator.request(endpoint, { context: { skipCache: true } });
+    await cacheDecorator.request(endpoint, { context: { skipCache: true } });
+    
+    // Verify the cache was not touched
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(2);
+    expect(mockCache.getGetHistory().length).toBe(0);
+    expect(mockCache.getSetHistory().length).toBe(0);
+  });
+  
+  it('should use the per-request TTL override', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.GET, { id: 1 });
+    
+    // Make request
+    await cacheDecorator.request(endpoint, { context: { cacheTtl: 1000 } });
+    
+    // Verify
+    expect(mockCache.getSetHistory()[0].ttl).toBe(1000);
+  });
+  
+  it('should include query parameters in the cache key', async () => {
+    // Setup
+    const endpoint = '/users';
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.GET, []);
+    
+    // Make requests for different pages
+    await cacheDecorator.request(endpoint, { query: { page: 1 } });
+    await cacheDecorator.request(endpoint, { query: { page: 2 } });
+    
+    // Verify each page was fetched and cached separately
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(2);
+    expect(mockCache.getSetHistory().map(item => item.key)).toEqual([
+      generateCacheKey(endpoint, HTTPMethod.GET, undefined, { page: 1 }),
+      generateCacheKey(endpoint, HTTPMethod.GET, undefined, { page: 2 })
+    ]);
+  });
+  
+  it('should share cache entries for equivalent query parameters', async () => {
+    // Setup
+    const endpoint = '/users';
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.GET, []);
+    
+    // Make requests with the same parameters in a different order
+    await cacheDecorator.request(endpoint, { query: { page: 1, sort: 'name', filter: null } });
+    await cacheDecorator.request(endpoint, { query: { sort: 'name', page: 1 } });
+    
+    // Verify the second request was served from the cache
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(1);
+  });
+  
+  it('should key endpoint templates by route and path parameters', async () => {
+    // Setup
+    const endpoint = '/users/:id';
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.GET, { ok: true });
+    
+    // Make requests for two users, and the first one again
+    await cacheDecorator.request(endpoint, { params: { id: 1 } });
+    await cacheDecorator.request(endpoint, { params: { id: 2 } });
+    await cacheDecorator.request(endpoint, { params: { id: 1 } });
+    
+    // Verify each user was fetched once and keys group by route
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(2);
+    const cacheKeys = mockCache.getSetHistory().map(item => item.key);
+    expect(cacheKeys).toEqual([
+      generateCacheKey(endpoint, HTTPMethod.GET, undefined, undefined, { id: 1 }),
+      generateCacheKey(endpoint, HTTPMethod.GET, undefined, undefined, { id: 2 })
+    ]);
+    cacheKeys.forEach(key => expect(key.startsWith('GET:/users/:id:')).toBe(true));
+    
+    // Verify a single user can be invalidated
+    cacheDecorator.invalidateCache(endpoint, HTTPMethod.GET, undefined, undefined, { id: 2 });
+    expect(mockCache.getRemoveHistory()[0]).toBe(cacheKeys[1]);
+  });
+
+  it('should key requests to named services separately', async () => {
+    // Setup
+    const endpoint = '/status';
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.GET, { ok: true });
+    
+    // Make requests to the default service and the auth service
+    await cacheDecorator.request(endpoint);
+    await cacheDecorator.request(endpoint, { service: 'auth' });
+    await cacheDecorator.request(endpoint, { service: 'auth' });
+    
+    // Verify each service was fetched once
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(2);
+    expect(mockCache.getSetHistory().map(item => item.key)).toEqual([
+      generateCacheKey(endpoint, HTTPMethod.GET),
+      generateCacheKey(endpoint, HTTPMethod.GET, undefined, undefined, undefined, 'auth')
+    ]);
+    
+    // Verify the auth entry can be invalidated
+    cacheDecorator.invalidateCache(endpoint, HTTPMethod.GET, undefined, undefined, undefined, 'auth');
+    expect(mockCache.getRemoveHistory()[0]).toBe(generateCacheKey(endpoint, HTTPMethod.GET, undefined, undefined, undefined, 'auth'));
+  });
+
+  it('should key responses by the base URL of the active environment', async () => {
+    // Setup
+    const endpoint = '/status';
+    const environments = new EnvironmentRegistry(
+      { staging: { api: 'https://staging.example.com' }, prod: { api: 'https://api.example.com' } },
+      'prod'
+    );
+    cacheDecorator = new CacheDecorator(mockNetworkRequestable, mockCache, null, [HTTPMethod.GET], { baseURL: environments });
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.GET, { ok: true });
+    
+    // Make requests in prod, in staging, and in prod again
+    await cacheDecorator.request(endpoint);
+    environments.setEnvironment('staging');
+    await cacheDecorator.request(endpoint);
+    environments.setEnvironment('prod');
+    await cacheDecorator.request(endpoint);
+    
+    // Verify each environment was fetched once
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(2);
+    expect(mockCache.getSetHistory().map(item => item.key)).toEqual([
+      `${generateCacheKey(endpoint, HTTPMethod.GET)}:base=https://api.example.com`,
+      `${generateCacheKey(endpoint, HTTPMethod.GET)}:base=https://staging.example.com`
+    ]);
+  });
+
+  it('should hash the values of the vary query parameters', async () => {
+    // Setup
+    const endpoint = '/tiles';
+    cacheDecorator = new CacheDecorator(mockNetworkRequestable, mockCache, null, [HTTPMethod.GET], { varyQuery: ['api_key'] });
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.GET, { ok: true });
+    
+    // Make requests with two keys and the first one again
+    await cacheDecorator.request(endpoint, { query: { z: 3, api_key: 'secret-1' } });
+    await cacheDecorator.request(endpoint, { query: { z: 3, api_key: 'secret-2' } });
+    await cacheDecorator.request(endpoint, { query: { z: 3, api_key: 'secret-1' } });
+    
+    // Verify each key was fetched once and keys are not part of the cache keys
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(2);
+    const cacheKeys = mockCache.getSetHistory().map(item => item.key);
+    expect(cacheKeys).toHaveLength(2);
+    cacheKeys.forEach(key => expect(key).not.toContain('secret'));
+    expect(cacheKeys[0]).toContain('"z":3');
+  });
+
+  it('should key responses by the values of the vary headers', async () => {
+    // Setup
+    const endpoint = '/me';
+    cacheDecorator = new CacheDecorator(mockNetworkRequestable, mockCache, null, [HTTPMethod.GET], { varyHeaders: ['Authorization'] });
+    mockNetworkRequestable.mockResponse(endpoint, HTTPMethod.GET, { ok: true });
+    
+    // Make requests for two users, the first one again, and anonymously
+    await cacheDecorator.request(endpoint, { headers: { Authorization: 'Bearer alice' } });
+    await cacheDecorator.request(endpoint, { headers: { authorization: 'Bearer bob' } });
+    await cacheDecorator.request(endpoint, { headers: { Authorization: 'Bearer alice' } });
+    await cacheDecorator.request(endpoint);
+    
+    // Verify each user was fetched once and tokens are not part of the keys
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(3);
+    const cacheKeys = mockCache.getSetHistory().map(item => item.key);
+    expect(new Set(cacheKeys).size).toBe(3);
+    expect(cacheKeys[2]).toBe(generateCacheKey(endpoint, HTTPMethod.GET));
+    cacheKeys.forEach(key => expect(key).not.toContain('alice'));
+    
+    // Verify one user's entry can be invalidated
+    cacheDecorator.invalidateCache(endpoint, HTTPMethod.GET, undefined, undefined, undefined, undefined, {
+      Authorization: 'Bearer bob'
+    });
+    expect(mockCache.getRemoveHistory()[0]).toBe(cacheKeys[1]);
+  });
 });
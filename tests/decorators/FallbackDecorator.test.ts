@@ -288,4 +288,76 @@ describe('FallbackDecorator', () => {
     expect(primaryMock.getRequestHistory().length).toBe(1);
     expect(fallbackMock.getRequestHistory().length).toBe(0);
   });
+  
+  it('should fall back for requestRaw', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    
+    // Configure mocks
+    primaryMock.mockError(endpoint, HTTPMethod.GET, NetworkError.networkFailure('Connection failed'));
+    fallbackMock.mockRawResponse(endpoint, HTTPMethod.GET, {
+      data: { id: 1 },
+      url: 'https://fallback.example.com/users/1'
+    });
+    
+    // Make request
+    const response = await fallbackDecorator.requestRaw(endpoint, HTTPMethod.GET);
+    
+    // Verify
+    expect(response.data).toEqual({ id: 1 });
+    expect(response.url).toBe('https://fallback.example.com/users/1');
+    expect(primaryMock.getRequestHistory().length).toBe(1);
+    expect(fallbackMock.getRequestHistory().length).toBe(1);
+  });
+  
+  it('should not use fallback once the request is cancelled', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    const controller = new AbortController();
+    
+    // Configure primary mock to fail after the caller aborts
+    fallbackMock.mockResponse(endpoint, HTTPMethod.GET, { id: 1 });
+    jest.spyOn(primaryMock, 'request').mockImplementationOnce(async () => {
+      controller.abort();
+      throw NetworkError.networkFailure('Connection failed');
+    });
+    
+    // Make request and expect it to be cancelled
+    await expect(
+      fallbackDecorator.request(endpoint, HTTPMethod.GET, undefined, undefined, {}, controller.signal)
+    ).rejects.toMatchObject({ type: NetworkErrorType.CANCELLED });
+    
+    // Verify fallback was not called
+    expect(fallbackMock.getRequestHistory().length).toBe(0);
+  });
+  
+  it('should not use fallback when the request context skips it', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    primaryMock.mockError(endpoint, HTTPMethod.GET, NetworkError.networkFailure('Connection failed'));
+    fallbackMock.mockResponse(endpoint, HTTPMethod.GET, { id: 1 });
+    
+    // Make request and expect it to fail
+    await expect(
+      fallbackDecorator.request(endpoint, { context: { skipFallback: true } })
+    ).rejects.toMatchObject({ type: NetworkErrorType.NETWORK_FAILURE });
+    
+    // Verify fallback was not called
+    expect(fallbackMock.getRequestHistory().length).toBe(0);
+  });
+
+  it('should not use fallback once the request deadline has passed', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    primaryMock.mockError(endpoint, HTTPMethod.GET, NetworkError.timeout('Request deadline exceeded'));
+    fallbackMock.mockResponse(endpoint, HTTPMethod.GET, { id: 1 });
+    
+    // Make request and expect the primary error
+    await expect(
+      fallbackDecorator.request(endpoint, { deadline: Date.now() - 1 })
+    ).rejects.toMatchObject({ type: NetworkErrorType.TIMEOUT });
+    
+    // Verify fallback was not called
+    expect(fallbackMock.getRequestHistory().length).toBe(0);
+  });
 });
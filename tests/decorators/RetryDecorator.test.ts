@@ -59,6 +59,17 @@ describe('RetryDecorator', () => {
     expect(mockDelay).not.toHaveBeenCalled();
   });
   
+  it('should record the number of attempts on the final error', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    mockNetworkRequestable.mockError(endpoint, HTTPMethod.GET, NetworkError.networkFailure('Connection failed'));
+    
+    // Make request and expect it to fail
+    await expect(retryDecorator.request(endpoint, HTTPMethod.GET)).rejects.toMatchObject({
+      attempts: DEFAULT_RETRY_OPTIONS.maxAttempts
+    });
+  });
+  
   it('should retry on network failures up to maxAttempts', async () => {
     // Setup
     const endpoint = '/users/1';
@@ -262,4 +273,106 @@ describe('RetryDecorator', () => {
     expect(requestHistory[0].body).toEqual(body);
     expect(requestHistory[0].headers).toEqual(headers);
   });
+  
+  it('should retry requestRaw', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    
+    // Configure mock to fail once then succeed
+    mockNetworkRequestable.mockResponseSequence(endpoint, HTTPMethod.GET, [
+      { success: false, error: NetworkError.networkFailure('Connection failed') },
+      { success: true, response: { id: 1 } }
+    ]);
+    
+    // Make request
+    const response = await retryDecorator.requestRaw(endpoint, HTTPMethod.GET);
+    
+    // Verify
+    expect(response.status).toBe(200);
+    expect(response.data).toEqual({ id: 1 });
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(2);
+  });
+  
+  it('should abort a pending backoff wait when the signal is aborted', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    const controller = new AbortController();
+    
+    // Keep the backoff timer pending and abort while waiting on it
+    (global.setTimeout as unknown as jest.Mock).mockImplementationOnce(() => {
+      controller.abort();
+      return 0;
+    });
+    
+    // Configure mock to always fail
+    mockNetworkRequestable.mockError(endpoint, HTTPMethod.GET, NetworkError.networkFailure('Connection failed'));
+    
+    // Make request
+    const promise = retryDecorator.request(endpoint, HTTPMethod.GET, undefined, undefined, {}, controller.signal);
+    
+    // Verify
+    await expect(promise).rejects.toMatchObject({ type: NetworkErrorType.CANCELLED });
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(1);
+  });
+  
+  it('should never retry cancelled requests', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    const customRetryDecorator = new RetryDecorator(mockNetworkRequestable, {
+      retryableErrors: [NetworkErrorType.CANCELLED]
+    });
+    
+    // Configure mock
+    mockNetworkRequestable.mockError(endpoint, HTTPMethod.GET, NetworkError.cancelled());
+    
+    // Make request and expect it to fail
+    await expect(
+      customRetryDecorator.request(endpoint, HTTPMethod.GET)
+    ).rejects.toMatchObject({ type: NetworkErrorType.CANCELLED });
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(1);
+  });
+  
+  it('should not retry when the request context disables retries', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    mockNetworkRequestable.mockError(endpoint, HTTPMethod.GET, NetworkError.networkFailure('Connection failed'));
+    
+    // Make request and expect it to fail
+    await expect(
+      retryDecorator.request(endpoint, { context: { retry: false } })
+    ).rejects.toThrow(NetworkError);
+    
+    // Verify network was called only once
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(1);
+  });
+  
+  it('should use per-request retry options', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    mockNetworkRequestable.mockError(endpoint, HTTPMethod.GET, NetworkError.networkFailure('Connection failed'));
+    
+    // Make request and expect it to fail
+    await expect(
+      retryDecorator.request(endpoint, { context: { retry: { maxAttempts: 5 } } })
+    ).rejects.toThrow(NetworkError);
+    
+    // Verify network was called with the overridden attempt count
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(5);
+  });
+
+  it('should not retry once the wait would pass the request deadline', async () => {
+    // Setup
+    const endpoint = '/users/1';
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    mockNetworkRequestable.mockError(endpoint, HTTPMethod.GET, NetworkError.networkFailure('Connection failed'));
+    
+    // Make request and expect the original error
+    await expect(
+      retryDecorator.request(endpoint, { totalTimeout: DEFAULT_RETRY_OPTIONS.initialDelay })
+    ).rejects.toMatchObject({ type: NetworkErrorType.NETWORK_FAILURE, attempts: 1 });
+    now.mockRestore();
+    
+    // Verify network was called only once
+    expect(mockNetworkRequestable.getRequestHistory().length).toBe(1);
+  });
 });
@@ -0,0 +1,97 @@
+import { SigningDecorator } from '../../src/decorators/SigningDecorator';
+import { BaseNetworkRequestable } from '../../src/core/BaseNetworkRequestable';
+import { PreparedRequest } from '../../src/core/Transport';
+import { RetryDecorator } from '../../src/decorators/RetryDecorator';
+import { MemoryTransport } from '../../src/mocks/MemoryTransport';
+import { RequestSigner } from '../../src/signing/RequestSigner';
+import { HTTPMethod } from '../../src/types';
+import { holdTimers } from '../setup';
+
+describe('SigningDecorator', () => {
+  let transport: MemoryTransport;
+  let client: BaseNetworkRequestable;
+  let signed: PreparedRequest[];
+  let signer: RequestSigner;
+
+  // Run retry delays at once while request timeouts stay pending
+  holdTimers(1000);
+
+  beforeEach(() => {
+    transport = new MemoryTransport().on('*', /.*/, { body: { ok: true } });
+    client = new BaseNetworkRequestable('https://api.example.com', {}, 30000, { transport });
+    signed = [];
+    signer = {
+      sign: jest.fn(async request => {
+        signed.push(request);
+        return { ...request, headers: { ...request.headers, 'X-Signature': `sig-${signed.length}` } };
+      })
+    };
+  });
+
+  it('should sign the final URL, headers and serialized body', async () => {
+    // Setup
+    const decorator = new SigningDecorator(client, signer);
+
+    // Make request
+    await decorator.request('/orders/:id', {
+      method: HTTPMethod.PUT,
+      params: { id: 7 },
+      query: { notify: true },
+      body: { sku: 'A-1' }
+    });
+
+    // Assertions
+    expect(signed[0]).toEqual({
+      url: 'https://api.example.com/orders/7?notify=true',
+      method: HTTPMethod.PUT,
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: '{"sku":"A-1"}'
+    });
+    expect(transport.getRequestHistory()[0].headers['X-Signature']).toBe('sig-1');
+  });
+
+  it('should sign each retry again', async () => {
+    // Setup
+    transport.on('*', /.*/, () => (signed.length === 1 ? { status: 503 } : { body: { ok: true } }));
+    const decorator = new RetryDecorator(new SigningDecorator(client, signer), { maxAttempts: 2, initialDelay: 0 });
+
+    // Make request
+    await decorator.request('/orders');
+
+    // Assertions
+    expect(transport.getRequestHistory().map(request => request.headers['X-Signature'])).toEqual(['sig-1', 'sig-2']);
+  });
+
+  it('should run after an existing beforeSend hook', async () => {
+    // Setup
+    const decorator = new SigningDecorator(client, signer);
+    const beforeSend = (request: PreparedRequest) => ({ ...request, headers: { ...request.headers, 'X-Nonce': 'n-1' } });
+
+    // Make request
+    await decorator.request('/orders', { beforeSend });
+
+    // Assertions
+    expect(signed[0].headers['X-Nonce']).toBe('n-1');
+    expect(transport.getRequestHistory()[0].headers).toEqual(
+      expect.objectContaining({ 'X-Nonce': 'n-1', 'X-Signature': 'sig-1' })
+    );
+  });
+
+  it('should not sign requests that skip signing or do not need it', async () => {
+    // Setup
+    const decorator = new SigningDecorator(client, signer, endpoint => endpoint.startsWith('/partner/'));
+
+    // Make requests
+    await decorator.request('/public/status');
+    await decorator.requestRaw('/partner/orders', { context: { skipSigning: true } });
+    await decorator.requestRaw('/partner/orders');
+
+    // Assertions
+    expect(signer.sign).toHaveBeenCalledTimes(1);
+    expect(transport.getRequestHistory().map(request => request.headers['X-Signature'])).toEqual([
+      undefined,
+      undefined,
+      'sig-1'
+    ]);
+  });
+});
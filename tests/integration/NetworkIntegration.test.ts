@@ -8,7 +8,8 @@ import {
   NetworkError,
   NetworkErrorType,
   MockNetworkRequestable,
-  MockCache
+  MockCache,
+  MultipartBody
 } from '../../src';
 
 // Use the global createMockResponse function defined in jest.setup.js
@@ -216,4 +217,63 @@ describe('Network Integration Tests', () => {
     expect(requestHistory[0].endpoint).toBe(endpoint);
     expect(requestHistory[0].method).toBe(HTTPMethod.GET);
   });
+
+  it('should send a fresh multipart body on every retry of an authenticated upload', async () => {
+    // Setup
+    (global.fetch as jest.Mock)
+      .mockResolvedValueOnce(createMockResponse(503, {}))
+      .mockResolvedValueOnce(createMockResponse(201, { id: 'photo-1' }));
+    const networkClient = authenticated(
+      retry(new BaseNetworkRequestable('https://api.example.com'), { initialDelay: 0 }),
+      () => 'test-token',
+      () => true
+    );
+    const body = new MultipartBody()
+      .append('caption', 'Beach')
+      .appendFile('photo', { blob: new Blob(['jpeg-bytes'], { type: 'image/jpeg' }), name: 'beach.jpg', type: 'image/jpeg' });
+    
+    // Make request
+    const result = await networkClient.request('/photos', { method: HTTPMethod.POST, body });
+    
+    // Verify
+    expect(result).toEqual({ id: 'photo-1' });
+    const [first, second] = (global.fetch as jest.Mock).mock.calls.map(call => call[1]);
+    expect(first.body).toBeInstanceOf(FormData);
+    expect(second.body).toBeInstanceOf(FormData);
+    expect(second.body).not.toBe(first.body);
+    expect((second.body as FormData).get('caption')).toBe('Beach');
+    expect(((second.body as FormData).get('photo') as File).name).toBe('beach.jpg');
+    
+    // The transport sets the multipart Content-Type with the boundary
+    expect(second.headers).toEqual({ 'Accept': 'application/json', 'Authorization': 'Bearer test-token' });
+  });
+
+  it('should share one deadline across retries and the fallback', async () => {
+    // Setup a clock that advances one second per request
+    let now = 0;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    (global.fetch as jest.Mock).mockImplementation(async () => {
+      now += 1000;
+      return createMockResponse(503, { error: 'Unavailable' });
+    });
+    const networkClient = fallback(
+      retry(new BaseNetworkRequestable('https://api.example.com'), { initialDelay: 300 }),
+      () => new BaseNetworkRequestable('https://fallback.example.com')
+    );
+
+    // Make request and expect the fallback error
+    await expect(
+      networkClient.request('/users', { totalTimeout: 2500 })
+    ).rejects.toMatchObject({ type: NetworkErrorType.HTTP_ERROR, statusCode: 503 });
+    jest.restoreAllMocks();
+
+    // Verify two attempts fit the budget before the fallback, which gets the time left
+    const urls = (global.fetch as jest.Mock).mock.calls.map(call => call[0]);
+    expect(urls).toEqual([
+      'https://api.example.com/users',
+      'https://api.example.com/users',
+      'https://fallback.example.com/users'
+    ]);
+    expect(global.setTimeout).toHaveBeenLastCalledWith(expect.any(Function), 500);
+  });
 });
@@ -0,0 +1,185 @@
+import { Middleware, compose, fromDecorator, toDecorator, withMiddleware } from '../../src/middleware/Middleware';
+import { MockNetworkRequestable } from '../../src/mocks/MockNetworkRequestable';
+import { authenticated } from '../../src/decorators/AuthenticatedDecorator';
+import { cached } from '../../src/decorators/CacheDecorator';
+import { retry } from '../../src/decorators/RetryDecorator';
+import { HTTPMethod, NetworkError } from '../../src/types';
+
+describe('Middleware', () => {
+  let mockNetworkRequestable: MockNetworkRequestable;
+
+  beforeEach(() => {
+    mockNetworkRequestable = new MockNetworkRequestable();
+    mockNetworkRequestable.mockResponse('/users', HTTPMethod.GET, [{ id: 1 }]);
+  });
+
+  it('should run middleware around the request, outermost first', async () => {
+    // Setup
+    const calls: string[] = [];
+    const trace = (name: string): Middleware => async (ctx, next) => {
+      calls.push(`${name} before ${ctx.endpoint}`);
+      await next();
+      calls.push(`${name} after ${ctx.response?.status}`);
+    };
+    const client = withMiddleware(mockNetworkRequestable, trace('outer')).use(trace('inner'));
+
+    // Make request
+    const result = await client.request('/users');
+
+    // Assertions
+    expect(result).toEqual([{ id: 1 }]);
+    expect(calls).toEqual(['outer before /users', 'inner before /users', 'inner after 200', 'outer after 200']);
+  });
+
+  it('should let middleware rewrite the request and share state', async () => {
+    // Setup
+    const flags: Middleware = (ctx, next) => {
+      ctx.state.variant = 'b';
+      ctx.config = { ...ctx.config, headers: { ...ctx.config.headers, 'X-Variant': ctx.state.variant } };
+      return next();
+    };
+    const analytics = jest.fn<void, [string, number | undefined]>();
+    const track: Middleware = async (ctx, next) => {
+      await next();
+      analytics(ctx.state.variant, ctx.response?.status);
+    };
+    const client = withMiddleware(mockNetworkRequestable, flags, track);
+
+    // Make request
+    await client.request('/users');
+
+    // Assertions
+    expect(mockNetworkRequestable.getRequestHistory()[0].headers).toEqual({ 'X-Variant': 'b' });
+    expect(analytics).toHaveBeenCalledWith('b', 200);
+  });
+
+  it('should let middleware answer without calling next', async () => {
+    // Setup
+    const offline: Middleware = ctx => {
+      ctx.response = { status: 200, headers: {}, data: 'offline copy', url: ctx.endpoint, duration: 0 };
+    };
+    const client = withMiddleware(mockNetworkRequestable, offline);
+
+    // Make request
+    const result = await client.request('/users');
+
+    // Assertions
+    expect(result).toBe('offline copy');
+    expect(mockNetworkRequestable.getRequestHistory()).toHaveLength(0);
+  });
+
+  it('should throw errors from the rest of the chain out of next', async () => {
+    // Setup
+    mockNetworkRequestable.mockError('/fail', HTTPMethod.GET, NetworkError.httpError(500));
+    const seen: unknown[] = [];
+    const client = withMiddleware(mockNetworkRequestable, async (ctx, next) => {
+      try {
+        await next();
+      } catch (error) {
+        seen.push(error);
+        throw error;
+      }
+    });
+
+    // Make request and verify
+    await expect(client.request('/fail')).rejects.toThrow('HTTP error: 500');
+    expect(seen).toHaveLength(1);
+  });
+
+  it('should reject when no middleware produces a response', async () => {
+    const client = withMiddleware(mockNetworkRequestable, () => undefined);
+    await expect(client.request('/users')).rejects.toThrow('Middleware chain finished without a response');
+  });
+
+  it('should compose middleware into one', async () => {
+    // Setup
+    const calls: number[] = [];
+    const composed = compose([
+      async (_ctx, next) => { calls.push(1); await next(); },
+      async (_ctx, next) => { calls.push(2); await next(); }
+    ]);
+    const client = withMiddleware(mockNetworkRequestable, composed, async (_ctx, next) => {
+      calls.push(3);
+      await next();
+    });
+
+    // Make request
+    await client.request('/users');
+
+    // Assertions
+    expect(calls).toEqual([1, 2, 3]);
+  });
+
+  it('should turn middleware into a decorator', async () => {
+    // Setup
+    const addLocale = toDecorator((ctx, next) => {
+      ctx.config = { ...ctx.config, headers: { ...ctx.config.headers, 'Accept-Language': 'de' } };
+      return next();
+    });
+    const client = retry(addLocale(mockNetworkRequestable));
+
+    // Make request
+    await client.request('/users');
+
+    // Assertions
+    expect(mockNetworkRequestable.getRequestHistory()[0].headers).toEqual({ 'Accept-Language': 'de' });
+  });
+
+  describe('fromDecorator', () => {
+    it('should run the rest of the chain for each retry attempt', async () => {
+      // Setup
+      mockNetworkRequestable.mockResponseSequence('/flaky', HTTPMethod.GET, [
+        { success: false, error: NetworkError.networkFailure('offline') },
+        { success: true, response: 'ok' }
+      ]);
+      const attempts: string[] = [];
+      const client = withMiddleware(
+        mockNetworkRequestable,
+        fromDecorator(inner => retry(inner, { maxAttempts: 2, initialDelay: 0 })),
+        (ctx, next) => {
+          attempts.push(ctx.endpoint);
+          return next();
+        }
+      );
+
+      // Make request
+      const result = await client.request('/flaky');
+
+      // Assertions
+      expect(result).toBe('ok');
+      expect(attempts).toEqual(['/flaky', '/flaky']);
+    });
+
+    it('should keep decorator state across requests and pass rewritten requests on', async () => {
+      // Setup
+      const client = withMiddleware(
+        mockNetworkRequestable,
+        fromDecorator(inner => authenticated(inner, () => 'token', () => true)),
+        fromDecorator(inner => cached(inner))
+      );
+
+      // Make requests
+      await client.request('/users');
+      const result = await client.request('/users');
+
+      // Assertions
+      expect(result).toEqual([{ id: 1 }]);
+      const history = mockNetworkRequestable.getRequestHistory();
+      expect(history).toHaveLength(1);
+      expect(history[0].headers).toEqual({ Authorization: 'Bearer token' });
+    });
+
+    it('should not pass its chain to the client at the end', async () => {
+      // Setup
+      const client = withMiddleware(mockNetworkRequestable, fromDecorator(inner => retry(inner)));
+
+      // Make request
+      await client.request('/users', { context: { skipCache: true } });
+
+      // Assertions
+      const context = mockNetworkRequestable.getRequestHistory()[0].config.context;
+      expect(context).toEqual({ skipCache: true });
+      expect(Object.getOwnPropertySymbols(context)).toEqual([]);
+    });
+  });
+});
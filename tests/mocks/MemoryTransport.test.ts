@@ -0,0 +1,120 @@
+import { MemoryTransport } from '../../src/mocks/MemoryTransport';
+import { BaseNetworkRequestable } from '../../src/core/BaseNetworkRequestable';
+import { HTTPMethod, NetworkError, NetworkErrorType } from '../../src/types';
+import { holdTimers } from '../setup';
+
+describe('MemoryTransport', () => {
+  let transport: MemoryTransport;
+  let controller: AbortController;
+
+  beforeEach(() => {
+    transport = new MemoryTransport();
+    controller = new AbortController();
+  });
+
+  const send = (method: HTTPMethod, url: string) =>
+    transport.send({ url, method, headers: {}, signal: controller.signal });
+
+  it('should answer with JSON for object bodies', async () => {
+    // Setup
+    transport.on(HTTPMethod.GET, '/users/1', { body: { id: 1 } });
+
+    // Make request
+    const response = await send(HTTPMethod.GET, 'https://api.example.com/users/1?include=posts');
+
+    // Assertions
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/json');
+    expect(await response.json()).toEqual({ id: 1 });
+  });
+
+  it('should match by method, regular expression and latest registration', async () => {
+    // Setup
+    transport
+      .on('*', /\/users\/\d+$/, { status: 404 })
+      .on(HTTPMethod.DELETE, /\/users\/\d+$/, { status: 204 })
+      .on(HTTPMethod.GET, /\/users\/\d+$/, request => ({ body: request.url }));
+
+    // Assertions
+    expect((await send(HTTPMethod.DELETE, 'https://api.example.com/users/2')).status).toBe(204);
+    expect((await send(HTTPMethod.PUT, 'https://api.example.com/users/2')).status).toBe(404);
+    expect(await (await send(HTTPMethod.GET, 'https://api.example.com/users/2')).text())
+      .toBe('https://api.example.com/users/2');
+  });
+
+  it('should record requests and reject unmatched ones', async () => {
+    // Make request and expect error
+    await expect(send(HTTPMethod.GET, 'https://api.example.com/missing'))
+      .rejects.toThrow('No route for GET https://api.example.com/missing');
+
+    // Assertions
+    expect(transport.getRequestHistory().map(request => request.url)).toEqual(['https://api.example.com/missing']);
+    transport.reset();
+    expect(transport.getRequestHistory()).toEqual([]);
+  });
+
+  it('should reject with an AbortError when the signal aborts', async () => {
+    // Setup
+    transport.on(HTTPMethod.GET, '/slow', () => new Promise(() => undefined));
+
+    // Make request
+    const promise = send(HTTPMethod.GET, 'https://api.example.com/slow');
+    controller.abort();
+
+    // Assertions
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+  });
+
+  describe('with BaseNetworkRequestable', () => {
+    let client: BaseNetworkRequestable;
+
+    holdTimers();
+
+    beforeEach(() => {
+      client = new BaseNetworkRequestable('https://api.example.com', {}, 30000, { transport });
+    });
+
+    it('should run the real serialization and parsing', async () => {
+      // Setup
+      transport.on(HTTPMethod.POST, '/users', async request => ({
+        status: 201,
+        body: { received: JSON.parse(request.body as string) }
+      }));
+
+      // Make request
+      const response = await client.requestRaw('/users', { method: HTTPMethod.POST, body: { name: 'Ann' } });
+
+      // Assertions
+      expect(response.status).toBe(201);
+      expect(response.data).toEqual({ received: { name: 'Ann' } });
+      expect(response.url).toBe('https://api.example.com/users');
+      expect(global.fetch).not.toHaveBeenCalled();
+    });
+
+    it('should run the real error handling', async () => {
+      // Setup
+      transport.on(HTTPMethod.GET, '/users/1', { status: 404, body: { message: 'Not found' } });
+
+      // Make request and expect error
+      const error: NetworkError = await client.request('/users/1', HTTPMethod.GET).catch(e => e);
+
+      // Assertions
+      expect(error.type).toBe(NetworkErrorType.HTTP_ERROR);
+      expect(error.statusCode).toBe(404);
+      expect(error.body).toEqual({ message: 'Not found' });
+    });
+
+    it('should report cancellation', async () => {
+      // Setup
+      transport.on(HTTPMethod.GET, '/slow', () => new Promise(() => undefined));
+
+      // Make request
+      const promise = client.request('/slow', { signal: controller.signal });
+      await Promise.resolve();
+      controller.abort();
+
+      // Assertions
+      await expect(promise).rejects.toMatchObject({ type: NetworkErrorType.CANCELLED });
+    });
+  });
+});
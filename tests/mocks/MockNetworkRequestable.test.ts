@@ -153,4 +153,126 @@ describe("MockNetworkRequestable", () => {
       mockNetworkRequestable.request(endpoint, HTTPMethod.GET)
     ).rejects.toThrow("No mock found for GET /users/1");
   });
+
+  it("should wrap mocked responses in an envelope for requestRaw", async () => {
+    // Configure mock
+    mockNetworkRequestable.mockResponse("/users/1", HTTPMethod.GET, { id: 1 });
+
+    // Make request
+    const response = await mockNetworkRequestable.requestRaw(
+      "/users/1",
+      HTTPMethod.GET
+    );
+
+    // Verify
+    expect(response).toEqual({
+      status: 200,
+      headers: {},
+      data: { id: 1 },
+      url: "/users/1",
+      duration: 0,
+    });
+  });
+
+  it("should return mocked raw responses", async () => {
+    // Configure mock
+    mockNetworkRequestable.mockRawResponse("/users", HTTPMethod.GET, {
+      status: 206,
+      headers: { link: '</users?page=2>; rel="next"' },
+      data: [{ id: 1 }],
+    });
+
+    // Make requests
+    const response = await mockNetworkRequestable.requestRaw(
+      "/users",
+      HTTPMethod.GET
+    );
+    const data = await mockNetworkRequestable.request("/users", HTTPMethod.GET);
+
+    // Verify
+    expect(response.status).toBe(206);
+    expect(response.headers.link).toBe('</users?page=2>; rel="next"');
+    expect(data).toEqual([{ id: 1 }]);
+  });
+
+  it("should reject requests whose signal is already aborted", async () => {
+    // Configure mock
+    mockNetworkRequestable.mockResponse("/users/1", HTTPMethod.GET, { id: 1 });
+    const controller = new AbortController();
+    controller.abort();
+
+    // Make request and expect error
+    await expect(
+      mockNetworkRequestable.request(
+        "/users/1",
+        HTTPMethod.GET,
+        undefined,
+        undefined,
+        undefined,
+        controller.signal
+      )
+    ).rejects.toMatchObject({ type: NetworkErrorType.CANCELLED });
+  });
+
+  it("should accept and record a RequestConfig", async () => {
+    // Configure mock
+    mockNetworkRequestable.mockResponse("/users", HTTPMethod.POST, { id: 1 }, {
+      name: "User 1",
+    });
+
+    // Make request
+    const result = await mockNetworkRequestable.request("/users", {
+      method: HTTPMethod.POST,
+      body: { name: "User 1" },
+      context: { feature: "signup" },
+    });
+
+    // Verify
+    expect(result).toEqual({ id: 1 });
+    const [record] = mockNetworkRequestable.getRequestHistory();
+    expect(record.method).toBe(HTTPMethod.POST);
+    expect(record.body).toEqual({ name: "User 1" });
+    expect(record.headers).toEqual({});
+    expect(record.config.context).toEqual({ feature: "signup" });
+  });
+
+  it("should match mocks by normalized query parameters", async () => {
+    // Configure mocks
+    mockNetworkRequestable.mockResponse("/users", HTTPMethod.GET, ["page 2"], undefined, {
+      page: 2,
+      sort: "name",
+    });
+    mockNetworkRequestable.mockResponse("/users", HTTPMethod.GET, ["any page"]);
+
+    // Make requests
+    const page2 = await mockNetworkRequestable.request("/users", {
+      query: { sort: "name", page: 2 },
+    });
+    const page3 = await mockNetworkRequestable.request("/users", {
+      query: { page: 3 },
+    });
+
+    // Verify query-specific mocks win and query-less mocks apply otherwise
+    expect(page2).toEqual(["page 2"]);
+    expect(page3).toEqual(["any page"]);
+  });
+
+  it("should match endpoint templates by expanded path or by route", async () => {
+    // Configure mocks
+    mockNetworkRequestable.mockResponse("/users/1", HTTPMethod.GET, { id: 1 });
+    mockNetworkRequestable.mockResponse("/users/:id", HTTPMethod.GET, { id: "any" });
+
+    // Make requests
+    const user1 = await mockNetworkRequestable.request("/users/:id", {
+      params: { id: 1 },
+    });
+    const user2 = await mockNetworkRequestable.request("/users/:id", {
+      params: { id: 2 },
+    });
+
+    // Verify
+    expect(user1).toEqual({ id: 1 });
+    expect(user2).toEqual({ id: "any" });
+    expect(mockNetworkRequestable.getRequestHistory()[0].endpoint).toBe("/users/:id");
+  });
 });
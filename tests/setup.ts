@@ -34,3 +34,27 @@ export const createMockResponse = (
   
   return mockResponse as Response;
 };
+
+/**
+ * Keep timers pending in the tests of the enclosing describe block instead of
+ * running them at once like the global setTimeout mock, so request timeouts do
+ * not fire; MemoryTransport honours the abort signal.
+ * @param runBelow Delays shorter than this still run at once, e.g. retry delays (default: none)
+ */
+export function holdTimers(runBelow: number = 0): void {
+  beforeEach(() => {
+    (global.setTimeout as unknown as jest.Mock).mockImplementation((callback: () => void, ms?: number) => {
+      if ((ms ?? 0) < runBelow) {
+        callback();
+      }
+      return 0;
+    });
+  });
+
+  afterEach(() => {
+    (global.setTimeout as unknown as jest.Mock).mockImplementation((callback: () => void) => {
+      callback();
+      return 123;
+    });
+  });
+}
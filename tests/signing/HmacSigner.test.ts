@@ -0,0 +1,88 @@
+import { createHash, createHmac } from 'crypto';
+import { HmacSigner } from '../../src/signing/HmacSigner';
+import { PreparedRequest } from '../../src/core/Transport';
+import { HTTPMethod, NetworkError } from '../../src/types';
+
+const now = () => Date.parse('2024-06-01T12:00:00Z');
+
+/**
+ * Verify a signature the way a partner server would
+ */
+const verify = (request: PreparedRequest, secret: string): boolean => {
+  const header = request.headers['Authorization'];
+  const [, signedHeaders, signature] = header.match(/SignedHeaders=([^,]+), Signature=(\w+)$/)!;
+  const headers: Record<string, string> = { host: 'partner.example.com' };
+  Object.entries(request.headers).forEach(([name, value]) => {
+    headers[name.toLowerCase()] = value;
+  });
+  const [path, query = ''] = request.url.replace('https://partner.example.com', '').split('?');
+  const canonicalRequest = [
+    request.method,
+    path,
+    query.split('&').sort().join('&'),
+    signedHeaders.split(';').map(name => `${name}:${headers[name]}\n`).join(''),
+    signedHeaders,
+    createHash('sha256').update(String(request.body ?? '')).digest('hex')
+  ].join('\n');
+  const stringToSign = ['HMAC-SHA256', headers['x-date'], createHash('sha256').update(canonicalRequest).digest('hex')].join('\n');
+  return createHmac('sha256', secret).update(stringToSign).digest('hex') === signature;
+};
+
+describe('HmacSigner', () => {
+  it('should sign the method, path, sorted query, headers and body', async () => {
+    // Setup
+    const signer = new HmacSigner({ keyId: 'partner-1', secret: 's3cret', now });
+    const request = {
+      url: 'https://partner.example.com/v1/orders?limit=10&after=abc',
+      method: HTTPMethod.POST,
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: '{"sku":"A-1"}'
+    };
+
+    // Make request
+    const signed = await signer.sign(request);
+
+    // Assertions
+    expect(signed.headers['X-Date']).toBe('2024-06-01T12:00:00.000Z');
+    expect(signed.headers['X-Content-SHA256']).toBe(createHash('sha256').update(request.body).digest('hex'));
+    expect(signed.headers['Authorization']).toMatch(
+      /^HMAC-SHA256 Credential=partner-1, SignedHeaders=content-type;host;x-content-sha256;x-date, Signature=[0-9a-f]{64}$/
+    );
+    expect(verify(signed, 's3cret')).toBe(true);
+    expect(verify({ ...signed, body: '{"sku":"A-2"}' }, 's3cret')).toBe(false);
+    expect(verify({ ...signed, url: 'https://partner.example.com/v1/orders?limit=99&after=abc' }, 's3cret')).toBe(false);
+  });
+
+  it('should use the configured headers and encoding', async () => {
+    // Setup
+    const signer = new HmacSigner({
+      keyId: 'k',
+      secret: 's',
+      now,
+      headerName: 'X-Signature',
+      timestampHeader: 'X-Timestamp',
+      signedHeaders: ['host', 'x-timestamp'],
+      encoding: 'base64'
+    });
+
+    // Make request
+    const signed = await signer.sign({ url: 'https://partner.example.com/ping', method: HTTPMethod.GET, headers: {} });
+
+    // Assertions
+    expect(signed.headers['X-Timestamp']).toBe('2024-06-01T12:00:00.000Z');
+    expect(signed.headers['X-Signature']).toMatch(
+      /^HMAC-SHA256 Credential=k, SignedHeaders=host;x-timestamp, Signature=[A-Za-z0-9+/]{43}=$/
+    );
+    expect(signed.headers['Authorization']).toBeUndefined();
+  });
+
+  it('should reject bodies it cannot read', async () => {
+    // Setup
+    const signer = new HmacSigner({ keyId: 'k', secret: 's', now });
+
+    // Assertions
+    await expect(
+      signer.sign({ url: 'https://partner.example.com/upload', method: HTTPMethod.POST, headers: {}, body: new FormData() })
+    ).rejects.toBeInstanceOf(NetworkError);
+  });
+});
@@ -0,0 +1,31 @@
+import { createCanonicalRequest } from '../../src/signing/RequestSigner';
+import { HTTPMethod } from '../../src/types';
+
+describe('RequestSigner', () => {
+  it('should build canonical requests with sorted, encoded queries and trimmed headers', () => {
+    // Make request
+    const { canonicalRequest, signedHeaders } = createCanonicalRequest(
+      {
+        url: 'http://API.example.com:80/v1/my%20items?b=2&a=x%20y&a=%21&flag#section',
+        method: HTTPMethod.GET,
+        headers: { 'X-Trace': '  one   two ', 'Accept': 'application/json' }
+      },
+      ['X-Trace', 'host'],
+      'UNSIGNED-PAYLOAD',
+      true
+    );
+
+    // Assertions
+    expect(signedHeaders).toBe('host;x-trace');
+    expect(canonicalRequest).toBe(
+      [
+        'GET',
+        '/v1/my%2520items',
+        'a=%21&a=x%20y&b=2&flag=',
+        'host:api.example.com\nx-trace:one two\n',
+        'host;x-trace',
+        'UNSIGNED-PAYLOAD'
+      ].join('\n')
+    );
+  });
+});
@@ -0,0 +1,116 @@
+import { createHash, createHmac } from 'crypto';
+import { SigV4Signer } from '../../src/signing/SigV4Signer';
+import { createCanonicalRequest } from '../../src/signing/RequestSigner';
+import { jsCryptoProvider } from '../../src/crypto/CryptoProvider';
+import { HTTPMethod } from '../../src/types';
+
+// Credentials and time of the AWS Signature Version 4 test suite
+const credentials = { accessKeyId: 'AKIDEXAMPLE', secretAccessKey: 'wJalrXUtnFEMI/K7MDENG+bPxRfiCYEXAMPLEKEY' };
+const now = () => Date.parse('2015-08-30T12:36:00Z');
+
+describe('SigV4Signer', () => {
+  it('should match the AWS get-vanilla test vector', async () => {
+    // Setup
+    const signer = new SigV4Signer({
+      credentials,
+      region: 'us-east-1',
+      service: 'service',
+      now,
+      contentSha256Header: false
+    });
+
+    // Make request
+    const signed = await signer.sign({ url: 'https://example.amazonaws.com/', method: HTTPMethod.GET, headers: {} });
+
+    // Assertions
+    expect(signed.headers).toEqual({
+      'X-Amz-Date': '20150830T123600Z',
+      'Authorization':
+        'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/service/aws4_request, ' +
+        'SignedHeaders=host;x-amz-date, Signature=5fa00fa31553b73ebf1942676e86291e8372ff2a2260956d9b8aae1d763fbf31'
+    });
+  });
+
+  it('should match the AWS IAM example with a query string, in plain JavaScript too', async () => {
+    // Setup
+    const request = {
+      url: 'https://iam.amazonaws.com/?Version=2010-05-08&Action=ListUsers',
+      method: HTTPMethod.GET,
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded; charset=utf-8', 'User-Agent': 'app/1.0' }
+    };
+    const options = { credentials, region: 'us-east-1', service: 'iam', now, contentSha256Header: false };
+
+    // Make requests
+    const signed = await new SigV4Signer(options).sign(request);
+    const signedInJs = await new SigV4Signer({ ...options, crypto: jsCryptoProvider }).sign(request);
+
+    // Assertions
+    const expected =
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/us-east-1/iam/aws4_request, ' +
+      'SignedHeaders=content-type;host;x-amz-date, ' +
+      'Signature=5d672d79c15b13162d9279b0855cfba6789a8edb4c82c400e06b5924a6f2b5d7';
+    expect(signed.headers['Authorization']).toBe(expected);
+    expect(signedInJs.headers['Authorization']).toBe(expected);
+    expect(signed.url).toBe(request.url);
+  });
+
+  it('should sign the payload hash and session token for S3', async () => {
+    // Setup
+    const signer = new SigV4Signer({
+      credentials: async () => ({ ...credentials, sessionToken: 'session' }),
+      region: 'eu-west-1',
+      service: 's3',
+      now
+    });
+    const body = new TextEncoder().encode('file contents');
+
+    // Make request
+    const signed = await signer.sign({
+      url: 'https://bucket.s3.eu-west-1.amazonaws.com:443/photos/a%20b.jpg',
+      method: HTTPMethod.PUT,
+      headers: { 'Content-Type': 'image/jpeg', 'Authorization': 'Bearer stale' },
+      body
+    });
+
+    // Recompute the signature the way the server does
+    const payloadHash = createHash('sha256').update(body).digest('hex');
+    expect(signed.headers['X-Amz-Content-Sha256']).toBe(payloadHash);
+    expect(signed.headers['X-Amz-Security-Token']).toBe('session');
+    const { canonicalRequest } = createCanonicalRequest(
+      signed,
+      ['content-type', 'host', 'x-amz-content-sha256', 'x-amz-date', 'x-amz-security-token'],
+      payloadHash
+    );
+    expect(canonicalRequest.split('\n').slice(0, 3)).toEqual(['PUT', '/photos/a%20b.jpg', '']);
+    expect(canonicalRequest).toContain('host:bucket.s3.eu-west-1.amazonaws.com\n');
+    const hmac = (key: Buffer | string, data: string) => createHmac('sha256', key).update(data).digest();
+    let key = hmac(`AWS4${credentials.secretAccessKey}`, '20150830');
+    ['eu-west-1', 's3', 'aws4_request'].forEach(part => {
+      key = hmac(key, part);
+    });
+    const stringToSign = [
+      'AWS4-HMAC-SHA256',
+      '20150830T123600Z',
+      '20150830/eu-west-1/s3/aws4_request',
+      createHash('sha256').update(canonicalRequest).digest('hex')
+    ].join('\n');
+    expect(signed.headers['Authorization']).toBe(
+      'AWS4-HMAC-SHA256 Credential=AKIDEXAMPLE/20150830/eu-west-1/s3/aws4_request, ' +
+        'SignedHeaders=content-type;host;x-amz-content-sha256;x-amz-date;x-amz-security-token, ' +
+        `Signature=${createHmac('sha256', key).update(stringToSign).digest('hex')}`
+    );
+  });
+
+  it('should send unreadable bodies as UNSIGNED-PAYLOAD', async () => {
+    // Setup
+    const signer = new SigV4Signer({ credentials, region: 'us-east-1', service: 's3', now });
+    const form = new FormData();
+    form.append('file', 'contents');
+
+    // Make request
+    const signed = await signer.sign({ url: 'https://s3.amazonaws.com/bucket', method: HTTPMethod.POST, headers: {}, body: form });
+
+    // Assertions
+    expect(signed.headers['X-Amz-Content-Sha256']).toBe('UNSIGNED-PAYLOAD');
+  });
+});
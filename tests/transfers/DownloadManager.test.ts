@@ -0,0 +1,205 @@
+import { DownloadManager, parseContentRange } from '../../src/transfers/DownloadManager';
+import { BaseNetworkRequestable } from '../../src/core/BaseNetworkRequestable';
+import { TransportRequest } from '../../src/core/Transport';
+import { MemoryResponse, MemoryTransport } from '../../src/mocks/MemoryTransport';
+import { authenticated } from '../../src/decorators/AuthenticatedDecorator';
+import { retry } from '../../src/decorators/RetryDecorator';
+import { cached, MemoryCache } from '../../src/decorators/CacheDecorator';
+import { sha256, toHex } from '../../src/crypto/sha256';
+import { HTTPMethod, NetworkErrorType } from '../../src/types';
+import { holdTimers } from '../setup';
+
+// Serve byte ranges of a file the way an HTTP server would
+const rangeServer = (getFile: () => Uint8Array, getETag: () => string) => (request: TransportRequest): MemoryResponse => {
+  const file = getFile();
+  const etag = getETag();
+  const match = request.headers['Range']?.match(/^bytes=(\d+)-(\d*)$/);
+  const ifRange = request.headers['If-Range'];
+  if (!match || (ifRange !== undefined && ifRange !== etag)) {
+    return { status: 200, headers: { etag, 'content-type': 'application/octet-stream' }, body: file };
+  }
+
+  const start = Number(match[1]);
+  const end = Math.min(match[2] ? Number(match[2]) : file.length - 1, file.length - 1);
+  if (start >= file.length) {
+    return { status: 416, headers: { 'content-range': `bytes */${file.length}` } };
+  }
+  return {
+    status: 206,
+    headers: { etag, 'content-range': `bytes ${start}-${end}/${file.length}`, 'content-type': 'application/octet-stream' },
+    body: file.slice(start, end + 1)
+  };
+};
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('DownloadManager', () => {
+  const file = new Uint8Array(25).map((_, index) => index);
+  let transport: MemoryTransport;
+  let manager: DownloadManager;
+  let etag: string;
+  let current: Uint8Array;
+
+  // Fire retry delays immediately but keep request timeouts pending
+  holdTimers(1000);
+
+  beforeEach(() => {
+    etag = '"v1"';
+    current = file;
+    transport = new MemoryTransport().on(HTTPMethod.GET, '/maps/pack.bin', rangeServer(() => current, () => etag));
+    const client = authenticated(
+      retry(new BaseNetworkRequestable('https://api.example.com', {}, 30000, { transport })),
+      () => 'test-token',
+      () => true
+    );
+    manager = new DownloadManager(client, { chunkSize: 10 });
+  });
+
+  it('should download in authenticated Range requests and report progress', async () => {
+    // Setup
+    const onProgress = jest.fn();
+
+    // Make request
+    const task = manager.download('/maps/pack.bin', { onProgress, sha256: toHex(sha256(file)), expectedSize: 25 });
+    const result = await task.promise;
+
+    // Assertions
+    expect(Array.from(result.data!)).toEqual(Array.from(file));
+    expect(result.size).toBe(25);
+    expect(result.validator).toBe('"v1"');
+    expect(task.state).toBe('completed');
+    const requests = transport.getRequestHistory();
+    expect(requests.map(request => request.headers['Range'])).toEqual(['bytes=0-9', 'bytes=10-19', 'bytes=20-24']);
+    expect(requests.every(request => request.headers['Authorization'] === 'Bearer test-token')).toBe(true);
+    expect(requests[1].headers['If-Range']).toBe('"v1"');
+    expect(onProgress.mock.calls.map(call => call[0])).toEqual([
+      { loaded: 10, total: 25 },
+      { loaded: 20, total: 25 },
+      { loaded: 25, total: 25 }
+    ]);
+    expect(manager.getTasks()).toEqual([]);
+  });
+
+  it('should pause and resume from the bytes received', async () => {
+    // Setup
+    const task = manager.download('/maps/pack.bin', {
+      onProgress: progress => {
+        if (progress.loaded === 10) {
+          task.pause();
+        }
+      }
+    });
+
+    // Make request
+    await flush();
+    expect(task.state).toBe('paused');
+    expect(task.bytesReceived).toBe(10);
+    expect(transport.getRequestHistory()).toHaveLength(1);
+    task.resume();
+    const result = await task.promise;
+
+    // Assertions
+    expect(Array.from(result.data!)).toEqual(Array.from(file));
+    expect(transport.getRequestHistory().map(request => request.headers['Range'])).toEqual([
+      'bytes=0-9',
+      'bytes=10-19',
+      'bytes=20-24'
+    ]);
+  });
+
+  it('should start over when the file changed while paused', async () => {
+    // Setup
+    const changed = new Uint8Array(12).fill(7);
+    const task = manager.download('/maps/pack.bin', {
+      onProgress: progress => {
+        if (progress.loaded === 10 && task.state === 'downloading' && current === file) {
+          task.pause();
+        }
+      }
+    });
+    await flush();
+
+    // Make request
+    current = changed;
+    etag = '"v2"';
+    task.resume();
+    const result = await task.promise;
+
+    // Assertions
+    expect(Array.from(result.data!)).toEqual(Array.from(changed));
+    expect(result.validator).toBe('"v2"');
+  });
+
+  it('should retry a failed chunk without losing progress', async () => {
+    // Setup
+    let failures = 1;
+    const server = rangeServer(() => file, () => etag);
+    transport.on(HTTPMethod.GET, '/maps/pack.bin', request => {
+      if (request.headers['Range'] === 'bytes=10-19' && failures-- > 0) {
+        return { status: 503 };
+      }
+      return server(request);
+    });
+
+    // Make request
+    const result = await manager.download('/maps/pack.bin').promise;
+
+    // Assertions
+    expect(Array.from(result.data!)).toEqual(Array.from(file));
+    expect(transport.getRequestHistory().map(request => request.headers['Range'])).toEqual([
+      'bytes=0-9',
+      'bytes=10-19',
+      'bytes=10-19',
+      'bytes=20-24'
+    ]);
+  });
+
+  it('should bypass caches', async () => {
+    // Setup
+    const client = cached(
+      new BaseNetworkRequestable('https://api.example.com', {}, 30000, { transport }),
+      new MemoryCache()
+    );
+
+    // Make request
+    const result = await new DownloadManager(client, { chunkSize: 10 }).download('/maps/pack.bin').promise;
+
+    // Assertions
+    expect(Array.from(result.data!)).toEqual(Array.from(file));
+  });
+
+  it('should fail with an integrity error on a size mismatch', async () => {
+    const task = manager.download('/maps/pack.bin', { expectedSize: 30 });
+    await expect(task.promise).rejects.toMatchObject({
+      type: NetworkErrorType.INTEGRITY_ERROR,
+      message: 'Integrity check failed: expected 30 bytes, received 25'
+    });
+    expect(task.state).toBe('failed');
+  });
+
+  it('should fail with an integrity error on a checksum mismatch', async () => {
+    const task = manager.download('/maps/pack.bin', { sha256: toHex(sha256('something else')) });
+    await expect(task.promise).rejects.toMatchObject({ type: NetworkErrorType.INTEGRITY_ERROR });
+  });
+
+  it('should reject with a cancelled error when cancelled', async () => {
+    // Setup
+    transport.on(HTTPMethod.GET, '/maps/pack.bin', () => new Promise(() => undefined));
+
+    // Make request
+    const task = manager.download('/maps/pack.bin');
+    await flush();
+    manager.cancelAll();
+
+    // Assertions
+    await expect(task.promise).rejects.toMatchObject({ type: NetworkErrorType.CANCELLED });
+    expect(task.state).toBe('cancelled');
+  });
+
+  it('should parse Content-Range headers', () => {
+    expect(parseContentRange('bytes 0-9/25')).toEqual({ start: 0, end: 9, total: 25 });
+    expect(parseContentRange('bytes 10-19/*')).toEqual({ start: 10, end: 19, total: undefined });
+    expect(parseContentRange('bytes */25')).toBeUndefined();
+    expect(parseContentRange(undefined)).toBeUndefined();
+  });
+});
@@ -0,0 +1,318 @@
+import { MemoryUrlStorage, TusClient, UploadSource, encodeMetadata } from '../../src/transfers/TusClient';
+import { BaseNetworkRequestable } from '../../src/core/BaseNetworkRequestable';
+import { TransportRequest } from '../../src/core/Transport';
+import { MemoryResponse, MemoryTransport } from '../../src/mocks/MemoryTransport';
+import { authenticated } from '../../src/decorators/AuthenticatedDecorator';
+import { HTTPMethod, NetworkErrorType } from '../../src/types';
+import { holdTimers } from '../setup';
+
+/**
+ * A small tus 1.0 server keeping uploads in memory
+ */
+class TusServer {
+  uploads = new Map<string, { length: number; data: number[]; metadata?: string }>();
+  // Bytes of the next PATCH to keep before failing it, to simulate a dropped connection
+  dropNextPatchAfter?: number;
+  // Drop the connection itself rather than answering the failed PATCH with a 503
+  dropConnection = false;
+  private nextId = 1;
+
+  install(transport: MemoryTransport): MemoryTransport {
+    return transport
+      .on(HTTPMethod.POST, '/files', request => this.create(request))
+      .on('*', /\/files\/\w+$/, request => this.handle(request));
+  }
+
+  private create(request: TransportRequest): MemoryResponse {
+    const id = `u${this.nextId++}`;
+    this.uploads.set(id, {
+      length: Number(request.headers['Upload-Length']),
+      data: [],
+      metadata: request.headers['Upload-Metadata']
+    });
+    return { status: 201, headers: { 'tus-resumable': '1.0.0', location: `/files/${id}` } };
+  }
+
+  private async handle(request: TransportRequest): Promise<MemoryResponse> {
+    const id = request.url.split('/').pop() as string;
+    const upload = this.uploads.get(id);
+    if (!upload) {
+      return { status: 404 };
+    }
+
+    switch (request.method) {
+      case HTTPMethod.HEAD:
+        return { status: 200, headers: { 'upload-offset': String(upload.data.length), 'upload-length': String(upload.length) } };
+      case HTTPMethod.DELETE:
+        this.uploads.delete(id);
+        return { status: 204 };
+      case HTTPMethod.PATCH: {
+        if (Number(request.headers['Upload-Offset']) !== upload.data.length) {
+          return { status: 409 };
+        }
+        const bytes = Array.from(new Uint8Array(await new Response(request.body).arrayBuffer()));
+        if (this.dropNextPatchAfter !== undefined) {
+          upload.data.push(...bytes.slice(0, this.dropNextPatchAfter));
+          this.dropNextPatchAfter = undefined;
+          if (this.dropConnection) {
+            throw new TypeError('Network request failed');
+          }
+          return { status: 503 };
+        }
+        upload.data.push(...bytes);
+        return { status: 204, headers: { 'upload-offset': String(upload.data.length) } };
+      }
+      default:
+        return { status: 405 };
+    }
+  }
+}
+
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('TusClient', () => {
+  const file = new Uint8Array(25).map((_, index) => index);
+  let server: TusServer;
+  let transport: MemoryTransport;
+  let storage: MemoryUrlStorage;
+  let tus: TusClient;
+
+  // Fire retry delays immediately but keep request timeouts pending
+  holdTimers(1000);
+
+  beforeEach(() => {
+    server = new TusServer();
+    transport = server.install(new MemoryTransport());
+    storage = new MemoryUrlStorage();
+    const client = authenticated(
+      new BaseNetworkRequestable('https://api.example.com', {}, 30000, { transport }),
+      () => 'test-token',
+      () => true
+    );
+    tus = new TusClient(client, storage, { chunkSize: 10, retryDelay: 0 });
+  });
+
+  it('should create the upload and send it in chunks', async () => {
+    // Setup
+    const onProgress = jest.fn();
+
+    // Make request
+    const upload = tus.upload('/files', file, { metadata: { filename: 'clip.mp4' }, onProgress });
+    const result = await upload.promise;
+
+    // Assertions
+    expect(result).toEqual({ url: 'https://api.example.com/files/u1', size: 25 });
+    expect(upload.state).toBe('completed');
+    expect(server.uploads.get('u1')).toEqual({
+      length: 25,
+      data: Array.from(file),
+      metadata: 'filename Y2xpcC5tcDQ='
+    });
+    const requests = transport.getRequestHistory();
+    expect(requests.map(request => `${request.method} ${request.headers['Upload-Offset'] ?? ''}`.trim())).toEqual([
+      'POST',
+      'PATCH 0',
+      'PATCH 10',
+      'PATCH 20'
+    ]);
+    expect(requests.every(request => request.headers['Tus-Resumable'] === '1.0.0')).toBe(true);
+    expect(requests.every(request => request.headers['Authorization'] === 'Bearer test-token')).toBe(true);
+    expect(requests[1].headers['Content-Type']).toBe('application/offset+octet-stream');
+    expect(onProgress.mock.calls.map(call => call[0].loaded)).toEqual([10, 20, 25]);
+  });
+
+  it('should read Blob sources one chunk at a time', async () => {
+    // Make request
+    await tus.upload('/files', new Blob([file])).promise;
+
+    // Assertions
+    expect(server.uploads.get('u1')!.data).toEqual(Array.from(file));
+  });
+
+  it('should resume a stored upload after a restart', async () => {
+    // Setup
+    const upload = tus.upload('/files', file, {
+      onProgress: progress => {
+        if (progress.loaded === 10) {
+          upload.pause();
+        }
+      }
+    });
+    await flush();
+    expect(upload.state).toBe('paused');
+    transport.reset();
+    server.install(transport);
+
+    // Make request
+    const restarted = new TusClient(
+      new BaseNetworkRequestable('https://api.example.com', {}, 30000, { transport }),
+      storage,
+      { chunkSize: 10 }
+    );
+    const result = await restarted.upload('/files', file).promise;
+
+    // Assertions
+    expect(result.url).toBe('https://api.example.com/files/u1');
+    expect(server.uploads.get('u1')!.data).toEqual(Array.from(file));
+    const requests = transport.getRequestHistory();
+    expect(requests.map(request => request.method)).toEqual([HTTPMethod.HEAD, HTTPMethod.PATCH, HTTPMethod.PATCH]);
+    expect(requests[0].headers['Cache-Control']).toBe('no-store');
+    expect(requests[1].headers['Upload-Offset']).toBe('10');
+  });
+
+  it('should create a new upload when the stored one is gone', async () => {
+    // Setup
+    storage.setItem('clip', 'https://api.example.com/files/expired');
+
+    // Make request
+    const result = await tus.upload('/files', file, { fingerprint: 'clip' }).promise;
+
+    // Assertions
+    expect(result.url).toBe('https://api.example.com/files/u1');
+    expect(transport.getRequestHistory()[0].method).toBe(HTTPMethod.HEAD);
+  });
+
+  it('should not resume the upload of different data with the same size', async () => {
+    // Setup
+    const first = tus.upload('/files', file, {
+      onProgress: progress => {
+        if (progress.loaded === 10) {
+          first.pause();
+        }
+      }
+    });
+    await flush();
+    const other = file.map(byte => 255 - byte);
+
+    // Make request
+    const result = await tus.upload('/files', other).promise;
+
+    // Assertions
+    expect(result.url).toBe('https://api.example.com/files/u2');
+    expect(server.uploads.get('u1')!.data).toEqual(Array.from(file.subarray(0, 10)));
+    expect(server.uploads.get('u2')!.data).toEqual(Array.from(other));
+  });
+
+  it('should identify files by name and modification time', async () => {
+    // Setup
+    const clip = (lastModified: number): UploadSource & { name: string; lastModified: number } => ({
+      size: file.length,
+      slice: (start, end) => file.subarray(start, end),
+      name: 'clip.mp4',
+      lastModified
+    });
+    const paused = tus.upload('/files', clip(1), {
+      onProgress: progress => {
+        if (progress.loaded === 10) {
+          paused.pause();
+        }
+      }
+    });
+    await flush();
+
+    // Make requests
+    const edited = await tus.upload('/files', clip(2)).promise;
+    const resumed = await tus.upload('/files', clip(1)).promise;
+
+    // Assertions
+    expect(edited.url).toBe('https://api.example.com/files/u2');
+    expect(resumed.url).toBe('https://api.example.com/files/u1');
+  });
+
+  it('should check the offset and continue after a failed chunk', async () => {
+    // Setup
+    const upload = tus.upload('/files', file, {
+      onProgress: progress => {
+        if (progress.loaded === 10) {
+          server.dropNextPatchAfter = 4;
+        }
+      }
+    });
+
+    // Make request
+    await upload.promise;
+
+    // Assertions
+    expect(server.uploads.get('u1')!.data).toEqual(Array.from(file));
+    expect(transport.getRequestHistory().map(request => `${request.method} ${request.headers['Upload-Offset'] ?? ''}`.trim()))
+      .toEqual(['POST', 'PATCH 0', 'PATCH 10', 'HEAD', 'PATCH 14', 'PATCH 24']);
+  });
+
+  it('should check the offset and continue after the connection drops', async () => {
+    // Setup
+    server.dropConnection = true;
+    const upload = tus.upload('/files', file, {
+      onProgress: progress => {
+        if (progress.loaded === 10) {
+          server.dropNextPatchAfter = 4;
+        }
+      }
+    });
+
+    // Make request
+    await upload.promise;
+
+    // Assertions
+    expect(server.uploads.get('u1')!.data).toEqual(Array.from(file));
+    expect(transport.getRequestHistory().map(request => `${request.method} ${request.headers['Upload-Offset'] ?? ''}`.trim()))
+      .toEqual(['POST', 'PATCH 0', 'PATCH 10', 'HEAD', 'PATCH 14', 'PATCH 24']);
+  });
+
+  it('should fail once the chunk retries are used up', async () => {
+    // Setup
+    transport.on(HTTPMethod.PATCH, /\/files\/\w+$/, { status: 500 });
+
+    // Make request
+    const upload = tus.upload('/files', file, { chunkRetries: 2 });
+
+    // Assertions
+    await expect(upload.promise).rejects.toMatchObject({ type: NetworkErrorType.HTTP_ERROR, statusCode: 500 });
+    expect(upload.state).toBe('failed');
+    expect(transport.getRequestHistory().filter(request => request.method === HTTPMethod.PATCH)).toHaveLength(3);
+  });
+
+  it('should stop waiting to retry a chunk when paused or terminated', async () => {
+    // Setup
+    transport.on(HTTPMethod.PATCH, /\/files\/\w+$/, { status: 503 });
+    const upload = tus.upload('/files', file, { retryDelay: 60000 });
+    await flush();
+
+    // Pause during the retry delay
+    upload.pause();
+    await flush();
+    expect(upload.state).toBe('paused');
+
+    // Terminate
+    await upload.terminate();
+
+    // Assertions
+    await expect(upload.promise).rejects.toMatchObject({ type: NetworkErrorType.CANCELLED });
+    expect(transport.getRequestHistory().filter(request => request.method === HTTPMethod.PATCH)).toHaveLength(1);
+    expect(server.uploads.has('u1')).toBe(false);
+  });
+
+  it('should delete the upload when terminated', async () => {
+    // Setup
+    const upload = tus.upload('/files', file, {
+      onProgress: progress => {
+        if (progress.loaded === 10) {
+          upload.pause();
+        }
+      }
+    });
+    await flush();
+
+    // Make request
+    await upload.terminate();
+
+    // Assertions
+    await expect(upload.promise).rejects.toMatchObject({ type: NetworkErrorType.CANCELLED });
+    expect(upload.state).toBe('terminated');
+    expect(server.uploads.has('u1')).toBe(false);
+    expect(await tus.upload('/files', file).promise).toMatchObject({ url: 'https://api.example.com/files/u2' });
+  });
+
+  it('should encode Upload-Metadata', () => {
+    expect(encodeMetadata({ filename: 'résumé.pdf', is_confidential: '' })).toBe('filename csOpc3Vtw6kucGRm,is_confidential');
+  });
+});
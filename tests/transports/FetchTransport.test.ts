@@ -0,0 +1,93 @@
+import { FetchTransport } from '../../src/transports/FetchTransport';
+import { HTTPMethod } from '../../src/types';
+
+describe('FetchTransport', () => {
+  it('should send the request with the injected fetch', async () => {
+    // Setup
+    const response = new Response('ok');
+    const fetchFn = jest.fn().mockResolvedValue(response);
+    const transport = new FetchTransport(fetchFn);
+    const controller = new AbortController();
+
+    // Make request
+    const result = await transport.send({
+      url: 'https://api.example.com/users',
+      method: HTTPMethod.POST,
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'hello',
+      signal: controller.signal
+    });
+
+    // Assertions
+    expect(result).toBe(response);
+    expect(fetchFn).toHaveBeenCalledWith('https://api.example.com/users', {
+      method: 'POST',
+      headers: { 'Content-Type': 'text/plain' },
+      body: 'hello',
+      signal: controller.signal
+    });
+  });
+
+  it('should use the global fetch by default', async () => {
+    // Setup
+    (global.fetch as jest.Mock).mockResolvedValueOnce(new Response('ok'));
+
+    // Make request
+    await new FetchTransport().send({
+      url: 'https://api.example.com/health',
+      method: HTTPMethod.GET,
+      headers: {},
+      signal: new AbortController().signal
+    });
+
+    // Assertions
+    expect(global.fetch).toHaveBeenCalledWith('https://api.example.com/health', expect.objectContaining({ method: 'GET' }));
+  });
+
+  it('should report download progress while the body is read', async () => {
+    // Setup
+    const fetchFn = jest.fn().mockResolvedValue(new Response('hello world', { headers: { 'Content-Length': '11' } }));
+    const onDownloadProgress = jest.fn();
+
+    // Make request
+    const response = await new FetchTransport(fetchFn).send({
+      url: 'https://api.example.com/greeting',
+      method: HTTPMethod.GET,
+      headers: {},
+      signal: new AbortController().signal,
+      onDownloadProgress
+    });
+
+    // Assertions
+    expect(onDownloadProgress).not.toHaveBeenCalled();
+    expect(await response.text()).toBe('hello world');
+    expect(onDownloadProgress).toHaveBeenLastCalledWith({ loaded: 11, total: 11 });
+    expect(response.headers.get('content-length')).toBe('11');
+  });
+
+  describe('redirects', () => {
+    const original = Object.getOwnPropertyDescriptor(globalThis, 'navigator');
+
+    afterEach(() => {
+      if (original) {
+        Object.defineProperty(globalThis, 'navigator', original);
+      } else {
+        delete (globalThis as { navigator?: Navigator }).navigator;
+      }
+    });
+
+    it('should handle manual redirects itself outside browsers', () => {
+      // Assertions
+      expect(new FetchTransport().manualRedirects).toBe(true);
+    });
+
+    it('should leave redirects to fetch in React Native', () => {
+      // Setup
+      Object.defineProperty(globalThis, 'navigator', { value: { product: 'ReactNative' }, configurable: true });
+
+      // Assertions
+      expect(new FetchTransport().manualRedirects).toBe(false);
+      expect(new FetchTransport(undefined, true).manualRedirects).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,144 @@
+import { XHRTransport, parseResponseHeaders } from '../../src/transports/XHRTransport';
+import { HTTPMethod } from '../../src/types';
+
+class FakeXHR {
+  method?: string;
+  url?: string;
+  requestHeaders: Record<string, string> = {};
+  body: any;
+  responseType = '';
+  withCredentials = false;
+  status = 0;
+  statusText = '';
+  response: any = null;
+  responseURL = '';
+  responseHeaders = '';
+  upload: { onprogress: ((event: any) => void) | null } = { onprogress: null };
+  onprogress: ((event: any) => void) | null = null;
+  onload: (() => void) | null = null;
+  onerror: (() => void) | null = null;
+  ontimeout: (() => void) | null = null;
+  onabort: (() => void) | null = null;
+  abort = jest.fn(() => this.onabort?.());
+
+  open(method: string, url: string) {
+    this.method = method;
+    this.url = url;
+  }
+
+  setRequestHeader(name: string, value: string) {
+    this.requestHeaders[name] = value;
+  }
+
+  send(body: any) {
+    this.body = body;
+  }
+
+  getAllResponseHeaders() {
+    return this.responseHeaders;
+  }
+
+  respond(status: number, response: any, headers: string = '') {
+    this.status = status;
+    this.response = response;
+    this.responseHeaders = headers;
+    this.onload?.();
+  }
+}
+
+describe('XHRTransport', () => {
+  let xhr: FakeXHR;
+  let transport: XHRTransport;
+  let controller: AbortController;
+
+  beforeEach(() => {
+    xhr = new FakeXHR();
+    transport = new XHRTransport({ createXHR: () => xhr as unknown as XMLHttpRequest });
+    controller = new AbortController();
+  });
+
+  it('should send the request and resolve with a Response', async () => {
+    // Make request
+    const promise = transport.send({
+      url: 'https://api.example.com/users',
+      method: HTTPMethod.POST,
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"name":"Ann"}',
+      signal: controller.signal
+    });
+    xhr.responseURL = 'https://api.example.com/users/1';
+    xhr.respond(201, new Blob(['{"id":1}']), 'Content-Type: application/json\r\nX-Trace: a\r\nX-Trace: b\r\n');
+    const response = await promise;
+
+    // Assertions
+    expect(xhr.method).toBe('POST');
+    expect(xhr.requestHeaders).toEqual({ 'Content-Type': 'application/json' });
+    expect(xhr.body).toBe('{"name":"Ann"}');
+    expect(xhr.responseType).toBe('blob');
+    expect(response.status).toBe(201);
+    expect(response.url).toBe('https://api.example.com/users/1');
+    expect(response.headers.get('x-trace')).toBe('a, b');
+    expect(await response.json()).toEqual({ id: 1 });
+  });
+
+  it('should report upload and download progress', async () => {
+    // Setup
+    const onUploadProgress = jest.fn();
+    const onDownloadProgress = jest.fn();
+
+    // Make request
+    const promise = transport.send({
+      url: 'https://api.example.com/photos',
+      method: HTTPMethod.POST,
+      headers: {},
+      body: 'data',
+      signal: controller.signal,
+      onUploadProgress,
+      onDownloadProgress
+    });
+    xhr.upload.onprogress?.({ loaded: 50, total: 100, lengthComputable: true });
+    xhr.onprogress?.({ loaded: 10, total: 0, lengthComputable: false });
+    xhr.respond(204, null);
+    await promise;
+
+    // Assertions
+    expect(onUploadProgress).toHaveBeenCalledWith({ loaded: 50, total: 100 });
+    expect(onDownloadProgress).toHaveBeenCalledWith({ loaded: 10, total: undefined });
+  });
+
+  it('should reject with an AbortError when the signal aborts', async () => {
+    // Make request
+    const promise = transport.send({
+      url: 'https://api.example.com/slow',
+      method: HTTPMethod.GET,
+      headers: {},
+      signal: controller.signal
+    });
+    controller.abort();
+
+    // Assertions
+    await expect(promise).rejects.toMatchObject({ name: 'AbortError' });
+    expect(xhr.abort).toHaveBeenCalled();
+  });
+
+  it('should reject when the request fails', async () => {
+    // Make request
+    const promise = transport.send({
+      url: 'https://api.example.com/users',
+      method: HTTPMethod.GET,
+      headers: {},
+      signal: controller.signal
+    });
+    xhr.onerror?.();
+
+    // Assertions
+    await expect(promise).rejects.toThrow('Network request failed');
+  });
+
+  it('should parse raw response headers', () => {
+    expect(parseResponseHeaders('Content-Type: text/plain\r\nETag: "abc"\r\n\r\n')).toEqual({
+      'content-type': 'text/plain',
+      'etag': '"abc"'
+    });
+  });
+});
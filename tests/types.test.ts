@@ -0,0 +1,59 @@
+import { HTTPMethod, NetworkError, NetworkErrorType, REDACTED, redactHeaders } from '../src/types';
+
+describe('NetworkError', () => {
+  it('should attach details passed to the constructor', () => {
+    const error = new NetworkError(NetworkErrorType.HTTP_ERROR, 'HTTP error: 500', 500, { body: 'oops', attempts: 2 });
+    expect(error.body).toBe('oops');
+    expect(error.attempts).toBe(2);
+  });
+
+  it('should ignore undefined details', () => {
+    const error = NetworkError.timeout().withDetails({ attempts: 3 }).withDetails({ attempts: undefined });
+    expect(error.attempts).toBe(3);
+  });
+
+  it('should serialize to JSON for crash reporters', () => {
+    // Setup
+    const cause = NetworkError.networkFailure('offline');
+    const error = NetworkError.httpError(503).withDetails({
+      request: { method: HTTPMethod.GET, url: 'https://api.example.com/users', headers: {} },
+      responseHeaders: { 'retry-after': '5', 'set-cookie': 'session=abc' },
+      body: { message: 'Maintenance' },
+      attempts: 3,
+      cause
+    });
+
+    // Assertions
+    expect(JSON.parse(JSON.stringify(error))).toEqual({
+      name: 'NetworkError',
+      type: NetworkErrorType.HTTP_ERROR,
+      message: 'HTTP error: 503',
+      statusCode: 503,
+      request: { method: 'GET', url: 'https://api.example.com/users', headers: {} },
+      response: { headers: { 'retry-after': '5', 'set-cookie': REDACTED }, body: { message: 'Maintenance' } },
+      attempts: 3,
+      cause: {
+        name: 'NetworkError',
+        type: NetworkErrorType.NETWORK_FAILURE,
+        message: 'Network failure: offline'
+      }
+    });
+  });
+});
+
+describe('redactHeaders', () => {
+  it('should redact sensitive headers regardless of letter case', () => {
+    expect(redactHeaders({ Authorization: 'Bearer x', cookie: 'a=1', Accept: 'application/json' })).toEqual({
+      Authorization: REDACTED,
+      cookie: REDACTED,
+      Accept: 'application/json'
+    });
+  });
+
+  it('should accept a custom list of sensitive headers', () => {
+    expect(redactHeaders({ 'X-Session': 's', Authorization: 'Bearer x' }, ['x-session'])).toEqual({
+      'X-Session': REDACTED,
+      Authorization: 'Bearer x'
+    });
+  });
+});